@@ -0,0 +1,151 @@
+import dotenv from 'dotenv';
+import { LlmMessage, LlmProvider } from '../types/llm';
+import { createOpenAIProvider } from '../services/llm/openaiProvider';
+import { createFakeProvider } from '../services/llm/fakeProvider';
+
+dotenv.config();
+
+/**
+ * Моделі за замовчуванням (індекс vitahub-xml побудовано на text-embedding-3-large, 3072 dimensions)
+ */
+export const LLM_MODELS = {
+  chat: process.env.CHAT_MODEL || 'gpt-4o-mini',
+  embedding: process.env.EMBEDDING_MODEL || 'text-embedding-3-large',
+};
+
+/**
+ * Тип провайдера (LLM_PROVIDER=openai | fake)
+ */
+export type LlmProviderName = 'openai' | 'fake';
+
+let llmProvider: LlmProvider | null = null;
+
+/**
+ * Обраний у конфігурації провайдер
+ */
+export const getLlmProviderName = (): LlmProviderName => {
+  const name = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+
+  if (name !== 'openai' && name !== 'fake') {
+    throw new Error(`Невідомий LLM_PROVIDER: "${name}" (очікується openai або fake)`);
+  }
+
+  return name;
+};
+
+/**
+ * Отримання LLM провайдера відповідно до конфігурації
+ */
+export const getLlmProvider = (): LlmProvider => {
+  if (llmProvider) {
+    return llmProvider;
+  }
+
+  if (getLlmProviderName() === 'fake') {
+    llmProvider = createFakeProvider({
+      dimensions: process.env.FAKE_EMBEDDING_DIMENSIONS
+        ? parseInt(process.env.FAKE_EMBEDDING_DIMENSIONS)
+        : undefined,
+      scriptPath: process.env.FAKE_LLM_SCRIPT,
+    });
+  } else {
+    llmProvider = createOpenAIProvider();
+  }
+
+  console.log(`✅ LLM провайдер: ${llmProvider.name}`);
+  return llmProvider;
+};
+
+/**
+ * Підміна провайдера (тести, локальні сценарії)
+ */
+export const setLlmProvider = (provider: LlmProvider | null): void => {
+  llmProvider = provider;
+};
+
+/**
+ * Створення embedding для тексту
+ */
+export const createEmbedding = async (text: string): Promise<number[]> => {
+  try {
+    const [embedding] = await getLlmProvider().embed([text], LLM_MODELS.embedding);
+
+    if (!embedding) {
+      throw new Error('Отримано порожню відповідь від провайдера');
+    }
+
+    return embedding;
+  } catch (error) {
+    console.error('❌ Помилка створення embedding:', error);
+    throw new Error('Не вдалося створити embedding для тексту');
+  }
+};
+
+/**
+ * Пакетне створення embeddings (для інжесту каталогу)
+ */
+export const createEmbeddings = async (texts: string[]): Promise<number[][]> => {
+  if (texts.length === 0) {
+    return [];
+  }
+
+  try {
+    return await getLlmProvider().embed(texts, LLM_MODELS.embedding);
+  } catch (error) {
+    console.error('❌ Помилка пакетного створення embeddings:', error);
+    throw new Error('Не вдалося створити embeddings для пакету текстів');
+  }
+};
+
+/**
+ * Генерація відповіді через LLM
+ */
+export const generateChatResponse = async (
+  messages: LlmMessage[],
+  temperature: number = 0.7,
+  maxTokens: number = 1000,
+  model: string = LLM_MODELS.chat
+): Promise<string> => {
+  try {
+    return await getLlmProvider().complete(messages, { model, temperature, maxTokens });
+  } catch (error) {
+    console.error('❌ Помилка генерації відповіді LLM:', error);
+    throw new Error('Не вдалося згенерувати відповідь');
+  }
+};
+
+/**
+ * Потокова генерація відповіді: фрагменти тексту по мірі генерації
+ */
+export async function* streamChatResponse(
+  messages: LlmMessage[],
+  temperature: number = 0.7,
+  maxTokens: number = 1000,
+  model: string = LLM_MODELS.chat
+): AsyncGenerator<string> {
+  try {
+    yield* getLlmProvider().stream(messages, { model, temperature, maxTokens });
+  } catch (error) {
+    console.error('❌ Помилка потокової генерації LLM:', error);
+    throw new Error('Не вдалося згенерувати відповідь');
+  }
+}
+
+/**
+ * Перевірка здоров'я LLM провайдера
+ */
+export const checkLlmHealth = async (): Promise<boolean> => {
+  try {
+    const provider = getLlmProvider();
+    const healthy = await provider.healthCheck(LLM_MODELS.chat);
+
+    if (healthy) {
+      console.log(`✅ ${provider.name} здоров'я: OK`);
+    }
+
+    return healthy;
+  } catch (error) {
+    console.error('❌ Помилка перевірки здоров\'я LLM:', error);
+    return false;
+  }
+};
@@ -0,0 +1,95 @@
+import dotenv from 'dotenv';
+import { SessionStore } from '../types/sessionStore';
+import { createMemorySessionStore } from '../services/sessionStores/memoryStore';
+import { createFileSessionStore } from '../services/sessionStores/fileStore';
+import { createLocalRedisClient, createRedisSessionStore, RedisLikeClient } from '../services/sessionStores/redisStore';
+
+dotenv.config();
+
+/**
+ * Тип сховища сесій (SESSION_STORE=memory | file | redis)
+ */
+export type SessionStoreBackend = 'memory' | 'file' | 'redis';
+
+/**
+ * Скільки годин неактивна сесія зберігається
+ */
+export const SESSION_TTL_HOURS = parseFloat(process.env.SESSION_TTL_HOURS || '24');
+
+let sessionStore: SessionStore | null = null;
+
+/**
+ * Обраний у конфігурації бекенд
+ */
+export const getSessionStoreBackend = (): SessionStoreBackend => {
+  const backend = (process.env.SESSION_STORE || 'memory').toLowerCase();
+
+  if (backend !== 'memory' && backend !== 'file' && backend !== 'redis') {
+    throw new Error(`Невідомий SESSION_STORE: "${backend}" (очікується memory, file або redis)`);
+  }
+
+  return backend;
+};
+
+/**
+ * Redis-клієнт: локальна заміна для REDIS_URL=memory://, інакше ioredis
+ */
+const createRedisClient = (url: string): RedisLikeClient => {
+  if (url === 'memory://') {
+    return createLocalRedisClient();
+  }
+
+  let Redis: new (url: string) => RedisLikeClient;
+  try {
+    // ioredis - необов'язкова залежність, потрібна тільки для SESSION_STORE=redis
+    Redis = require('ioredis');
+  } catch {
+    throw new Error('Для SESSION_STORE=redis встановіть пакет ioredis (npm install ioredis)');
+  }
+  return new Redis(url);
+};
+
+/**
+ * Отримання сховища сесій відповідно до конфігурації
+ */
+export const getSessionStore = (): SessionStore => {
+  if (sessionStore) {
+    return sessionStore;
+  }
+
+  const backend = getSessionStoreBackend();
+
+  if (backend === 'file') {
+    sessionStore = createFileSessionStore(process.env.SESSION_STORE_PATH || './data/sessions');
+  } else if (backend === 'redis') {
+    sessionStore = createRedisSessionStore(createRedisClient(process.env.REDIS_URL || 'redis://localhost:6379'), {
+      prefix: process.env.REDIS_SESSION_PREFIX || 'vitahub:session:',
+      ttlSeconds: Math.round(SESSION_TTL_HOURS * 60 * 60),
+    });
+  } else {
+    sessionStore = createMemorySessionStore();
+  }
+
+  console.log(`✅ Сховище сесій: ${sessionStore.name}`);
+  return sessionStore;
+};
+
+/**
+ * Підміна сховища (тести, локальні сценарії)
+ */
+export const setSessionStore = (store: SessionStore | null): void => {
+  sessionStore = store;
+};
+
+/**
+ * Перевірка здоров'я сховища сесій
+ */
+export const checkSessionStoreHealth = async (): Promise<boolean> => {
+  try {
+    await getSessionStore().get('health-check');
+    return true;
+  } catch (error) {
+    console.error('❌ Помилка перевірки сховища сесій:', error);
+    return false;
+  }
+};
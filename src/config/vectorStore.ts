@@ -0,0 +1,66 @@
+import dotenv from 'dotenv';
+import { VectorStore } from '../types/vectorStore';
+import { createPineconeStore } from '../services/vectorStores/pineconeStore';
+import { createLocalStore } from '../services/vectorStores/localStore';
+import { checkPineconeHealth } from './pinecone';
+
+dotenv.config();
+
+/**
+ * Тип бекенду векторного сховища (VECTOR_STORE=pinecone | local)
+ */
+export type VectorStoreBackend = 'pinecone' | 'local';
+
+let vectorStore: VectorStore | null = null;
+
+/**
+ * Обраний у конфігурації бекенд
+ */
+export const getVectorStoreBackend = (): VectorStoreBackend => {
+  const backend = (process.env.VECTOR_STORE || 'pinecone').toLowerCase();
+
+  if (backend !== 'pinecone' && backend !== 'local') {
+    throw new Error(`Невідомий VECTOR_STORE: "${backend}" (очікується pinecone або local)`);
+  }
+
+  return backend;
+};
+
+/**
+ * Отримання векторного сховища відповідно до конфігурації
+ */
+export const getVectorStore = (): VectorStore => {
+  if (vectorStore) {
+    return vectorStore;
+  }
+
+  const backend = getVectorStoreBackend();
+
+  if (backend === 'local') {
+    const snapshotPath = process.env.LOCAL_VECTOR_SNAPSHOT || './data/vectors.ndjson';
+    vectorStore = createLocalStore(snapshotPath);
+  } else {
+    vectorStore = createPineconeStore();
+  }
+
+  console.log(`✅ Векторне сховище: ${vectorStore.name}`);
+  return vectorStore;
+};
+
+/**
+ * Перевірка здоров'я векторного сховища
+ */
+export const checkVectorStoreHealth = async (): Promise<boolean> => {
+  if (getVectorStoreBackend() === 'pinecone') {
+    return checkPineconeHealth();
+  }
+
+  try {
+    const stats = await getVectorStore().stats();
+    console.log(`✅ Локальне сховище здоров'я: OK. Векторів: ${stats.totalRecordCount}`);
+    return true;
+  } catch (error) {
+    console.error('❌ Помилка перевірки локального сховища:', error);
+    return false;
+  }
+};
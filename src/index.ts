@@ -2,16 +2,29 @@ import express, { Request, Response, NextFunction } from 'express';
 import path from 'path';
 import dotenv from 'dotenv';
 import { processChatMessage, deleteSession, getSessionStats } from './services/chatbot';
-import { checkPineconeHealth } from './config/pinecone';
-import { checkOpenAIHealth } from './config/openai';
-import { validateEnvironment } from './utils/validation';
-import { ChatRequest } from './types/product';
+import { checkVectorStoreHealth, getVectorStoreBackend } from './config/vectorStore';
+import { checkLlmHealth, getLlmProviderName } from './config/llm';
+import { checkSessionStoreHealth, getSessionStore, getSessionStoreBackend } from './config/sessionStore';
+import { refreshCatalog, startCatalogRefresh } from './services/catalog';
+import {
+  attachChatGateway,
+  getGatewayStats,
+  GATEWAY_CONFIG,
+  pushOperatorMessage,
+  pushStockAlert,
+  pushTypingState,
+} from './services/chatGateway';
+import { getProductDetails, getProductDetailsByArticle, ProductDetailsResult } from './services/productDetails';
+import { searchCatalog, isValidCatalogCursor, CatalogSearchParams } from './services/catalogSearch';
+import { getCategoryTree, findCategory } from './services/categoryIndex';
+import { isValidBearerToken, validateChatRequest, validateEnvironment, validateSearchFilters } from './utils/validation';
+import { ChatRequest, ChatStreamEvent, DietaryTag, SortOrder } from './types/product';
 
 // Завантаження змінних середовища
 dotenv.config();
 
-// Створення Express додатку
-const app = express();
+// Створення Express додатку (експортується для тестів роутів)
+export const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
@@ -51,10 +64,18 @@ app.get('/api', (_req: Request, res: Response) => {
     endpoints: {
       health: 'GET /health - Перевірка стану сервісу',
       chat: 'POST /chat - Відправити повідомлення боту',
+      chatStream: 'POST /chat/stream - Те саме з потоковою відповіддю (Server-Sent Events)',
       deleteSession: 'DELETE /chat/:sessionId - Видалити сесію',
+      push: 'POST /chat/:sessionId/push - Подія від оператора у віджет (operator_message, typing, stock_alert)',
+      websocket: `WS ${GATEWAY_CONFIG.path}?sessionId=&lastSeq= - Чат у реальному часі з push-подіями`,
       stats: 'GET /stats - Отримати статистику сесій',
+      productSearch: 'GET /products/search?q=&brand=&priceMin=&priceMax=&category=&diet=&sort=&page=&limit= - Пошук по каталогу з фасетами',
+      product: 'GET /products/:id - Деталі товару та схожі товари',
+      categories: 'GET /categories - Дерево категорій з кількістю товарів',
+      categoryProducts: 'GET /categories/:slug/products - Товари категорії (ті ж параметри, що й /products/search)',
+      productByArticle: 'GET /products/by-article/:gtin - Деталі товару за артикулом або штрихкодом',
     },
-    documentation: 'Використовуйте POST /chat з JSON: { "message": "ваше повідомлення", "sessionId": "опціонально" }',
+    documentation: 'Використовуйте POST /chat з JSON: { "message": "ваше повідомлення", "sessionId": "опціонально", "filters": { "brands": [], "priceMin": 0, "priceMax": 800, "category": "", "inStockOnly": true } }',
   });
 });
 
@@ -78,19 +99,23 @@ app.get('/health', async (_req: Request, res: Response) => {
       return;
     }
 
-    // Перевірка Pinecone
-    const pineconeHealthy = await checkPineconeHealth();
+    // Перевірка векторного сховища
+    const vectorStoreHealthy = await checkVectorStoreHealth();
 
-    // Перевірка OpenAI
-    const openaiHealthy = await checkOpenAIHealth();
+    // Перевірка LLM провайдера
+    const llmHealthy = await checkLlmHealth();
 
-    const isHealthy = pineconeHealthy && openaiHealthy;
+    // Перевірка сховища сесій
+    const sessionStoreHealthy = await checkSessionStoreHealth();
+
+    const isHealthy = vectorStoreHealthy && llmHealthy && sessionStoreHealthy;
 
     res.status(isHealthy ? 200 : 503).json({
       status: isHealthy ? 'healthy' : 'degraded',
       services: {
-        pinecone: pineconeHealthy ? 'ok' : 'error',
-        openai: openaiHealthy ? 'ok' : 'error',
+        [getVectorStoreBackend()]: vectorStoreHealthy ? 'ok' : 'error',
+        [getLlmProviderName()]: llmHealthy ? 'ok' : 'error',
+        [`sessions:${getSessionStoreBackend()}`]: sessionStoreHealthy ? 'ok' : 'error',
       },
       environment: {
         nodeEnv: process.env.NODE_ENV || 'development',
@@ -117,25 +142,11 @@ app.post('/chat', async (req: Request, res: Response) => {
     const chatRequest: ChatRequest = req.body;
 
     // Валідація запиту
-    if (!chatRequest.message || typeof chatRequest.message !== 'string') {
-      res.status(400).json({
-        error: 'Поле "message" є обов\'язковим і повинно бути рядком',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
+    const validationError = validateChatRequest(chatRequest);
 
-    if (chatRequest.message.trim().length === 0) {
+    if (validationError) {
       res.status(400).json({
-        error: 'Повідомлення не може бути порожнім',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
-
-    if (chatRequest.message.length > 500) {
-      res.status(400).json({
-        error: 'Повідомлення занадто довге (максимум 500 символів)',
+        error: validationError,
         timestamp: new Date().toISOString(),
       });
       return;
@@ -162,11 +173,57 @@ app.post('/chat', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /chat/stream
+ * Чат з потоковою відповіддю (Server-Sent Events): intent -> products -> token... -> done (або error)
+ */
+app.post('/chat/stream', async (req: Request, res: Response) => {
+  const chatRequest: ChatRequest = req.body;
+  const validationError = validateChatRequest(chatRequest);
+
+  if (validationError) {
+    res.status(400).json({
+      error: validationError,
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  // Клієнт міг закрити з'єднання - відповідь все одно формуємо (історія сесії), але не пишемо в сокет
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const send = (event: ChatStreamEvent): void => {
+    if (!closed) {
+      res.write(`event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    }
+  };
+
+  try {
+    console.log(`💬 Потоковий запит від клієнта: "${chatRequest.message.substring(0, 50)}..."`);
+
+    const response = await processChatMessage(chatRequest, send);
+    send({ event: 'done', data: response });
+  } catch (error: any) {
+    console.error('❌ Помилка потокової обробки чату:', error);
+    send({ event: 'error', data: { error: error.message || 'Внутрішня помилка сервера' } });
+  }
+
+  res.end();
+});
+
 /**
  * DELETE /chat/:sessionId
  * Видалення сесії
  */
-app.delete('/chat/:sessionId', (req: Request, res: Response) => {
+app.delete('/chat/:sessionId', async (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
 
@@ -178,7 +235,7 @@ app.delete('/chat/:sessionId', (req: Request, res: Response) => {
       return;
     }
 
-    const deleted = deleteSession(sessionId);
+    const deleted = await deleteSession(sessionId);
 
     if (!deleted) {
       res.status(404).json({
@@ -205,17 +262,91 @@ app.delete('/chat/:sessionId', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /chat/:sessionId/push
+ * Подія від оператора або back-office у віджет через WebSocket-шлюз (Authorization: Bearer OPERATOR_API_KEY)
+ */
+app.post('/chat/:sessionId/push', async (req: Request, res: Response) => {
+  try {
+    const operatorKey = process.env.OPERATOR_API_KEY;
+
+    if (!operatorKey) {
+      res.status(403).json({
+        error: 'Push-події вимкнено: OPERATOR_API_KEY не задано',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (!isValidBearerToken(req.headers.authorization, operatorKey)) {
+      res.status(401).json({
+        error: 'Невірний ключ оператора',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const sessionId = String(req.params.sessionId);
+    const { type, text, operator, isTyping, productId, message } = req.body || {};
+
+    if (!(await getSessionStore().get(sessionId))) {
+      res.status(404).json({
+        error: 'Сесію не знайдено',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    let delivered: number | null;
+
+    if (type === 'operator_message' && typeof text === 'string' && text.trim().length > 0) {
+      delivered = await pushOperatorMessage(sessionId, text.trim(), typeof operator === 'string' ? operator : undefined);
+    } else if (type === 'typing' && typeof isTyping === 'boolean') {
+      delivered = pushTypingState(sessionId, isTyping);
+    } else if (type === 'stock_alert' && typeof productId === 'string') {
+      delivered = await pushStockAlert(sessionId, productId, typeof message === 'string' ? message : undefined);
+      if (delivered === null) {
+        res.status(404).json({
+          error: 'Товар не знайдено',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+    } else {
+      res.status(400).json({
+        error: 'Очікується { type: "operator_message", text } | { type: "typing", isTyping } | { type: "stock_alert", productId }',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { sessionId, type, delivered: delivered || 0 }, // delivered - кількість відкритих з'єднань сесії
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Помилка push-події:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Внутрішня помилка сервера',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
 /**
  * GET /stats
  * Отримання статистики сесій (для адміністрування)
  */
-app.get('/stats', (_req: Request, res: Response) => {
+app.get('/stats', async (_req: Request, res: Response) => {
   try {
-    const stats = getSessionStats();
+    const stats = await getSessionStats();
 
     res.json({
       success: true,
-      data: stats,
+      data: { ...stats, gateway: getGatewayStats() },
       timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
@@ -229,6 +360,249 @@ app.get('/stats', (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * Відповідь з деталями товару (спільна для пошуку за ID та артикулом)
+ */
+const sendProductDetails = (
+  res: Response,
+  result: ProductDetailsResult | null,
+  notFoundMessage: string
+): void => {
+  if (!result) {
+    res.status(404).json({
+      error: notFoundMessage,
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+const SORT_ORDERS: SortOrder[] = ['relevance', 'best_value'];
+
+/**
+ * Розбір query-параметрів пошуку по каталогу
+ */
+const parseCatalogSearchQuery = (query: Request['query']): { params: CatalogSearchParams; errors: string[] } => {
+  const errors: string[] = [];
+  const single = (value: unknown): string | undefined => {
+    const first = Array.isArray(value) ? value[0] : value;
+    return typeof first === 'string' && first.trim() ? first.trim() : undefined;
+  };
+  const number = (name: string): number | undefined => {
+    const raw = single(query[name]);
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      errors.push(`Параметр "${name}" повинен бути числом`);
+      return undefined;
+    }
+    return value;
+  };
+
+  // brand=Solgar&brand=Now Foods або brand=Solgar,Now Foods
+  const list = (value: unknown): string[] =>
+    ([] as unknown[])
+      .concat(value || [])
+      .filter((item): item is string => typeof item === 'string')
+      .flatMap((item) => item.split(','))
+      .map((item) => item.trim())
+      .filter(Boolean);
+  const brands = list(query.brand);
+  const dietary = list(query.diet) as DietaryTag[];
+
+  const priceMin = number('priceMin');
+  const priceMax = number('priceMax');
+  const category = single(query.category);
+
+  const sort = single(query.sort);
+  if (sort !== undefined && !SORT_ORDERS.includes(sort as SortOrder)) {
+    errors.push(`Параметр "sort" повинен бути одним з: ${SORT_ORDERS.join(', ')}`);
+  }
+
+  const params: CatalogSearchParams = {
+    query: single(query.q) || '',
+    filters: {
+      ...(brands.length > 0 ? { brands } : {}),
+      ...(priceMin !== undefined ? { priceMin } : {}),
+      ...(priceMax !== undefined ? { priceMax } : {}),
+      ...(category ? { category } : {}),
+      ...(dietary.length > 0 ? { dietary } : {}),
+    },
+    ...(sort && SORT_ORDERS.includes(sort as SortOrder) ? { sort: sort as SortOrder } : {}),
+    cursor: single(query.page),
+    pageSize: number('limit'),
+  };
+
+  return { params, errors };
+};
+
+/**
+ * GET /products/search
+ * Пошук по каталогу без чат-бота: ранжовані результати, курсорна пагінація та фасети
+ */
+app.get('/products/search', async (req: Request, res: Response) => {
+  try {
+    const { params, errors } = parseCatalogSearchQuery(req.query);
+    const filtersValidation = validateSearchFilters(params.filters);
+    const allErrors = [...errors, ...filtersValidation.errors];
+
+    if (allErrors.length === 0 && !isValidCatalogCursor(params)) {
+      allErrors.push('Невалідний параметр "page" (курсор від іншого запиту або пошкоджений)');
+    }
+
+    if (allErrors.length > 0) {
+      res.status(400).json({
+        error: allErrors.join('; '),
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const result = await searchCatalog(params);
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Помилка пошуку по каталогу:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Внутрішня помилка сервера',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /products/by-article/:gtin
+ * Деталі товару за артикулом або штрихкодом
+ */
+app.get('/products/by-article/:gtin', async (req: Request, res: Response) => {
+  try {
+    const gtin = String(req.params.gtin);
+    const result = await getProductDetailsByArticle(gtin);
+
+    sendProductDetails(res, result, `Товар з артикулом "${gtin}" не знайдено`);
+  } catch (error: any) {
+    console.error('❌ Помилка отримання товару за артикулом:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Внутрішня помилка сервера',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /products/:id
+ * Деталі товару: метадані, похідні поля (дозування, форма, фасування) та схожі товари
+ */
+app.get('/products/:id', async (req: Request, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    const result = await getProductDetails(id);
+
+    sendProductDetails(res, result, `Товар з ID "${id}" не знайдено`);
+  } catch (error: any) {
+    console.error('❌ Помилка отримання товару:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Внутрішня помилка сервера',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /categories
+ * Дерево категорій каталогу (з category_path) з кількістю товарів та slug
+ */
+app.get('/categories', async (_req: Request, res: Response) => {
+  try {
+    const tree = await getCategoryTree();
+
+    res.json({
+      success: true,
+      data: tree,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Помилка отримання категорій:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Внутрішня помилка сервера',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /categories/:slug/products
+ * Товари категорії та її підкатегорій з пагінацією та фасетами
+ */
+app.get('/categories/:slug/products', async (req: Request, res: Response) => {
+  try {
+    const slug = String(req.params.slug);
+    const category = await findCategory(slug);
+
+    if (!category) {
+      res.status(404).json({
+        error: `Категорію "${slug}" не знайдено`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const { params, errors } = parseCatalogSearchQuery(req.query);
+    params.categorySlug = category.slug;
+    const allErrors = [...errors, ...validateSearchFilters(params.filters).errors];
+
+    if (allErrors.length === 0 && !isValidCatalogCursor(params)) {
+      allErrors.push('Невалідний параметр "page" (курсор від іншого запиту або пошкоджений)');
+    }
+
+    if (allErrors.length > 0) {
+      res.status(400).json({
+        error: allErrors.join('; '),
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const result = await searchCatalog(params);
+    const { children, ...categoryInfo } = category;
+
+    res.json({
+      success: true,
+      data: {
+        category: { ...categoryInfo, children: children.map(({ children: _nested, ...child }) => child) },
+        ...result,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('❌ Помилка отримання товарів категорії:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Внутрішня помилка сервера',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
 /**
  * 404 Handler
  */
@@ -270,20 +644,28 @@ const startServer = async () => {
 
     console.log('✅ Конфігурація валідна');
 
-    // Перевірка підключення до Pinecone
-    const pineconeHealthy = await checkPineconeHealth();
-    if (!pineconeHealthy) {
-      console.warn('⚠️ Попередження: Pinecone не доступний');
+    // Перевірка підключення до векторного сховища
+    const vectorStoreHealthy = await checkVectorStoreHealth();
+    if (!vectorStoreHealthy) {
+      console.warn(`⚠️ Попередження: векторне сховище (${getVectorStoreBackend()}) не доступне`);
+    }
+
+    // Перевірка підключення до LLM провайдера
+    const llmHealthy = await checkLlmHealth();
+    if (!llmHealthy) {
+      console.warn(`⚠️ Попередження: LLM провайдер (${getLlmProviderName()}) не доступний`);
     }
 
-    // Перевірка підключення до OpenAI
-    const openaiHealthy = await checkOpenAIHealth();
-    if (!openaiHealthy) {
-      console.warn('⚠️ Попередження: OpenAI не доступний');
+    // Завантаження каталогу для точних індексів (артикули тощо)
+    try {
+      await refreshCatalog();
+    } catch (error) {
+      console.warn('⚠️ Попередження: не вдалося завантажити каталог, спробуємо при першому запиті', error);
     }
+    startCatalogRefresh(parseInt(process.env.CATALOG_REFRESH_MINUTES || '60'));
 
-    // Запуск сервера
-    app.listen(PORT, () => {
+    // Запуск сервера (WebSocket-шлюз працює на тому ж порту)
+    const server = app.listen(PORT, () => {
       console.log('');
       console.log('🚀 ================================================');
       console.log(`🤖 Чат-бот підтримки магазину вітамінів запущено!`);
@@ -294,11 +676,20 @@ const startServer = async () => {
       console.log(`   - GET  / - Інформація про API`);
       console.log(`   - GET  /health - Здоров'я сервісу`);
       console.log(`   - POST /chat - Чат з ботом`);
+      console.log(`   - POST /chat/stream - Чат з потоковою відповіддю (SSE)`);
       console.log(`   - DELETE /chat/:sessionId - Видалення сесії`);
+      console.log(`   - POST /chat/:sessionId/push - Push-подія від оператора`);
+      console.log(`   - WS   ${GATEWAY_CONFIG.path} - Чат через WebSocket`);
       console.log(`   - GET  /stats - Статистика сесій`);
+      console.log(`   - GET  /products/search - Пошук по каталогу`);
+      console.log(`   - GET  /products/:id - Деталі товару`);
+      console.log(`   - GET  /categories - Дерево категорій`);
+      console.log(`   - GET  /categories/:slug/products - Товари категорії`);
+      console.log(`   - GET  /products/by-article/:gtin - Товар за артикулом`);
       console.log('================================================');
       console.log('');
     });
+    attachChatGateway(server);
   } catch (error) {
     console.error('❌ Критична помилка запуску:', error);
     process.exit(1);
@@ -316,5 +707,7 @@ process.on('SIGINT', () => {
   process.exit(0);
 });
 
-// Запуск
-startServer();
\ No newline at end of file
+// Запуск (тільки при запуску файлу напряму, не при імпорті в тестах)
+if (require.main === module) {
+  startServer();
+}
\ No newline at end of file
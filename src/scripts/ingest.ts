@@ -0,0 +1,110 @@
+import dotenv from 'dotenv';
+import { ingestCatalog, IngestOptions } from '../services/catalogIngest';
+
+dotenv.config();
+
+/**
+ * CLI для побудови індексу каталогу з XML/YML фіду vitahub
+ *
+ * Використання:
+ *   npm run ingest -- --feed ./feed.xml [--dry-run] [--resume] [--batch-size 100] [--limit 50]
+ */
+
+const USAGE = `Використання: npm run ingest -- [опції]
+
+  --feed <шлях|url>     Фід каталогу (за замовчуванням CATALOG_FEED_URL)
+  --dry-run             Тільки парсинг і перевірка, без embeddings та upsert
+  --resume              Продовжити з останнього успішного пакету
+  --batch-size <n>      Розмір пакету (за замовчуванням 100)
+  --limit <n>           Обробити тільки перші n товарів
+  --checkpoint <шлях>   Файл чекпоінту (за замовчуванням .ingest-checkpoint.json)
+  --help                Показати цю довідку`;
+
+const parseArgs = (argv: string[]): IngestOptions | null => {
+  const options: IngestOptions = {
+    feed: process.env.CATALOG_FEED_URL || '',
+    dryRun: false,
+    resume: false,
+    batchSize: 100,
+    checkpointPath: '.ingest-checkpoint.json',
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    switch (arg) {
+      case '--feed':
+        options.feed = argv[++i] || '';
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--resume':
+        options.resume = true;
+        break;
+      case '--batch-size':
+        options.batchSize = parseInt(argv[++i] || '', 10);
+        break;
+      case '--limit':
+        options.limit = parseInt(argv[++i] || '', 10);
+        break;
+      case '--checkpoint':
+        options.checkpointPath = argv[++i] || options.checkpointPath;
+        break;
+      case '--help':
+        return null;
+      default:
+        throw new Error(`Невідома опція: ${arg}`);
+    }
+  }
+
+  if (!options.feed) {
+    throw new Error('Не вказано фід: використайте --feed або CATALOG_FEED_URL');
+  }
+
+  if (!Number.isInteger(options.batchSize) || options.batchSize < 1 || options.batchSize > 1000) {
+    throw new Error('--batch-size повинен бути цілим числом від 1 до 1000');
+  }
+
+  if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit < 1)) {
+    throw new Error('--limit повинен бути додатнім цілим числом');
+  }
+
+  return options;
+};
+
+const main = async () => {
+  let options: IngestOptions | null;
+
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(`❌ ${error.message}\n`);
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  console.log(`🚀 Інжест каталогу${options.dryRun ? ' (dry-run)' : ''}`);
+
+  try {
+    const report = await ingestCatalog(options);
+
+    console.log('');
+    console.log('📊 Підсумок інжесту:');
+    console.log(`   Товарів у фіді: ${report.totalProducts}`);
+    console.log(`   Завантажено: ${report.upserted}`);
+    console.log(`   Пропущено (resume): ${report.skippedByResume}`);
+    console.log(`   Пакетів: ${report.batches}`);
+  } catch (error) {
+    console.error('❌ Інжест перервано:', error);
+    console.error('💡 Після усунення причини запустіть з --resume, щоб продовжити');
+    process.exit(1);
+  }
+};
+
+main();
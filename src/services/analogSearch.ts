@@ -0,0 +1,245 @@
+import { getCatalogProducts } from './catalog';
+import { filterBlocked } from './merchandising';
+import { searchProducts, searchSimilarProducts } from './vectorSearch';
+import { formatDosage, getProductAttributes, isFormCompatible } from '../utils/productAttributes';
+import { computeValueMetrics, getPackUnitLabels } from '../utils/valueMetrics';
+import { isProductAvailable } from '../utils/validation';
+import { AnalogMatch, ProductAttributes, ProductForm, ProductMetadata, SearchMatch, Strength } from '../types/product';
+
+/**
+ * Пошук аналогів товару за структурованими атрибутами: той самий активний інгредієнт
+ * та порівнянне дозування обов'язкові, форма та фасування - м'які переваги
+ */
+
+/**
+ * Дозування порівнянне, якщо відрізняється не більше ніж вдвічі
+ */
+const MAX_DOSAGE_RATIO = 2;
+
+/**
+ * Складові score аналога
+ */
+const ANALOG_WEIGHTS = {
+  ingredientOverlap: 0.5, // × частка спільних інгредієнтів
+  dosageExact: 0.6,
+  dosageClose: 0.3,
+  formSame: 0.3,
+  formCompatible: 0.15,
+  formDifferent: -0.2,
+  countCloseness: 0.2, // × відношення меншої кількості до більшої
+};
+
+const FORM_LABELS: Record<ProductForm, string> = {
+  capsule: 'капсули',
+  softgel: 'гелеві капсули',
+  tablet: 'таблетки',
+  chewable: 'жувальні таблетки',
+  gummy: 'жувальні цукерки',
+  powder: 'порошок',
+  liquid: 'рідина',
+  lozenge: 'льодяники',
+  spray: 'спрей',
+};
+
+/**
+ * Дозування основного інгредієнта (або перше дозування з назви)
+ */
+const getMainStrength = (attributes: ProductAttributes): Strength | null => {
+  const mainIngredient = attributes.ingredients[0]?.id;
+  return (
+    attributes.strengths.find((strength) => strength.ingredient === mainIngredient) ||
+    attributes.strengths[0] ||
+    null
+  );
+};
+
+/**
+ * Порівняння дозувань: exact / close / far, або null якщо порівняти неможливо
+ */
+const compareStrengths = (original: Strength | null, candidate: Strength | null): 'exact' | 'close' | 'far' | null => {
+  if (!original || !candidate || original.unit !== candidate.unit) {
+    return null;
+  }
+  if (original.value === candidate.value) {
+    return 'exact';
+  }
+
+  const ratio = Math.max(original.value, candidate.value) / Math.min(original.value, candidate.value);
+  return ratio <= MAX_DOSAGE_RATIO ? 'close' : 'far';
+};
+
+const formatPercent = (ratio: number): string => {
+  const percent = Math.round((ratio - 1) * 100);
+  return percent < 0 ? `−${Math.abs(percent)}%` : `+${percent}%`;
+};
+
+/**
+ * Короткий опис відмінностей аналога від оригіналу:
+ * "Вітамін D3: та сама доза, 60 vs 120 капс., −15% за капсулу"
+ */
+export const describeAnalogDiff = (original: ProductMetadata, candidate: ProductMetadata): string => {
+  const originalAttributes = getProductAttributes(original);
+  const candidateAttributes = getProductAttributes(candidate);
+  const parts: string[] = [];
+
+  const originalStrength = getMainStrength(originalAttributes);
+  const candidateStrength = getMainStrength(candidateAttributes);
+  const dosage = compareStrengths(originalStrength, candidateStrength);
+  if (dosage === 'exact') {
+    const ingredient = originalAttributes.ingredients.find((item) => item.id === originalStrength!.ingredient);
+    parts.push(ingredient ? `${ingredient.name}: та сама доза` : 'та сама доза');
+  } else if (dosage) {
+    parts.push(`${formatDosage(candidateStrength!)} замість ${formatDosage(originalStrength!)}`);
+  }
+
+  if (candidateAttributes.form && originalAttributes.form && candidateAttributes.form !== originalAttributes.form) {
+    parts.push(FORM_LABELS[candidateAttributes.form]);
+  }
+
+  const originalCount = originalAttributes.count;
+  const candidateCount = candidateAttributes.count;
+  const sameCountUnit = !!originalCount && !!candidateCount && originalCount.unit === candidateCount.unit;
+  const labels = getPackUnitLabels(candidateAttributes);
+
+  if (sameCountUnit && candidateCount!.value !== originalCount!.value) {
+    parts.push(`${candidateCount!.value} vs ${originalCount!.value} ${labels[0]}`);
+  }
+
+  const originalUnitPrice = sameCountUnit ? computeValueMetrics(original).pricePerUnit : null;
+  const candidateUnitPrice = sameCountUnit ? computeValueMetrics(candidate).pricePerUnit : null;
+  if (originalUnitPrice && candidateUnitPrice) {
+    const ratio = candidateUnitPrice / originalUnitPrice;
+    parts.push(Math.round((ratio - 1) * 100) === 0 ? `та сама ціна за ${labels[1]}` : `${formatPercent(ratio)} за ${labels[1]}`);
+  } else if (original.price && candidate.price && candidate.price !== original.price) {
+    parts.push(`${formatPercent(candidate.price / original.price)} за упаковку`);
+  }
+
+  return parts.join(', ');
+};
+
+/**
+ * Score кандидата в аналоги або null, якщо він не є аналогом
+ */
+const scoreAnalog = (original: ProductAttributes, candidate: ProductAttributes): number | null => {
+  const mainIngredient = original.ingredients[0]?.id;
+  const candidateIds = new Set(candidate.ingredients.map((item) => item.id));
+  if (!mainIngredient || !candidateIds.has(mainIngredient)) {
+    return null;
+  }
+
+  const dosage = compareStrengths(getMainStrength(original), getMainStrength(candidate));
+  if (dosage === 'far') {
+    return null;
+  }
+
+  const originalIds = original.ingredients.map((item) => item.id);
+  const shared = originalIds.filter((id) => candidateIds.has(id)).length;
+  const union = new Set([...originalIds, ...candidateIds]).size;
+
+  let score = 1 + ANALOG_WEIGHTS.ingredientOverlap * (shared / union);
+
+  if (dosage === 'exact') score += ANALOG_WEIGHTS.dosageExact;
+  if (dosage === 'close') score += ANALOG_WEIGHTS.dosageClose;
+
+  if (original.form && candidate.form) {
+    if (original.form === candidate.form) {
+      score += ANALOG_WEIGHTS.formSame;
+    } else if (isFormCompatible(original.form, candidate.forms) || isFormCompatible(candidate.form, original.forms)) {
+      score += ANALOG_WEIGHTS.formCompatible;
+    } else {
+      score += ANALOG_WEIGHTS.formDifferent;
+    }
+  }
+
+  if (original.count && candidate.count && original.count.unit === candidate.count.unit) {
+    const closeness = Math.min(original.count.value, candidate.count.value) / Math.max(original.count.value, candidate.count.value);
+    score += ANALOG_WEIGHTS.countCloseness * closeness;
+  }
+
+  return score;
+};
+
+/**
+ * Аналоги без розпізнаних інгредієнтів: векторні сусіди з тієї ж категорії
+ */
+const findVectorAnalogs = async (original: ProductMetadata, limit: number): Promise<SearchMatch[]> => {
+  const neighbours = await searchSimilarProducts(original.id, limit * 3, 'in_stock');
+  return neighbours
+    .filter((match) => !original.category_main || match.metadata.category_main === original.category_main)
+    .slice(0, limit);
+};
+
+/**
+ * Аналоги товару в наявності з описом відмінностей
+ */
+export const findAnalogs = async (original: ProductMetadata, limit: number = 5): Promise<AnalogMatch[]> => {
+  try {
+    console.log(`🔄 Пошук аналогів для товару: ${original.title}`);
+
+    const originalAttributes = getProductAttributes(original);
+    let matches: SearchMatch[];
+
+    if (originalAttributes.ingredients.length > 0) {
+      const products = await getCatalogProducts();
+      const scored = products
+        .filter((product) => product.id !== original.id && isProductAvailable(product))
+        .map((product) => ({ product, score: scoreAnalog(originalAttributes, getProductAttributes(product)) }))
+        .filter((item): item is { product: ProductMetadata; score: number } => item.score !== null)
+        .sort((a, b) => {
+          // При однаковому score - ближчі за ціною
+          const priceDistance = (product: ProductMetadata) => Math.abs((product.price || 0) - (original.price || 0));
+          return b.score - a.score || priceDistance(a.product) - priceDistance(b.product);
+        })
+        .map(({ product, score }) => ({ id: product.id, score, metadata: product }));
+      matches = filterBlocked(scored).slice(0, limit);
+    } else {
+      console.log('ℹ️ Інгредієнти не розпізнано - шукаємо векторних сусідів');
+      matches = await findVectorAnalogs(original, limit);
+    }
+
+    console.log(`✅ Знайдено ${matches.length} аналогів`);
+    return matches.map((match) => ({ ...match, diff: describeAnalogDiff(original, match.metadata) }));
+  } catch (error) {
+    console.error('❌ Помилка пошуку аналогів:', error);
+    return [];
+  }
+};
+
+/**
+ * Аналоги в наявності для відсутніх товарів (наприклад, знайдених за артикулом).
+ * Спочатку аналоги за атрибутами, далі - звичайний пошук за назвою
+ */
+export const findInStockAlternatives = async (
+  unavailableProducts: ProductMetadata[],
+  limitPerProduct: number = 3
+): Promise<SearchMatch[]> => {
+  const excludedIds = new Set(unavailableProducts.map((product) => product.id));
+  const alternatives: SearchMatch[] = [];
+
+  for (const product of unavailableProducts) {
+    let candidates: SearchMatch[] = await findAnalogs(product, limitPerProduct);
+
+    if (candidates.length === 0) {
+      try {
+        const result = await searchProducts(product.title, {
+          topK: limitPerProduct + 1,
+          availability: 'in_stock',
+        });
+        candidates = result.products;
+      } catch (error) {
+        console.warn(`⚠️ Не вдалося знайти аналоги для ${product.title}:`, error);
+      }
+    }
+
+    filterBlocked(candidates)
+      .filter((candidate) => !excludedIds.has(candidate.id))
+      .slice(0, limitPerProduct)
+      .forEach((candidate) => {
+        excludedIds.add(candidate.id);
+        alternatives.push(candidate);
+      });
+  }
+
+  console.log(`🔁 Аналоги в наявності: ${alternatives.length} для ${unavailableProducts.length} відсутніх товарів`);
+  return alternatives;
+};
@@ -0,0 +1,96 @@
+import { getCatalogProducts, onCatalogRefresh } from './catalog';
+import { ProductMetadata } from '../types/product';
+
+/**
+ * Точний індекс артикулів: нормалізований gtin / штрихкод / ID товару -> товар.
+ * Перебудовується при кожному оновленні каталогу
+ */
+
+let articleIndex = new Map<string, ProductMetadata>();
+let idIndex = new Map<string, ProductMetadata>();
+let digitsIndex = new Map<string, ProductMetadata | null>(); // null - цифрова частина неунікальна
+let prefixIndex = new Set<string>(); // буквені префікси артикулів (SOL, NOW)
+
+/**
+ * Нормалізація коду для порівняння: регістр, дефіси, пробіли, крапки
+ * "sol 01701", "SOL-01701", "sol01701" -> "SOL01701"
+ */
+export const normalizeArticleKey = (code: string): string => {
+  return code.toUpperCase().replace(/[\s\-_./]+/g, '');
+};
+
+const buildIndex = (products: ProductMetadata[]): void => {
+  const articles = new Map<string, ProductMetadata>();
+  const ids = new Map<string, ProductMetadata>();
+  const digits = new Map<string, ProductMetadata | null>();
+  const prefixes = new Set<string>();
+  let duplicates = 0;
+
+  products.forEach((product) => {
+    if (product.gtin) {
+      const key = normalizeArticleKey(product.gtin);
+      if (articles.has(key)) {
+        duplicates++;
+      } else {
+        articles.set(key, product);
+      }
+
+      // Цифрова частина артикулу ("код: 532894" для BIO-532894)
+      const [, prefix, digitPart] = key.match(/^([A-Z]+)(\d+)$/) || [];
+      if (digitPart) {
+        digits.set(digitPart, digits.has(digitPart) ? null : product);
+        prefixes.add(prefix);
+      }
+    }
+
+    // Штрихкод індексується поруч з артикулом (для товарів без артикула він же є gtin)
+    if (product.barcode) {
+      const key = normalizeArticleKey(product.barcode);
+      if (articles.has(key) && articles.get(key) !== product) {
+        duplicates++;
+      } else {
+        articles.set(key, product);
+      }
+    }
+
+    if (product.id) {
+      ids.set(normalizeArticleKey(product.id), product);
+    }
+  });
+
+  articleIndex = articles;
+  idIndex = ids;
+  digitsIndex = digits;
+  prefixIndex = prefixes;
+
+  console.log(`🔢 Індекс артикулів: ${articles.size} артикулів, ${ids.size} ID${duplicates > 0 ? `, дублікатів: ${duplicates}` : ''}`);
+};
+
+onCatalogRefresh(buildIndex);
+
+/**
+ * Точний пошук товару за артикулом (gtin), штрихкодом або ID товару
+ */
+export const lookupArticle = async (code: string): Promise<ProductMetadata | null> => {
+  // Гарантуємо, що каталог (а отже й індекс) завантажено
+  await getCatalogProducts();
+
+  const key = normalizeArticleKey(code);
+  if (!key) {
+    return null;
+  }
+
+  return articleIndex.get(key) || idIndex.get(key) || digitsIndex.get(key) || null;
+};
+
+/**
+ * Буквені префікси артикулів каталогу (для розпізнавання форми "SOL 01701")
+ */
+export const getArticlePrefixes = async (): Promise<Set<string>> => {
+  try {
+    await getCatalogProducts();
+  } catch (error) {
+    console.warn('⚠️ Каталог недоступний, префікси артикулів - з останнього індексу:', error);
+  }
+  return prefixIndex;
+};
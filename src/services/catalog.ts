@@ -0,0 +1,131 @@
+import { getVectorStore } from '../config/vectorStore';
+import { ProductMetadata } from '../types/product';
+import { reloadDietaryOverrides } from '../utils/dietaryTags';
+
+/**
+ * In-memory копія каталогу (метадані всіх товарів зі сховища).
+ * Використовується для точних індексів (артикули тощо), які не потребують embeddings
+ */
+
+const LIST_PAGE_SIZE = 100;
+
+let catalog: Map<string, ProductMetadata> | null = null;
+let loadingPromise: Promise<Map<string, ProductMetadata>> | null = null;
+let loadedAt: Date | null = null;
+let refreshTimer: NodeJS.Timeout | null = null;
+
+type CatalogListener = (products: ProductMetadata[]) => void;
+const listeners: CatalogListener[] = [];
+
+/**
+ * Підписка на оновлення каталогу (для побудови похідних індексів)
+ */
+export const onCatalogRefresh = (listener: CatalogListener): void => {
+  listeners.push(listener);
+
+  if (catalog) {
+    listener(Array.from(catalog.values()));
+  }
+};
+
+/**
+ * Повне завантаження каталогу зі сховища сторінками
+ */
+const loadFromStore = async (): Promise<Map<string, ProductMetadata>> => {
+  const store = getVectorStore();
+  const products = new Map<string, ProductMetadata>();
+  let cursor: string | undefined;
+
+  do {
+    const page = await store.list({ limit: LIST_PAGE_SIZE, cursor });
+    page.records.forEach((record) => {
+      if (record.metadata) {
+        products.set(record.id, { ...record.metadata, id: record.metadata.id || record.id });
+      }
+    });
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return products;
+};
+
+/**
+ * Оновлення каталогу (паралельні виклики чекають на одне завантаження)
+ */
+export const refreshCatalog = async (): Promise<ProductMetadata[]> => {
+  if (!loadingPromise) {
+    loadingPromise = (async () => {
+      const startedAt = Date.now();
+      const products = await loadFromStore();
+
+      catalog = products;
+      loadedAt = new Date();
+      // Ручні виправлення дієтичних міток підхоплюються разом з оновленням каталогу
+      reloadDietaryOverrides();
+      console.log(`📚 Каталог завантажено: ${products.size} товарів за ${Date.now() - startedAt} мс`);
+
+      const list = Array.from(products.values());
+      listeners.forEach((listener) => listener(list));
+
+      return products;
+    })().finally(() => {
+      loadingPromise = null;
+    });
+  }
+
+  const products = await loadingPromise;
+  return Array.from(products.values());
+};
+
+/**
+ * Отримання всіх товарів каталогу (завантажує при першому зверненні)
+ */
+export const getCatalogProducts = async (): Promise<ProductMetadata[]> => {
+  if (catalog) {
+    return Array.from(catalog.values());
+  }
+  return refreshCatalog();
+};
+
+/**
+ * Отримання товару з каталогу за ID
+ */
+export const getCatalogProduct = async (productId: string): Promise<ProductMetadata | null> => {
+  if (!catalog) {
+    await refreshCatalog();
+  }
+  return catalog?.get(productId) || null;
+};
+
+/**
+ * Унікальні бренди каталогу (довші назви першими, щоб "Now Foods" перевірявся раніше за "Now")
+ */
+export const getCatalogBrands = async (): Promise<string[]> => {
+  const products = await getCatalogProducts();
+  const brands = new Set(products.map((product) => product.brand).filter(Boolean));
+  return Array.from(brands).sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Періодичне оновлення каталогу
+ */
+export const startCatalogRefresh = (intervalMinutes: number): void => {
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+  }
+
+  refreshTimer = setInterval(() => {
+    refreshCatalog().catch((error) => {
+      console.error('❌ Помилка оновлення каталогу:', error);
+    });
+  }, intervalMinutes * 60 * 1000);
+};
+
+/**
+ * Стан каталогу (для діагностики)
+ */
+export const getCatalogStatus = () => ({
+  loaded: catalog !== null,
+  productCount: catalog?.size || 0,
+  loadedAt,
+});
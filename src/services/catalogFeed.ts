@@ -0,0 +1,256 @@
+import { XMLParser } from 'fast-xml-parser';
+import { ProductMetadata } from '../types/product';
+
+/**
+ * Парсинг XML/YML фіду каталогу vitahub у ProductMetadata
+ *
+ * Підтримуються два формати:
+ * - Google Merchant RSS (<rss><channel><item> з полями g:*)
+ * - YML (<yml_catalog><shop><categories> + <offers><offer>)
+ */
+
+const CATEGORY_SEPARATOR = ' > ';
+const SEARCH_TEXT_DESCRIPTION_LIMIT = 1000;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true, // g:id -> id
+  parseTagValue: false, // gtin з провідними нулями має залишатися рядком
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: (name) => ['item', 'offer', 'category', 'picture', 'product_type'].includes(name),
+});
+
+/**
+ * Витягування текстового значення вузла (рядок або { '#text': ... })
+ */
+const nodeText = (node: any): string => {
+  if (node === undefined || node === null) {
+    return '';
+  }
+  if (Array.isArray(node)) {
+    return nodeText(node[0]);
+  }
+  if (typeof node === 'object') {
+    return nodeText(node['#text']);
+  }
+  return String(node).trim();
+};
+
+/**
+ * Видалення HTML тегів з опису
+ */
+const stripHtml = (html: string): string => {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Нормалізація доступності: "in stock" / "true" -> "in_stock"
+ */
+const normalizeAvailability = (value: string): string => {
+  const lower = value.toLowerCase().trim();
+
+  if (['in stock', 'in_stock', 'true', '1', 'available'].includes(lower)) {
+    return 'in_stock';
+  }
+  if (['preorder', 'backorder'].includes(lower)) {
+    return lower;
+  }
+
+  return 'out_of_stock';
+};
+
+/**
+ * Число з роздільниками розрядів: "1,234.00", "1.234,00", "1234,5" -> "1234.00", "1234.00", "1234.5".
+ * Останній роздільник - десятковий, крім єдиного виду роздільника перед трьома цифрами ("1,234", "1.234.567")
+ */
+const normalizeDecimal = (number: string): string => {
+  const lastSeparator = Math.max(number.lastIndexOf(','), number.lastIndexOf('.'));
+  if (lastSeparator === -1) {
+    return number;
+  }
+
+  const integerPart = number.slice(0, lastSeparator).replace(/[.,]/g, '');
+  const fraction = number.slice(lastSeparator + 1);
+  const separators = new Set(number.match(/[.,]/g));
+  const isThousands = fraction.length === 3 && separators.size === 1;
+
+  return isThousands ? `${integerPart}${fraction}` : `${integerPart}.${fraction}`;
+};
+
+/**
+ * Парсинг ціни з рядка "485.00 UAH", "485", "1 234,00 UAH" або "1,234.00"
+ */
+const parsePrice = (value: string, fallbackCurrency: string): { price: number; currency: string } => {
+  const match = value.replace(/[\s\u00a0\u202f]+/g, '').match(/(\d[\d.,]*)([A-Z]{3})?/);
+  const price = match ? parseFloat(normalizeDecimal(match[1])) : 0;
+  const currency = match?.[2] || fallbackCurrency;
+
+  return { price: Number.isFinite(price) ? price : 0, currency };
+};
+
+/**
+ * Формування ProductMetadata з уже витягнутих полів
+ */
+const buildMetadata = (fields: {
+  id: string;
+  title: string;
+  brand: string;
+  description: string;
+  gtin: string;
+  barcode: string;
+  link: string;
+  imageLink: string;
+  availability: string;
+  price: number;
+  currency: string;
+  categoryPath: string[];
+}): ProductMetadata => {
+  const categories = fields.categoryPath.filter(Boolean);
+  const categoryPath = categories.join(CATEGORY_SEPARATOR);
+  const description = stripHtml(fields.description);
+
+  const searchText = [
+    fields.title,
+    fields.brand,
+    categoryPath,
+    description.substring(0, SEARCH_TEXT_DESCRIPTION_LIMIT),
+  ]
+    .filter(Boolean)
+    .join('. ');
+
+  return {
+    id: fields.id,
+    availability: fields.availability,
+    brand: fields.brand,
+    categories,
+    category_main: categories[0] || '',
+    category_path: categoryPath,
+    description,
+    gtin: fields.gtin,
+    ...(fields.barcode ? { barcode: fields.barcode } : {}),
+    image_link: fields.imageLink,
+    link: fields.link,
+    price: fields.price,
+    price_currency: fields.currency,
+    price_formatted: `${Math.round(fields.price)} ${fields.currency}`,
+    search_text: searchText,
+    title: fields.title,
+  };
+};
+
+/**
+ * Парсинг Google Merchant RSS фіду
+ */
+const parseMerchantFeed = (channel: any): ProductMetadata[] => {
+  const items: any[] = channel.item || [];
+
+  return items.map((item) => {
+    const { price, currency } = parsePrice(nodeText(item.sale_price) || nodeText(item.price), 'UAH');
+    const productType = nodeText(item.product_type);
+
+    return buildMetadata({
+      id: nodeText(item.id),
+      title: nodeText(item.title),
+      brand: nodeText(item.brand),
+      description: nodeText(item.description),
+      // Артикул - mpn (штрихкод, якщо mpn немає), штрихкод EAN/UPC - g:gtin
+      gtin: nodeText(item.mpn) || nodeText(item.gtin),
+      barcode: nodeText(item.gtin),
+      link: nodeText(item.link),
+      imageLink: nodeText(item.image_link),
+      availability: normalizeAvailability(nodeText(item.availability)),
+      price,
+      currency,
+      categoryPath: productType.split('>').map((part) => part.trim()),
+    });
+  });
+};
+
+/**
+ * Парсинг YML фіду (категорії задаються деревом через parentId)
+ */
+const parseYmlFeed = (shop: any): ProductMetadata[] => {
+  const categoryNodes: any[] = shop.categories?.category || [];
+  const categoryById = new Map<string, { name: string; parentId: string }>();
+
+  categoryNodes.forEach((node) => {
+    categoryById.set(String(node['@_id']), {
+      name: nodeText(node),
+      parentId: node['@_parentId'] ? String(node['@_parentId']) : '',
+    });
+  });
+
+  const resolveCategoryPath = (categoryId: string): string[] => {
+    const path: string[] = [];
+    const visited = new Set<string>();
+    let current = categoryById.get(categoryId);
+    let currentId = categoryId;
+
+    while (current && !visited.has(currentId)) {
+      visited.add(currentId);
+      path.unshift(current.name);
+      currentId = current.parentId;
+      current = currentId ? categoryById.get(currentId) : undefined;
+    }
+
+    return path;
+  };
+
+  const offers: any[] = shop.offers?.offer || [];
+  const currencyNode = shop.currencies?.currency;
+  const firstCurrency = Array.isArray(currencyNode) ? currencyNode[0] : currencyNode;
+  const defaultCurrency = nodeText(firstCurrency?.['@_id']) || 'UAH';
+
+  return offers.map((offer) => {
+    const { price, currency } = parsePrice(nodeText(offer.price), nodeText(offer.currencyId) || defaultCurrency);
+
+    return buildMetadata({
+      id: String(offer['@_id']),
+      title: nodeText(offer.name) || nodeText(offer.model),
+      brand: nodeText(offer.vendor),
+      description: nodeText(offer.description),
+      gtin: nodeText(offer.vendorCode) || nodeText(offer.barcode),
+      barcode: nodeText(offer.barcode),
+      link: nodeText(offer.url),
+      imageLink: nodeText(offer.picture),
+      availability: normalizeAvailability(String(offer['@_available'] ?? '')),
+      price,
+      currency,
+      categoryPath: resolveCategoryPath(nodeText(offer.categoryId)),
+    });
+  });
+};
+
+/**
+ * Парсинг фіду каталогу (формат визначається автоматично)
+ */
+export const parseCatalogFeed = (xml: string): ProductMetadata[] => {
+  const document = xmlParser.parse(xml);
+
+  let products: ProductMetadata[];
+
+  if (document.rss?.channel) {
+    products = parseMerchantFeed(document.rss.channel);
+  } else if (document.yml_catalog?.shop) {
+    products = parseYmlFeed(document.yml_catalog.shop);
+  } else {
+    throw new Error('Невідомий формат фіду: очікується <rss> або <yml_catalog>');
+  }
+
+  // Пропускаємо записи без ID або назви - їх неможливо знайти чи показати
+  const valid = products.filter((product) => product.id && product.title);
+  const skipped = products.length - valid.length;
+
+  if (skipped > 0) {
+    console.warn(`⚠️ Пропущено ${skipped} товарів без id або title`);
+  }
+
+  return valid;
+};
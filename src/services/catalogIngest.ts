@@ -0,0 +1,197 @@
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import { getVectorStore, getVectorStoreBackend } from '../config/vectorStore';
+import { createEmbeddings } from '../config/llm';
+import { parseCatalogFeed } from './catalogFeed';
+import { withProductAttributes } from '../utils/productAttributes';
+import { ProductMetadata } from '../types/product';
+
+/**
+ * Параметри інжесту каталогу
+ */
+export interface IngestOptions {
+  feed: string; // шлях до файлу або URL фіду
+  dryRun: boolean; // тільки парсинг, без embeddings та upsert
+  resume: boolean; // продовжити з останнього чекпоінту
+  batchSize: number;
+  limit?: number; // обмеження кількості товарів (для перевірки)
+  checkpointPath: string;
+}
+
+/**
+ * Підсумок інжесту
+ */
+export interface IngestReport {
+  totalProducts: number;
+  upserted: number;
+  skippedByResume: number;
+  batches: number;
+  dryRun: boolean;
+}
+
+/**
+ * Стан інжесту, що зберігається між запусками
+ */
+interface IngestCheckpoint {
+  feedHash: string;
+  indexName: string;
+  limit: number | null; // --limit запуску, для якого розраховано nextOffset
+  nextOffset: number;
+  totalProducts: number;
+  updatedAt: string;
+}
+
+const MAX_BATCH_ATTEMPTS = 3;
+
+/**
+ * Завантаження фіду з URL або локального файлу
+ */
+const loadFeed = async (source: string): Promise<string> => {
+  if (/^https?:\/\//i.test(source)) {
+    console.log(`🌐 Завантаження фіду: ${source}`);
+    const response = await fetch(source);
+
+    if (!response.ok) {
+      throw new Error(`Не вдалося завантажити фід (${response.status} ${response.statusText})`);
+    }
+
+    return response.text();
+  }
+
+  console.log(`📄 Читання фіду з файлу: ${source}`);
+  return fs.readFile(source, 'utf-8');
+};
+
+const readCheckpoint = async (checkpointPath: string): Promise<IngestCheckpoint | null> => {
+  try {
+    const raw = await fs.readFile(checkpointPath, 'utf-8');
+    return JSON.parse(raw) as IngestCheckpoint;
+  } catch {
+    return null;
+  }
+};
+
+const writeCheckpoint = async (checkpointPath: string, checkpoint: IngestCheckpoint): Promise<void> => {
+  await fs.writeFile(checkpointPath, JSON.stringify(checkpoint, null, 2), 'utf-8');
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Embedding + upsert одного пакету у векторне сховище з повторними спробами
+ */
+const upsertBatch = async (products: ProductMetadata[]): Promise<void> => {
+  const store = getVectorStore();
+
+  for (let attempt = 1; attempt <= MAX_BATCH_ATTEMPTS; attempt++) {
+    try {
+      const embeddings = await createEmbeddings(products.map((product) => product.search_text));
+
+      await store.upsert(
+        products.map((product, i) => ({
+          id: product.id,
+          values: embeddings[i],
+          metadata: product,
+        }))
+      );
+      return;
+    } catch (error) {
+      if (attempt === MAX_BATCH_ATTEMPTS) {
+        throw error;
+      }
+      const delay = 1000 * 2 ** (attempt - 1);
+      console.warn(`⚠️ Пакет не завантажено (спроба ${attempt}/${MAX_BATCH_ATTEMPTS}), повтор через ${delay} мс`);
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Інжест каталогу: парсинг фіду, embeddings та пакетний upsert у векторне сховище
+ */
+export const ingestCatalog = async (options: IngestOptions): Promise<IngestReport> => {
+  const indexName = getVectorStoreBackend() === 'local'
+    ? process.env.LOCAL_VECTOR_SNAPSHOT || './data/vectors.ndjson'
+    : process.env.PINECONE_INDEX_NAME || 'vitamins-catalog-v2';
+  const xml = await loadFeed(options.feed);
+  const feedHash = crypto.createHash('sha256').update(xml).digest('hex');
+
+  let products = parseCatalogFeed(xml);
+  if (options.limit !== undefined) {
+    products = products.slice(0, options.limit);
+  }
+
+  // Атрибути (інгредієнти, дозування, форма, кількість) зберігаємо разом з метаданими
+  products = products.map(withProductAttributes);
+
+  console.log(`📦 Розпарсено ${products.length} товарів з фіду`);
+
+  if (options.dryRun) {
+    products.slice(0, 3).forEach((product) => {
+      console.log(`   ${product.gtin || 'NO GTIN'} | ${product.title} | ${product.brand} | ${product.price_formatted} | ${product.category_path}`);
+      console.log(`     атрибути: ${(product.attr_strengths || []).join(', ') || '-'} | ${(product.attr_forms || []).join(', ') || '-'} | ${product.attr_count || '-'} ${product.attr_count_unit || ''}`);
+    });
+
+    return {
+      totalProducts: products.length,
+      upserted: 0,
+      skippedByResume: 0,
+      batches: Math.ceil(products.length / options.batchSize),
+      dryRun: true,
+    };
+  }
+
+  let startOffset = 0;
+  const limit = options.limit ?? null;
+
+  if (options.resume) {
+    const checkpoint = await readCheckpoint(options.checkpointPath);
+
+    if (!checkpoint) {
+      console.log('ℹ️ Чекпоінт не знайдено, починаємо з початку');
+    } else if (checkpoint.feedHash !== feedHash || checkpoint.indexName !== indexName) {
+      throw new Error('Чекпоінт належить іншому фіду або індексу - запустіть інжест без --resume');
+    } else if ((checkpoint.limit ?? null) !== limit) {
+      throw new Error(
+        `Чекпоінт створено з іншим --limit (${checkpoint.limit ?? 'без обмеження'}) - запустіть інжест без --resume`
+      );
+    } else {
+      startOffset = checkpoint.nextOffset;
+      console.log(`⏩ Продовжуємо з товару ${startOffset} з ${products.length}`);
+    }
+  }
+
+  let upserted = 0;
+  let batches = 0;
+
+  for (let offset = startOffset; offset < products.length; offset += options.batchSize) {
+    const batch = products.slice(offset, offset + options.batchSize);
+
+    await upsertBatch(batch);
+
+    upserted += batch.length;
+    batches++;
+
+    await writeCheckpoint(options.checkpointPath, {
+      feedHash,
+      indexName,
+      limit,
+      nextOffset: offset + batch.length,
+      totalProducts: products.length,
+      updatedAt: new Date().toISOString(),
+    });
+
+    console.log(`✅ Пакет ${batches}: ${offset + batch.length}/${products.length} товарів у ${indexName}`);
+  }
+
+  // Інжест завершено - чекпоінт більше не потрібен
+  await fs.rm(options.checkpointPath, { force: true });
+
+  return {
+    totalProducts: products.length,
+    upserted,
+    skippedByResume: startOffset,
+    batches,
+    dryRun: false,
+  };
+};
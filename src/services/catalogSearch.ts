@@ -0,0 +1,209 @@
+import { createHash } from 'crypto';
+import { searchProducts, applyAvailabilityPolicy } from './vectorSearch';
+import { applyMerchandising } from './merchandising';
+import { getCatalogBrands, getCatalogProducts } from './catalog';
+import { resolveCategoryFilter } from './categoryIndex';
+import { groupVariants } from './variantIndex';
+import { matchesSearchFilters } from '../utils/searchFilters';
+import { matchCatalogBrands } from '../utils/brandRegistry';
+import { withValueMetrics } from '../utils/valueMetrics';
+import { SearchFilters, SearchMatch, SortOrder } from '../types/product';
+
+/**
+ * Пошук по каталогу для сторінки пошуку та мобільного додатку (без персони чат-бота):
+ * ранжовані результати, курсорна пагінація та фасети
+ */
+
+/**
+ * Максимальна кількість результатів, з якої формуються сторінки та фасети
+ */
+const MAX_SEARCH_RESULTS = 100;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+/**
+ * Цінові діапазони для фасету ціни (грн, max не включно)
+ */
+const PRICE_BUCKETS: { min: number; max?: number }[] = [
+  { min: 0, max: 200 },
+  { min: 200, max: 500 },
+  { min: 500, max: 1000 },
+  { min: 1000 },
+];
+
+export interface CatalogSearchParams {
+  query: string;
+  filters: SearchFilters;
+  categorySlug?: string; // обмеження категорією з дерева категорій (разом з підкатегоріями)
+  sort?: SortOrder; // за замовчуванням - релевантність
+  cursor?: string;
+  pageSize?: number;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface PriceBucketFacet {
+  min: number;
+  max?: number;
+  count: number;
+}
+
+export interface CatalogSearchFacets {
+  brands: FacetValue[];
+  categories: FacetValue[];
+  priceBuckets: PriceBucketFacet[];
+}
+
+export interface CatalogSearchResult {
+  results: SearchMatch[];
+  total: number;
+  facets: CatalogSearchFacets;
+  nextCursor: string | null;
+}
+
+interface CursorPayload {
+  offset: number;
+  key: string; // відбиток запиту: курсор не можна використати з іншими параметрами
+}
+
+/**
+ * Відбиток запиту та фільтрів для курсора
+ */
+const getQueryKey = (params: CatalogSearchParams): string => {
+  return createHash('sha1')
+    .update(
+      JSON.stringify({
+        query: params.query.trim().toLowerCase(),
+        filters: params.filters,
+        category: params.categorySlug,
+        sort: params.sort || 'relevance',
+      })
+    )
+    .digest('hex')
+    .slice(0, 12);
+};
+
+const encodeCursor = (payload: CursorPayload): string => {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/**
+ * Розбір курсора (null - невалідний курсор або курсор іншого запиту)
+ */
+const decodeCursor = (cursor: string, key: string): CursorPayload | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof payload?.offset !== 'number' || payload.offset < 0 || payload.key !== key) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Перевірка курсора сторінки для параметрів запиту (для валідації в роуті)
+ */
+export const isValidCatalogCursor = (params: CatalogSearchParams): boolean => {
+  return !params.cursor || decodeCursor(params.cursor, getQueryKey(params)) !== null;
+};
+
+/**
+ * Підрахунок значень фасету (від найчастіших)
+ */
+const countFacet = (values: string[]): FacetValue[] => {
+  const counts = new Map<string, number>();
+  values.filter(Boolean).forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * Фасети за повним набором результатів (до пагінації)
+ */
+const buildFacets = (matches: SearchMatch[]): CatalogSearchFacets => ({
+  brands: countFacet(matches.map((match) => match.metadata.brand)),
+  categories: countFacet(matches.map((match) => match.metadata.category_main)),
+  priceBuckets: PRICE_BUCKETS.map((bucket) => ({
+    ...bucket,
+    count: matches.filter((match) => {
+      const price = match.metadata.price || 0;
+      return price >= bucket.min && (bucket.max === undefined || price < bucket.max);
+    }).length,
+  })),
+});
+
+/**
+ * Ранжований набір результатів: семантичний пошук за запитом або перелік каталогу без запиту
+ */
+const getRankedMatches = async (params: CatalogSearchParams): Promise<SearchMatch[]> => {
+  const { query } = params;
+  // Бренди з параметрів можуть бути вказані будь-яким варіантом назви ("солгар", "nowfoods");
+  // категорія з дерева входить у фільтр пошуку, щоб ранжування йшло серед товарів категорії
+  const filters: SearchFilters = {
+    ...params.filters,
+    ...(params.filters.brands ? { brands: matchCatalogBrands(params.filters.brands, await getCatalogBrands()) } : {}),
+    ...(params.categorySlug ? { category: params.categorySlug } : {}),
+  };
+
+  if (query.trim()) {
+    // Локальний скорер: сторінки курсора перераховують пошук, LLM коштувала б виклик на кожну сторінку
+    // і могла б змінити порядок між сторінками (пропуски та повтори товарів)
+    // Правила мерчандайзингу та сортування застосовує searchProducts на весь набір
+    const result = await searchProducts(query, {
+      topK: MAX_SEARCH_RESULTS,
+      filter: filters,
+      reranker: 'local',
+      category: params.categorySlug,
+      sort: params.sort,
+    });
+    return result.products;
+  }
+
+  const effectiveFilters = applyAvailabilityPolicy(await resolveCategoryFilter(filters));
+  const products = (await getCatalogProducts()).filter((product) => matchesSearchFilters(product, effectiveFilters));
+
+  // Перелік каталогу теж показує один товар на групу варіантів (пошук за запитом групує сам)
+  const grouped = await groupVariants(
+    products.map((product): SearchMatch => ({ id: product.id, score: 0, metadata: product }))
+  );
+
+  return applyMerchandising(grouped, { category: params.categorySlug, limit: MAX_SEARCH_RESULTS, sort: params.sort });
+};
+
+/**
+ * Пошук по каталогу зі сторінками та фасетами
+ */
+export const searchCatalog = async (params: CatalogSearchParams): Promise<CatalogSearchResult> => {
+  const pageSize = Math.min(Math.max(params.pageSize || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const key = getQueryKey(params);
+
+  let offset = 0;
+  if (params.cursor) {
+    const payload = decodeCursor(params.cursor, key);
+    if (!payload) {
+      throw new Error('Невалідний курсор сторінки');
+    }
+    offset = payload.offset;
+  }
+
+  console.log(`🔎 Пошук по каталогу: "${params.query}" (offset ${offset}, сторінка ${pageSize})`);
+
+  const matches = await getRankedMatches(params);
+  const results = withValueMetrics(matches.slice(offset, offset + pageSize));
+  const nextOffset = offset + results.length;
+
+  return {
+    results,
+    total: matches.length,
+    facets: buildFacets(matches),
+    nextCursor: nextOffset < matches.length ? encodeCursor({ offset: nextOffset, key }) : null,
+  };
+};
@@ -0,0 +1,181 @@
+import { getCatalogProducts, onCatalogRefresh } from './catalog';
+import { slugify } from '../utils/slug';
+import { isProductAvailable } from '../utils/validation';
+import { ProductMetadata, SearchFilters } from '../types/product';
+
+/**
+ * Дерево категорій каталогу, побудоване з category_path ("Вітаміни > Вітамін D").
+ * Товар належить своїй категорії та всім її батьківським категоріям
+ */
+
+const PATH_SEPARATOR = /\s*[>»|]\s*/;
+
+/**
+ * Вузол дерева категорій
+ */
+export interface CategoryNode {
+  name: string;
+  slug: string;
+  path: string[]; // назви від кореня до вузла
+  productCount: number; // з урахуванням підкатегорій
+  inStockCount: number;
+  children: CategoryNode[];
+}
+
+interface MutableCategory {
+  node: CategoryNode;
+  productIds: Set<string>;
+}
+
+let roots: CategoryNode[] = [];
+let categoriesBySlug = new Map<string, MutableCategory>();
+let categoriesByName = new Map<string, MutableCategory>(); // нижній регістр назви -> перша категорія з такою назвою
+let slugsByProduct = new Map<string, string[]>(); // ID товару -> slug категорій від кореня до листа
+
+/**
+ * Шлях категорій товару (category_path, а якщо його немає - category_main)
+ */
+const getProductPath = (product: ProductMetadata): string[] => {
+  const path = (product.category_path || '').split(PATH_SEPARATOR).map((part) => part.trim()).filter(Boolean);
+  if (path.length > 0) {
+    return path;
+  }
+  return product.category_main ? [product.category_main] : [];
+};
+
+const buildIndex = (products: ProductMetadata[]): void => {
+  const byKey = new Map<string, MutableCategory>(); // повний шлях -> категорія
+  const bySlug = new Map<string, MutableCategory>();
+  const byName = new Map<string, MutableCategory>();
+  const rootNodes: CategoryNode[] = [];
+  const productSlugs = new Map<string, string[]>();
+
+  // Унікальний slug: назва, при конфлікті - з префіксом батьківського slug, далі - з номером
+  const uniqueSlug = (name: string, parent: MutableCategory | undefined): string => {
+    const base = slugify(name) || 'category';
+    const candidates = [base, parent ? `${parent.node.slug}-${base}` : base];
+    const free = candidates.find((candidate) => !bySlug.has(candidate));
+    if (free) {
+      return free;
+    }
+
+    let counter = 2;
+    while (bySlug.has(`${candidates[1]}-${counter}`)) counter++;
+    return `${candidates[1]}-${counter}`;
+  };
+
+  const availableIds = new Set<string>();
+
+  products.forEach((product) => {
+    if (isProductAvailable(product)) {
+      availableIds.add(product.id);
+    }
+
+    let parent: MutableCategory | undefined;
+    const path = getProductPath(product);
+
+    path.forEach((name, depth) => {
+      const key = path.slice(0, depth + 1).join('\u0000');
+      let category = byKey.get(key);
+
+      if (!category) {
+        const node: CategoryNode = {
+          name,
+          slug: uniqueSlug(name, parent),
+          path: path.slice(0, depth + 1),
+          productCount: 0,
+          inStockCount: 0,
+          children: [],
+        };
+        category = { node, productIds: new Set() };
+
+        byKey.set(key, category);
+        bySlug.set(node.slug, category);
+        if (!byName.has(name.toLowerCase())) {
+          byName.set(name.toLowerCase(), category);
+        }
+        (parent ? parent.node.children : rootNodes).push(node);
+      }
+
+      category.productIds.add(product.id);
+      parent = category;
+    });
+
+    productSlugs.set(product.id, path.map((_name, depth) => byKey.get(path.slice(0, depth + 1).join('\u0000'))!.node.slug));
+  });
+
+  bySlug.forEach((category) => {
+    category.node.productCount = category.productIds.size;
+    category.node.inStockCount = Array.from(category.productIds).filter((id) => availableIds.has(id)).length;
+  });
+
+  const sortNodes = (nodes: CategoryNode[]) => {
+    nodes.sort((a, b) => b.productCount - a.productCount || a.name.localeCompare(b.name));
+    nodes.forEach((node) => sortNodes(node.children));
+  };
+  sortNodes(rootNodes);
+
+  roots = rootNodes;
+  categoriesBySlug = bySlug;
+  categoriesByName = byName;
+  slugsByProduct = productSlugs;
+
+  console.log(`🗂️ Дерево категорій: ${bySlug.size} категорій, ${rootNodes.length} кореневих`);
+};
+
+onCatalogRefresh(buildIndex);
+
+/**
+ * Дерево категорій каталогу
+ */
+export const getCategoryTree = async (): Promise<CategoryNode[]> => {
+  await getCatalogProducts();
+  return roots;
+};
+
+/**
+ * Пошук категорії за slug або назвою
+ */
+export const findCategory = async (slugOrName: string): Promise<CategoryNode | null> => {
+  await getCatalogProducts();
+
+  const category = categoriesBySlug.get(slugOrName) || categoriesByName.get(slugOrName.trim().toLowerCase());
+  return category ? category.node : null;
+};
+
+/**
+ * Розв'язання фільтра категорії (slug або назва) у шлях категорії з дерева
+ */
+export const resolveCategoryFilter = async (filters: SearchFilters | undefined): Promise<SearchFilters | undefined> => {
+  if (!filters) {
+    return filters;
+  }
+
+  // categoryPath тільки похідний від category
+  if (!filters.category) {
+    return { ...filters, categoryPath: undefined };
+  }
+
+  try {
+    const category = await findCategory(filters.category);
+    return { ...filters, categoryPath: category ? category.path : undefined };
+  } catch (error) {
+    console.warn('⚠️ Дерево категорій недоступне, категорію фільтруємо за назвою:', error);
+    return { ...filters, categoryPath: undefined };
+  }
+};
+
+/**
+ * ID товарів категорії (разом з підкатегоріями)
+ */
+export const getCategoryProductIds = async (slug: string): Promise<Set<string>> => {
+  await getCatalogProducts();
+  return categoriesBySlug.get(slug)?.productIds || new Set();
+};
+
+/**
+ * Slug категорій товару від кореня до листа (з уже побудованого індексу)
+ */
+export const getProductCategorySlugs = (productId: string): string[] => {
+  return slugsByProduct.get(productId) || [];
+};
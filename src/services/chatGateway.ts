@@ -0,0 +1,302 @@
+import { IncomingMessage, Server } from 'http';
+import WebSocket, { RawData, WebSocketServer } from 'ws';
+import { createSession, processChatMessage, recordOperatorMessage, toStructuredProduct } from './chatbot';
+import { getProductById } from './vectorSearch';
+import { isValidSessionId, validateChatRequest } from '../utils/validation';
+import { ChatRequest } from '../types/product';
+import {
+  GatewayClientMessage,
+  GatewayControlMessage,
+  GatewayServerMessage,
+  GatewaySessionEvent,
+} from '../types/chatGateway';
+
+/**
+ * WebSocket-шлюз чату: повідомлення користувача обробляються через processChatMessage, а сервер може сам
+ * надсилати події сесії (відповідь оператора, набір тексту, товар знову в наявності).
+ * Кожна подія розсилається всім з'єднанням сесії; останні події зберігаються для replay після перепідключення
+ */
+
+export const GATEWAY_CONFIG = {
+  path: process.env.WS_PATH || '/ws',
+  heartbeatMs: parseInt(process.env.WS_HEARTBEAT_MS || '30000'),
+  replayBufferSize: parseInt(process.env.WS_REPLAY_BUFFER || '50'),
+  replayTtlMs: parseFloat(process.env.WS_REPLAY_TTL_MINUTES || '30') * 60 * 1000, // скільки тримати буфер сесії без з'єднань
+};
+
+/**
+ * Тимчасові події не потрапляють у буфер: token дублюється підсумковою done, typing швидко застаріває
+ */
+const TRANSIENT_EVENTS = new Set<GatewaySessionEvent['event']>(['token', 'typing']);
+
+interface SessionChannel {
+  sockets: Set<WebSocket>;
+  buffer: GatewayServerMessage[];
+  seq: number;
+  lastActivityAt: number;
+}
+
+interface SocketState {
+  sessionId: string | null;
+  alive: boolean; // відповів на останній ping
+}
+
+const channels = new Map<string, SessionChannel>();
+const socketStates = new WeakMap<WebSocket, SocketState>();
+let gateway: WebSocketServer | null = null;
+
+const getChannel = (sessionId: string): SessionChannel => {
+  let channel = channels.get(sessionId);
+  if (!channel) {
+    channel = { sockets: new Set(), buffer: [], seq: 0, lastActivityAt: Date.now() };
+    channels.set(sessionId, channel);
+  }
+  return channel;
+};
+
+const send = (socket: WebSocket, message: GatewayServerMessage | GatewayControlMessage): void => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+/**
+ * Розсилка події всім з'єднанням сесії. Повертає кількість з'єднань, які її отримали
+ */
+export const publishToSession = (sessionId: string, event: GatewaySessionEvent, requestId?: string): number => {
+  const channel = getChannel(sessionId);
+  const message = {
+    ...event,
+    sessionId,
+    ...(requestId ? { requestId } : {}),
+    timestamp: new Date().toISOString(),
+  } as GatewayServerMessage;
+
+  if (!TRANSIENT_EVENTS.has(event.event)) {
+    channel.seq += 1;
+    message.seq = channel.seq;
+    channel.buffer.push(message);
+    if (channel.buffer.length > GATEWAY_CONFIG.replayBufferSize) {
+      channel.buffer.splice(0, channel.buffer.length - GATEWAY_CONFIG.replayBufferSize);
+    }
+  }
+
+  channel.lastActivityAt = Date.now();
+  channel.sockets.forEach((socket) => send(socket, message));
+  return channel.sockets.size;
+};
+
+/**
+ * Підписка з'єднання на сесію; з lastSeq - повтор подій, пропущених під час розриву
+ */
+const subscribe = (socket: WebSocket, state: SocketState, sessionId: string, lastSeq?: number): void => {
+  if (state.sessionId && state.sessionId !== sessionId) {
+    channels.get(state.sessionId)?.sockets.delete(socket);
+  }
+
+  const channel = getChannel(sessionId);
+  channel.sockets.add(socket);
+  channel.lastActivityAt = Date.now();
+  state.sessionId = sessionId;
+
+  const missed = lastSeq !== undefined ? channel.buffer.filter((message) => message.seq! > lastSeq) : [];
+  // Неповний replay: частину подій вже витіснено з буфера або лічильник скинуто перезапуском сервера
+  const oldestSeq = channel.buffer.length > 0 ? channel.buffer[0].seq! : channel.seq + 1;
+  const complete = lastSeq === undefined || (lastSeq <= channel.seq && oldestSeq <= lastSeq + 1);
+
+  send(socket, {
+    event: 'subscribed',
+    data: { sessionId, lastSeq: channel.seq, replayed: missed.length, complete },
+  });
+  missed.forEach((message) => send(socket, message));
+};
+
+/**
+ * Повідомлення користувача: розсилається іншим з'єднанням сесії, відповідь бота - потоком подій
+ */
+const handleChat = async (
+  socket: WebSocket,
+  state: SocketState,
+  message: Extract<GatewayClientMessage, { type: 'chat' }>
+): Promise<void> => {
+  const { requestId } = message;
+  const chatRequest: ChatRequest = {
+    message: message.message,
+    sessionId: message.sessionId || state.sessionId || undefined,
+    productId: message.productId,
+    filters: message.filters,
+  };
+
+  const validationError =
+    validateChatRequest(chatRequest) ||
+    (chatRequest.sessionId && !isValidSessionId(chatRequest.sessionId) ? 'Невалідний sessionId' : null);
+  if (validationError) {
+    send(socket, { event: 'error', data: { error: validationError }, requestId });
+    return;
+  }
+
+  const sessionId = chatRequest.sessionId || (await createSession());
+  if (state.sessionId !== sessionId) {
+    subscribe(socket, state, sessionId);
+  }
+
+  publishToSession(sessionId, { event: 'user_message', data: { text: chatRequest.message } }, requestId);
+  publishToSession(sessionId, { event: 'typing', data: { isTyping: true, from: 'bot' } }, requestId);
+
+  try {
+    const response = await processChatMessage({ ...chatRequest, sessionId }, (event) =>
+      publishToSession(sessionId, event, requestId)
+    );
+    publishToSession(sessionId, { event: 'done', data: response }, requestId);
+  } catch (error: any) {
+    console.error('❌ Помилка обробки повідомлення через WebSocket:', error);
+    publishToSession(sessionId, { event: 'error', data: { error: error.message || 'Внутрішня помилка сервера' } }, requestId);
+  } finally {
+    publishToSession(sessionId, { event: 'typing', data: { isTyping: false, from: 'bot' } }, requestId);
+  }
+};
+
+const parseClientMessage = (raw: RawData): GatewayClientMessage | null => {
+  try {
+    const message = JSON.parse(raw.toString());
+    return message && (message.type === 'subscribe' || message.type === 'chat') ? message : null;
+  } catch {
+    return null;
+  }
+};
+
+const handleMessage = async (socket: WebSocket, state: SocketState, raw: RawData): Promise<void> => {
+  const message = parseClientMessage(raw);
+
+  if (!message) {
+    send(socket, { event: 'error', data: { error: 'Очікується JSON з type: "subscribe" або "chat"' } });
+    return;
+  }
+
+  if (message.type === 'chat') {
+    await handleChat(socket, state, message);
+    return;
+  }
+
+  if (!isValidSessionId(message.sessionId)) {
+    send(socket, { event: 'error', data: { error: 'Невалідний sessionId' } });
+    return;
+  }
+  subscribe(socket, state, message.sessionId, typeof message.lastSeq === 'number' ? message.lastSeq : undefined);
+};
+
+/**
+ * Нове з'єднання: ?sessionId=...&lastSeq=... в URL підписує одразу (перепідключення з replay)
+ */
+const handleConnection = (socket: WebSocket, request: IncomingMessage): void => {
+  const state: SocketState = { sessionId: null, alive: true };
+  socketStates.set(socket, state);
+
+  socket.on('pong', () => {
+    state.alive = true;
+  });
+
+  socket.on('message', (raw) => {
+    handleMessage(socket, state, raw).catch((error) => {
+      console.error('❌ Помилка WebSocket-повідомлення:', error);
+    });
+  });
+
+  socket.on('close', () => {
+    if (state.sessionId) {
+      const channel = channels.get(state.sessionId);
+      channel?.sockets.delete(socket);
+      if (channel) channel.lastActivityAt = Date.now();
+    }
+  });
+
+  const params = new URL(request.url || '', 'http://localhost').searchParams;
+  const sessionId = params.get('sessionId');
+  if (sessionId && isValidSessionId(sessionId)) {
+    const lastSeq = params.has('lastSeq') ? parseInt(params.get('lastSeq')!) : NaN;
+    subscribe(socket, state, sessionId, Number.isNaN(lastSeq) ? undefined : lastSeq);
+  }
+};
+
+/**
+ * Heartbeat: з'єднання, що не відповіли на попередній ping, закриваються; буфери сесій без з'єднань
+ * видаляються після WS_REPLAY_TTL_MINUTES
+ */
+const checkConnections = (server: WebSocketServer): void => {
+  server.clients.forEach((socket) => {
+    const state = socketStates.get(socket);
+    if (!state || !state.alive) {
+      socket.terminate();
+      return;
+    }
+    state.alive = false;
+    socket.ping();
+  });
+
+  const now = Date.now();
+  channels.forEach((channel, sessionId) => {
+    if (channel.sockets.size === 0 && now - channel.lastActivityAt > GATEWAY_CONFIG.replayTtlMs) {
+      channels.delete(sessionId);
+    }
+  });
+};
+
+/**
+ * Підключення WebSocket-шлюзу до HTTP-сервера Express (шлях GATEWAY_CONFIG.path)
+ */
+export const attachChatGateway = (server: Server): WebSocketServer => {
+  const wss = new WebSocketServer({ server, path: GATEWAY_CONFIG.path, maxPayload: 64 * 1024 });
+
+  wss.on('connection', handleConnection);
+
+  // Таймер heartbeat не тримає процес (сервер без явного close, тести)
+  const heartbeat = setInterval(() => checkConnections(wss), GATEWAY_CONFIG.heartbeatMs).unref();
+  wss.on('close', () => clearInterval(heartbeat));
+
+  gateway = wss;
+  console.log(`🔌 WebSocket-шлюз чату: ${GATEWAY_CONFIG.path} (heartbeat ${GATEWAY_CONFIG.heartbeatMs} мс)`);
+  return wss;
+};
+
+/**
+ * Відповідь оператора: зберігається в історії сесії та надсилається віджету.
+ * null - сесії не існує
+ */
+export const pushOperatorMessage = async (sessionId: string, text: string, operator?: string): Promise<number | null> => {
+  if (!(await recordOperatorMessage(sessionId, text))) {
+    return null;
+  }
+  return publishToSession(sessionId, { event: 'operator_message', data: { text, ...(operator ? { operator } : {}) } });
+};
+
+/**
+ * Стан набору тексту оператором
+ */
+export const pushTypingState = (sessionId: string, isTyping: boolean): number =>
+  publishToSession(sessionId, { event: 'typing', data: { isTyping, from: 'operator' } });
+
+/**
+ * Сповіщення "знову в наявності" з карткою товару. null - товар не знайдено
+ */
+export const pushStockAlert = async (sessionId: string, productId: string, message?: string): Promise<number | null> => {
+  const product = await getProductById(productId);
+  if (!product) {
+    return null;
+  }
+  return publishToSession(sessionId, {
+    event: 'stock_alert',
+    data: {
+      message: message || `${product.metadata.title} знову в наявності`,
+      product: toStructuredProduct(product),
+    },
+  });
+};
+
+/**
+ * Статистика шлюзу
+ */
+export const getGatewayStats = () => ({
+  connections: gateway ? gateway.clients.size : 0,
+  activeSessions: Array.from(channels.values()).filter((channel) => channel.sockets.size > 0).length,
+  bufferedSessions: channels.size,
+});
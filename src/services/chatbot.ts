@@ -1,18 +1,31 @@
 import { v4 as uuidv4 } from 'uuid';
-import { generateChatResponse } from '../config/openai';
+import { generateChatResponse, LLM_MODELS, streamChatResponse } from '../config/llm';
+import { getSessionStore, SESSION_TTL_HOURS } from '../config/sessionStore';
 import {
   searchProducts,
   getPopularProducts,
-  searchByArticle,
-  findSimilarProductsByPrice,
-  balanceResults,
+  searchByArticles,
+  getProductById,
+  getFusionWeights,
+  searchForComplexQuery,
 } from './vectorSearch';
+import { findAnalogs, findInStockAlternatives } from './analogSearch';
+import { isLowConfidence } from './reranker';
 import {
+  AnalogMatch,
   ChatMessage,
   ChatRequest,
   ChatResponse,
+  ChatStreamListener,
   ConversationHistory,
   ChatbotConfig,
+  IntentConstraints,
+  RegimenMatch,
+  RegimenSection,
+  SearchFilters,
+  SearchMatch,
+  StructuredProduct,
+  UserIntent,
 } from '../types/product';
 import {
   CHATBOT_SYSTEM_PROMPT,
@@ -24,14 +37,36 @@ import {
 import {
   sanitizeInput,
   isValidSessionId,
+  isProductAvailable,
 } from '../utils/validation';
+import { extractArticles } from '../utils/articleParser';
+import { getArticlePrefixes } from './articleIndex';
+import {
+  extractFiltersFromText,
+  mergeSearchFilters,
+  hasActiveFilters,
+} from '../utils/searchFilters';
+import { getCatalogBrands } from './catalog';
+import { detectBrandMentions, matchCatalogBrands } from '../utils/brandRegistry';
+import {
+  extractConstraintsFromText,
+  normalizeConstraints,
+  mergeConstraints,
+  hasConstraints,
+  constraintsToFilters,
+} from '../utils/intentConstraints';
+import { applyIntentConstraints } from './constraintRanking';
+import { tokenize } from '../utils/textNormalization';
+import { formatUnitPrice } from '../utils/valueMetrics';
+import { DIETARY_TAG_LABELS, getDietaryTags } from '../utils/dietaryTags';
+import { createJsonFieldStreamer } from '../utils/jsonFieldStream';
 
 /**
  * Конфігурація чат-бота
  */
 const CHATBOT_CONFIG: ChatbotConfig = {
-  model: 'gpt-4o-mini',
-  embeddingModel: 'text-embedding-3-large', // Обновлено для vitahub-xml
+  model: LLM_MODELS.chat,
+  embeddingModel: LLM_MODELS.embedding, // Обновлено для vitahub-xml
   temperature: 0.7,
   maxTokens: 1500,
   maxConversationHistory: parseInt(process.env.MAX_CONVERSATION_HISTORY || '6'),
@@ -39,23 +74,29 @@ const CHATBOT_CONFIG: ChatbotConfig = {
 };
 
 /**
- * Сховище історії розмов (в production використовуйте Redis або БД)
+ * Схема прийому: максимум компонентів та кандидатів на компонент
+ */
+const MAX_REGIMEN_COMPONENTS = 5;
+const REGIMEN_CANDIDATES_PER_COMPONENT = 3;
+
+/**
+ * Нова порожня сесія
  */
-const conversationStore = new Map<string, ConversationHistory>();
+const newConversation = (sessionId: string): ConversationHistory => ({
+  sessionId,
+  messages: [],
+  createdAt: new Date(),
+  lastUpdatedAt: new Date(),
+  shownProductIds: new Set<string>(),
+});
 
 /**
  * Створення нової сесії
  */
-export const createSession = (): string => {
+export const createSession = async (): Promise<string> => {
   const sessionId = uuidv4();
 
-  conversationStore.set(sessionId, {
-    sessionId,
-    messages: [],
-    createdAt: new Date(),
-    lastUpdatedAt: new Date(),
-    shownProductIds: new Set<string>(),
-  });
+  await getSessionStore().save(newConversation(sessionId));
 
   console.log(`🆕 Створено нову сесію: ${sessionId}`);
   return sessionId;
@@ -64,8 +105,8 @@ export const createSession = (): string => {
 /**
  * Отримання історії розмови
  */
-export const getConversationHistory = (sessionId: string): ChatMessage[] => {
-  const conversation = conversationStore.get(sessionId);
+export const getConversationHistory = async (sessionId: string): Promise<ChatMessage[]> => {
+  const conversation = await getSessionStore().get(sessionId);
 
   if (!conversation) {
     return [];
@@ -77,44 +118,74 @@ export const getConversationHistory = (sessionId: string): ChatMessage[] => {
 };
 
 /**
- * Додавання повідомлення в історію
+ * Черги записів по сесіях: паралельні запити однієї сесії (чат, стрім, оператор) не перезаписують зміни одне одного.
+ * Черга в межах процесу - кілька інстансів з одним Redis потребують sticky-сесій
  */
-const addMessageToHistory = (
-  sessionId: string,
-  role: 'user' | 'assistant',
-  content: string
-): void => {
-  let conversation = conversationStore.get(sessionId);
+const sessionWrites = new Map<string, Promise<unknown>>();
 
-  if (!conversation) {
-    conversation = {
-      sessionId,
-      messages: [],
-      createdAt: new Date(),
-      lastUpdatedAt: new Date(),
-      shownProductIds: new Set<string>(),
-    };
-    conversationStore.set(sessionId, conversation);
-  }
+/**
+ * Зміна сесії: читання -> update -> збереження виконуються послідовно для одного sessionId
+ */
+const updateSession = <T>(sessionId: string, update: (conversation: ConversationHistory) => T): Promise<T> => {
+  const previous = sessionWrites.get(sessionId) || Promise.resolve();
+  const next = previous
+    .catch(() => undefined) // помилка попереднього запису не блокує наступні
+    .then(async () => {
+      const store = getSessionStore();
+      const conversation = (await store.get(sessionId)) || newConversation(sessionId);
+      const result = update(conversation);
+      await store.save(conversation);
+      return result;
+    });
+
+  sessionWrites.set(sessionId, next);
+  next
+    .finally(() => {
+      if (sessionWrites.get(sessionId) === next) {
+        sessionWrites.delete(sessionId);
+      }
+    })
+    .catch(() => undefined);
 
-  conversation.messages.push({ role, content });
-  conversation.lastUpdatedAt = new Date();
+  return next;
+};
 
-  // Обмежуємо розмір історії
-  if (conversation.messages.length > CHATBOT_CONFIG.maxConversationHistory * 2) {
-    conversation.messages = conversation.messages.slice(-CHATBOT_CONFIG.maxConversationHistory * 2);
+/**
+ * Додавання повідомлень в історію (запит користувача і відповідь зберігаються одним записом)
+ */
+const addMessageToHistory = (sessionId: string, ...messages: ChatMessage[]): Promise<void> =>
+  updateSession(sessionId, (conversation) => {
+    conversation.messages.push(...messages);
+    conversation.lastUpdatedAt = new Date();
+
+    // Обмежуємо розмір історії
+    if (conversation.messages.length > CHATBOT_CONFIG.maxConversationHistory * 2) {
+      conversation.messages = conversation.messages.slice(-CHATBOT_CONFIG.maxConversationHistory * 2);
+    }
+  });
+
+/**
+ * Збереження повідомлення оператора в історії, щоб бот враховував його в наступних відповідях.
+ * Повертає false, якщо сесії не існує
+ */
+export const recordOperatorMessage = async (sessionId: string, text: string): Promise<boolean> => {
+  if (!isValidSessionId(sessionId) || !(await getSessionStore().get(sessionId))) {
+    return false;
   }
+
+  await addMessageToHistory(sessionId, { role: 'assistant', content: `[Оператор] ${text}` });
+  return true;
 };
 
 /**
  * Видалення сесії
  */
-export const deleteSession = (sessionId: string): boolean => {
+export const deleteSession = async (sessionId: string): Promise<boolean> => {
   if (!isValidSessionId(sessionId)) {
     return false;
   }
 
-  const deleted = conversationStore.delete(sessionId);
+  const deleted = await getSessionStore().delete(sessionId);
 
   if (deleted) {
     console.log(`🗑️ Видалено сесію: ${sessionId}`);
@@ -126,19 +197,8 @@ export const deleteSession = (sessionId: string): boolean => {
 /**
  * Очищення старих сесій (запускати періодично)
  */
-export const cleanupOldSessions = (maxAgeHours: number = 24): number => {
-  const now = new Date();
-  let deleted = 0;
-
-  conversationStore.forEach((conversation, sessionId) => {
-    const ageHours =
-      (now.getTime() - conversation.lastUpdatedAt.getTime()) / (1000 * 60 * 60);
-
-    if (ageHours > maxAgeHours) {
-      conversationStore.delete(sessionId);
-      deleted++;
-    }
-  });
+export const cleanupOldSessions = async (maxAgeHours: number = SESSION_TTL_HOURS): Promise<number> => {
+  const deleted = await getSessionStore().expire(maxAgeHours * 60 * 60 * 1000);
 
   if (deleted > 0) {
     console.log(`🧹 Видалено ${deleted} старих сесій`);
@@ -148,37 +208,42 @@ export const cleanupOldSessions = (maxAgeHours: number = 24): number => {
 };
 
 /**
- * Додавання показаних товарів до трекінгу
+ * Збереження показаних товарів: усіх (щоб не повторювати) та з останньої відповіді
+ * (оригінали для наступного запиту аналогів)
  */
-const trackShownProducts = (sessionId: string, productIds: string[]): void => {
-  const conversation = conversationStore.get(sessionId);
-  if (conversation) {
+const trackShownProducts = (sessionId: string, productIds: string[], lastShownIds: string[]): Promise<number> =>
+  updateSession(sessionId, (conversation) => {
     productIds.forEach(id => conversation.shownProductIds.add(id));
-  }
-};
+    if (lastShownIds.length > 0) {
+      conversation.lastShownProductIds = lastShownIds;
+    }
+    return conversation.shownProductIds.size;
+  });
 
 /**
  * Отримання ID вже показаних товарів
  */
-const getShownProductIds = (sessionId: string): Set<string> => {
-  const conversation = conversationStore.get(sessionId);
+const getShownProductIds = async (sessionId: string): Promise<Set<string>> => {
+  const conversation = await getSessionStore().get(sessionId);
   return conversation?.shownProductIds || new Set<string>();
 };
 
 /**
  * Фільтрація товарів, які вже були показані
  */
-const filterNewProducts = (products: any[], shownIds: Set<string>): any[] => {
+const filterNewProducts = (products: SearchMatch[], shownIds: Set<string>): SearchMatch[] => {
   return products.filter(product => !shownIds.has(product.id));
 };
 
 // Функція formatProductsForGPT видалена - замінена на createUserPrompt з prompts.ts
 
 /**
- * Обробка запиту чат-бота
+ * Обробка запиту чат-бота.
+ * З onEvent проміжні результати (намір, товари, токени відповіді) передаються одразу, як тільки готові
  */
 export const processChatMessage = async (
-  request: ChatRequest
+  request: ChatRequest,
+  onEvent?: ChatStreamListener
 ): Promise<ChatResponse> => {
   try {
     // Санітизація вводу
@@ -192,7 +257,7 @@ export const processChatMessage = async (
     let sessionId = request.sessionId;
 
     if (!sessionId) {
-      sessionId = createSession();
+      sessionId = await createSession();
     } else if (!isValidSessionId(sessionId)) {
       throw new Error('Невалідний sessionId');
     }
@@ -201,10 +266,13 @@ export const processChatMessage = async (
     console.log(`📝 Повідомлення: "${userMessage}"`);
 
     // Перевірка на вітання (перше повідомлення)
-    const history = getConversationHistory(sessionId);
+    const history = await getConversationHistory(sessionId);
     if (history.length === 0 && isGreeting(userMessage)) {
-      addMessageToHistory(sessionId, 'user', userMessage);
-      addMessageToHistory(sessionId, 'assistant', WELCOME_MESSAGE);
+      await addMessageToHistory(
+        sessionId,
+        { role: 'user', content: userMessage },
+        { role: 'assistant', content: WELCOME_MESSAGE }
+      );
 
       return {
         response: WELCOME_MESSAGE,
@@ -218,25 +286,35 @@ export const processChatMessage = async (
     }
 
     // УНІВЕРСАЛЬНИЙ AI-ПІДХІД: Використовуємо AI для повного розуміння контексту
-    // Швидка попередня перевірка: артикули визначаємо без AI
-    const articlePattern = /[A-Z]{2,4}-\d{4,6}/i;
-    const articleMatch = userMessage.match(articlePattern);
+    // Швидка попередня перевірка: артикули та штрихкоди визначаємо без AI.
+    // Тільки якщо код є в каталозі - інакше це могла бути назва з числом ("ZMA 1000"), і запит іде звичайним шляхом
+    const articlePrefixes = await getArticlePrefixes();
+    const articleCodes = extractArticles(userMessage, articlePrefixes).map((article) => article.code);
+    const knownArticles = articleCodes.length > 0 ? await searchByArticles(articleCodes) : [];
+    if (articleCodes.length > 0 && knownArticles.length === 0) {
+      console.log(`⚠️ Артикул ${articleCodes.join(', ')} не знайдено в каталозі - звичайний пошук`);
+    }
 
     let intent: UserIntent;
     let relevanceCheck = { isRelevant: true, reason: '' };
 
-    if (articleMatch) {
+    if (knownArticles.length > 0) {
       // Артикул - обробляємо без AI
+      intent = createArticleIntent(articleCodes);
+      console.log(`⚡ Швидке визначення: артикул ${articleCodes.join(', ')}`);
+    } else if (request.productId) {
+      // Аналоги до конкретного товару з картки - тип запиту відомий без AI
       intent = {
-        searchType: 'article_search',
-        searchQuery: articleMatch[0],
-        context: 'Пошук по артикулу',
+        searchType: 'find_similar',
+        searchQuery: userMessage,
+        context: 'Пошук аналогів до товару з картки',
         needsMultipleComponents: false,
+        constraints: extractConstraintsFromText(userMessage),
       };
-      console.log(`⚡ Швидке визначення: артикул ${articleMatch[0]}`);
+      console.log(`⚡ Швидке визначення: аналоги до товару ${request.productId}`);
     } else {
       // Для всіх інших запитів - використовуємо AI для розуміння контексту
-      intent = await analyzeUserIntentWithAI(userMessage, history);
+      intent = await analyzeUserIntentWithAI(userMessage, history, articlePrefixes);
       console.log(`🤖 AI визначила: ${intent.searchType}, Запит: "${intent.searchQuery}"`);
 
       // Перевіряємо релевантність (AI вже це зробила в analyzeUserIntentWithAI)
@@ -246,8 +324,11 @@ export const processChatMessage = async (
         // Якщо AI визначила що запит нерелевантний
         const responseText = 'Вибачте, я спеціалізуюсь на консультаціях щодо вітамінів, мінералів та біологічно активних добавок. Чим можу допомогти у цій сфері?';
 
-        addMessageToHistory(sessionId, 'user', userMessage);
-        addMessageToHistory(sessionId, 'assistant', responseText);
+        await addMessageToHistory(
+          sessionId,
+          { role: 'user', content: userMessage },
+          { role: 'assistant', content: responseText }
+        );
 
         return {
           response: responseText,
@@ -261,63 +342,171 @@ export const processChatMessage = async (
       }
     }
 
-    let products: any[] = [];
+    onEvent?.({ event: 'intent', data: { sessionId, searchType: intent.searchType, searchQuery: intent.searchQuery } });
+
+    // Фільтри: явні з запиту мають пріоритет над розпізнаними в тексті ("до 500 грн", "тільки Solgar")
+    // та над ціновими обмеженнями, які визначила AI
+    const constraints = intent.constraints;
+    const filters = mergeSearchFilters(
+      await resolveSearchFilters(userMessage, request.filters),
+      constraintsToFilters(constraints)
+    );
+    if (hasConstraints(constraints)) {
+      console.log(`🎯 Обмеження запиту: ${JSON.stringify(constraints)}`);
+    }
+    const requiredDietary = filters.dietary || [];
+    const searchQuery = extractFiltersFromText(intent.searchQuery).remainingText || intent.searchQuery;
+
+    let products: SearchMatch[] = [];
+    let outOfStockProductIds: string[] = [];
+    let analogsFor: string | undefined;
+    let regimen: RegimenMatch[] = [];
+    let confidence: number | undefined;
+    const promptNotes: string[] = [];
 
     // Виконуємо пошук в залежності від типу запиту
     switch (intent.searchType) {
       case 'article_search':
-        // Пошук за артикулом
+        // Пошук за артикулом (усі коди з повідомлення)
         console.log(`🔢 Пошук за артикулом: ${intent.searchQuery}`);
-        const articleProduct = await searchByArticle(intent.searchQuery);
-        if (articleProduct) {
-          products = [articleProduct];
+        products = await searchByArticles(
+          intent.articles && intent.articles.length > 0 ? intent.articles : [intent.searchQuery]
+        );
+
+        // Код не знайдено (помилка в артикулі або назва з числом) - шукаємо за текстом повідомлення
+        if (products.length === 0) {
+          console.log(`⚠️ За артикулом нічого не знайдено - звичайний пошук: "${userMessage}"`);
+          const missingArticles = intent.articles?.join(', ') || intent.searchQuery;
+          intent = { ...intent, searchType: 'recommendation', searchQuery: userMessage };
+
+          const searchResult = await searchProducts(userMessage, {
+            topK: 6,
+            fusion: getFusionWeights(intent.searchType),
+            filter: filters,
+            constraints,
+          });
+          products = searchResult.products;
+          confidence = searchResult.confidence;
+          promptNotes.push(
+            `Товару з артикулом ${missingArticles} немає в каталозі. Коротко скажи про це та запропонуй схожі товари зі списку.`
+          );
+          break;
+        }
+
+        // Точний збіг показуємо навіть без наявності, але одразу пропонуємо аналоги в наявності
+        const unavailable = products.filter((product) => !isProductAvailable(product.metadata));
+        if (unavailable.length > 0) {
+          outOfStockProductIds = unavailable.map((product) => product.id);
+          console.log(`📭 Немає в наявності: ${outOfStockProductIds.join(', ')}`);
+
+          const alternatives = await findInStockAlternatives(unavailable.map((product) => product.metadata));
+          products = [...products, ...alternatives];
+
+          promptNotes.push(
+            `Товару ${unavailable.map((product) => `"${product.metadata.title}" (артикул ${product.metadata.gtin})`).join(', ')} зараз НЕМАЄ В НАЯВНОСТІ. ` +
+            'Обов\'язково повідом про це на початку відповіді' +
+            (alternatives.length > 0
+              ? ' та запропонуй аналоги в наявності зі списку.'
+              : ', аналогів в наявності не знайдено.')
+          );
         }
         break;
 
       case 'find_similar':
         // Пошук аналогів
         console.log(`🔄 Пошук аналогів для: ${intent.searchQuery}`);
-        // Спочатку знаходимо оригінальний товар
-        const originalSearchResult = await searchProducts(intent.searchQuery, { topK: 1 });
-        if (originalSearchResult.products.length > 0) {
-          const original = originalSearchResult.products[0];
-          // Використовуємо нову функцію з фільтром по ціні ±30%
-          const similarProducts = await findSimilarProductsByPrice(original.metadata, 5);
-          products = similarProducts;
+        // Оригінал - товар, який бачив користувач (картка або остання відповідь), а не здогадка текстовим пошуком
+        const original = await resolveAnalogOriginal(sessionId, request.productId, intent);
+        if (original) {
+          analogsFor = original.id;
+          const analogs = await findAnalogs(original.metadata, 5);
+          products = applyIntentConstraints(analogs, constraints);
+
+          promptNotes.push(
+            `Користувач шукає аналоги до товару "${original.metadata.title}". ` +
+            'У полі reason кожного аналога коротко поясни відмінності від оригіналу (поле "Відмінність від оригіналу").'
+          );
         }
         break;
 
       case 'recommendation':
+      case 'value':
+        // Цільовий запит ("для імунітету") - схема з кількох компонентів, по товару на компонент
+        if (intent.searchType === 'recommendation' && intent.needsMultipleComponents && (intent.components?.length || 0) >= 2) {
+          regimen = await buildRegimen(intent.components!, filters, constraints, await getShownProductIds(sessionId));
+          if (regimen.length > 0) {
+            products = regimen;
+            // Схема не сильніша за найслабший компонент
+            confidence = Math.min(...regimen.map((match) => match.rerank?.relevance ?? 1));
+            promptNotes.push(
+              `Користувач просить схему з кількох компонентів: ${regimen.map((match) => match.component).join(', ')}. ` +
+              'Для кожного компонента підібрано ОДИН товар (поле "Компонент"). Поверни всі товари зі списку в тому ж порядку, ' +
+              'у reason поясни роль компонента для мети користувача.'
+            );
+            break;
+          }
+          console.log('⚠️ Схему не сформовано - звичайний пошук');
+        }
+
         // Звичайний пошук товарів (AI вже сформувала запит з урахуванням контексту)
-        console.log(`🔍 Пошук товарів: "${intent.searchQuery}"`);
+        console.log(`🔍 Пошук товарів: "${searchQuery}"`);
         const limit = intent.needsMultipleComponents ? 9 : 6;
-        const searchResult = await searchProducts(intent.searchQuery, { topK: limit });
+        // З обмеженнями беремо більше кандидатів: частина відсіється, решта переранжується.
+        // Правила мерчандайзингу (закріплення, гарантований бренд, ліміти брендів) застосовує searchProducts,
+        // для запиту вигідності - з сортуванням за ціною дози/порції
+        const searchResult = await searchProducts(searchQuery, {
+          topK: hasConstraints(constraints) ? limit * 2 : limit,
+          limit,
+          fusion: getFusionWeights(intent.searchType),
+          filter: filters,
+          constraints,
+          sort: intent.searchType === 'value' ? 'best_value' : undefined,
+        });
         products = searchResult.products;
+        confidence = searchResult.confidence;
 
-        // Застосовуємо балансування брендів
-        if (products.length > 3) {
-          products = balanceResults(products, limit);
+        if (intent.searchType === 'value') {
+          promptNotes.push(
+            'Користувач шукає найвигідніший варіант. Товари відсортовано від найвигіднішого за ціною дози/порції ' +
+            '(поле "Вигідність"). Порівнюй саме ціну за порцію або дозу, а не ціну упаковки.'
+          );
         }
         break;
     }
 
     // Отримуємо ID вже показаних товарів
-    const shownProductIds = getShownProductIds(sessionId);
+    const shownProductIds = await getShownProductIds(sessionId);
 
-    // Фільтруємо товари, виключаючи вже показані (якщо це не пошук по артикулу)
+    // Фільтруємо товари, виключаючи вже показані (якщо це не пошук по артикулу і не аналоги -
+    // аналоги до конкретного товару показуємо з відмінностями, навіть якщо вони вже траплялись)
+    // Схему теж не фільтруємо: вже показані товари відсіяно при виборі компонентів
     const isArticleSearch = intent.searchType === 'article_search';
-    if (!isArticleSearch) {
+    const isSimilarSearch = intent.searchType === 'find_similar';
+    const isRegimen = regimen.length > 0;
+    if (!isArticleSearch && !isSimilarSearch && !isRegimen) {
       products = filterNewProducts(products, shownProductIds);
       console.log(`🔍 Знайдено товарів, з них нових: ${products.length}`);
     }
 
-    // Якщо товарів недостатньо, додаємо популярні (НЕ для пошуку по артикулу та НЕ для аналогів!)
-    const isSimilarSearch = intent.searchType === 'find_similar';
-    if (products.length < CHATBOT_CONFIG.minProductsRequired && !isArticleSearch && !isSimilarSearch) {
+    // Слабкий збіг: не підміняємо результати популярними товарами, а просимо уточнити запит
+    const lowConfidence = confidence !== undefined && isLowConfidence(confidence);
+    if (lowConfidence) {
+      console.log(`🤔 Низька впевненість у підборі: ${confidence!.toFixed(2)}`);
+      promptNotes.push(
+        'Знайдені товари лише частково відповідають запиту. Чесно скажи, що не впевнений у точності підбору, ' +
+        'та попроси уточнити запит (інгредієнт, форма, призначення). Не видавай ці товари за точну відповідь.'
+      );
+    }
+
+    // Якщо товарів недостатньо, додаємо популярні (НЕ для пошуку по артикулу, аналогів, схеми та слабкого збігу!)
+    if (
+      products.length < CHATBOT_CONFIG.minProductsRequired &&
+      !isArticleSearch && !isSimilarSearch && !isRegimen && !lowConfidence
+    ) {
       console.log(
         `⚠️ Знайдено ${products.length} нових товарів, додаємо популярні...`
       );
-      const popularProducts = await getPopularProducts(10);
+      const popularProducts = applyIntentConstraints(await getPopularProducts(10, filters), constraints);
       const newPopularProducts = filterNewProducts(popularProducts, shownProductIds);
       products = [...products, ...newPopularProducts];
 
@@ -333,8 +522,11 @@ export const processChatMessage = async (
     if (products.length === 0) {
       console.log('❌ Товари не знайдено');
 
-      addMessageToHistory(sessionId, 'user', userMessage);
-      addMessageToHistory(sessionId, 'assistant', NO_PRODUCTS_FOUND_MESSAGE);
+      await addMessageToHistory(
+        sessionId,
+        { role: 'user', content: userMessage },
+        { role: 'assistant', content: NO_PRODUCTS_FOUND_MESSAGE }
+      );
 
       return {
         response: NO_PRODUCTS_FOUND_MESSAGE,
@@ -344,12 +536,30 @@ export const processChatMessage = async (
       };
     }
 
+    if (requiredDietary.length > 0) {
+      promptNotes.push(
+        `Користувач вимагає: ${requiredDietary.map((tag) => DIETARY_TAG_LABELS[tag]).join(', ')}. ` +
+        'Усі товари зі списку мають ці мітки - у полі reason коротко поясни, чому товар підходить (поле "Дієтичні ознаки").'
+      );
+    }
+
     // НОВА ЛОГІКА: Використовуємо createUserPrompt для динамічного формування промпта
     // Формуємо промпт з результатами пошуку та історією (history вже оголошена вище)
+    // Для пошуку за кількома артикулами та для схеми показуємо всі знайдені товари
+    const maxProducts = isArticleSearch ? Math.max(3, products.length) : isRegimen ? products.length : 3;
+
+    // Попередні картки - з метаданих, до генерації тексту; остаточні (з reason від AI) прийдуть у відповіді
+    onEvent?.({
+      event: 'products',
+      data: { sessionId, products: products.slice(0, maxProducts).map(toStructuredProduct), productsFound: products.length },
+    });
+
     const userPrompt = createUserPrompt(
       userMessage,
       products,
-      history
+      history,
+      maxProducts,
+      promptNotes
     );
 
     // Визначаємо temperature в залежності від типу запиту
@@ -357,21 +567,36 @@ export const processChatMessage = async (
 
     console.log(`📝 Тип запиту: ${intent.searchType}, Temperature: ${temperature}`);
 
-    // Генерація відповіді через GPT
-    const assistantResponse = await generateChatResponse(
-      [
-        {
-          role: 'system',
-          content: CHATBOT_SYSTEM_PROMPT,
-        },
-        {
-          role: 'user',
-          content: userPrompt,
-        },
-      ],
-      temperature,
-      CHATBOT_CONFIG.maxTokens
-    );
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: CHATBOT_SYSTEM_PROMPT,
+      },
+      {
+        role: 'user',
+        content: userPrompt,
+      },
+    ];
+
+    // Генерація відповіді через GPT (при стрімінгу - текст поля message передаємо по мірі генерації)
+    let assistantResponse = '';
+    if (onEvent) {
+      const readMessage = createJsonFieldStreamer('message');
+      for await (const chunk of streamChatResponse(messages, temperature, CHATBOT_CONFIG.maxTokens, CHATBOT_CONFIG.model)) {
+        assistantResponse += chunk;
+        const text = readMessage(chunk);
+        if (text) {
+          onEvent({ event: 'token', data: { text } });
+        }
+      }
+    } else {
+      assistantResponse = await generateChatResponse(
+        messages,
+        temperature,
+        CHATBOT_CONFIG.maxTokens,
+        CHATBOT_CONFIG.model
+      );
+    }
 
     console.log(`✅ Відповідь згенеровано (${products.length} товарів)`);
     console.log('🔍 Сирий ответ GPT:', assistantResponse.substring(0, 150));
@@ -412,8 +637,7 @@ export const processChatMessage = async (
 
           // Формуємо відповідь: тільки текст + окремо масив товарів
           if (parsedResponse.products && Array.isArray(parsedResponse.products) && parsedResponse.products.length > 0) {
-            // ОБМЕЖЕННЯ: максимум 3 товари
-            const maxProducts = 3;
+            // ОБМЕЖЕННЯ: максимум 3 товари (або всі знайдені за артикулами)
             parsedResponse.products = parsedResponse.products.slice(0, maxProducts);
 
             console.log(`✅ Підготовлено ${parsedResponse.products.length} товарів для відправки`);
@@ -439,21 +663,63 @@ export const processChatMessage = async (
       console.log('Відповідь бота:', assistantResponse.substring(0, 200));
     }
 
+    // Відмінності аналогів, ціну за одиницю та дієтичні мітки додаємо до структурованих товарів
+    const structuredProducts: StructuredProduct[] | null = parsedResponse?.products
+      ? parsedResponse.products.map((item: StructuredProduct) => {
+          const match = findStructuredProductMatch(item, products);
+          const unitPrice = match ? formatUnitPrice(match.metadata, match.value) : null;
+          const diff = match && 'diff' in match ? (match as AnalogMatch).diff : undefined;
+          const dietary = match && requiredDietary.length > 0
+            ? getDietaryTags(match.metadata).filter((tag) => requiredDietary.includes(tag.tag))
+            : [];
+          return {
+            ...item,
+            ...(diff ? { diff } : {}),
+            ...(unitPrice ? { unitPrice } : {}),
+            ...(dietary.length > 0 ? { dietary } : {}),
+            ...(match?.variants ? { variants: match.variants } : {}),
+          };
+        })
+      : null;
+
     // Трекаємо показані товари
     const productIds = products.map(p => p.id);
-    trackShownProducts(sessionId, productIds);
-    console.log(`📊 Всього показано товарів у цій сесії: ${getShownProductIds(sessionId).size}`);
+
+    const displayedIds = (structuredProducts || [])
+      .map((item) => findStructuredProductMatch(item, products)?.id)
+      .filter((id): id is string => !!id);
+    const shownCount = await trackShownProducts(
+      sessionId,
+      productIds,
+      displayedIds.length > 0 ? displayedIds : productIds.slice(0, maxProducts)
+    );
+    console.log(`📊 Всього показано товарів у цій сесії: ${shownCount}`);
 
     // Зберігаємо в історію
-    addMessageToHistory(sessionId, 'user', userMessage);
-    addMessageToHistory(sessionId, 'assistant', finalResponse);
+    await addMessageToHistory(
+      sessionId,
+      { role: 'user', content: userMessage },
+      { role: 'assistant', content: finalResponse }
+    );
+
+    // Секції схеми: компонент і його товар (якщо AI пропустила товар - формуємо картку з метаданих)
+    const regimenSections: RegimenSection[] = regimen.map((match) => ({
+      component: match.component,
+      product:
+        (structuredProducts || []).find((item) => findStructuredProductMatch(item, [match])) ||
+        toStructuredProduct(match),
+    }));
 
     return {
       response: finalResponse,
       sessionId,
       productsFound: products.length,
       relevanceCheck,
-      products: parsedResponse?.products || null, // Додаємо структуровані товари
+      products: structuredProducts, // Додаємо структуровані товари
+      ...(outOfStockProductIds.length > 0 ? { outOfStockRequested: true, outOfStockProductIds } : {}),
+      ...(analogsFor ? { analogsFor } : {}),
+      ...(regimenSections.length > 0 ? { regimen: regimenSections } : {}),
+      ...(confidence !== undefined ? { confidence: Number(confidence.toFixed(2)) } : {}),
     };
   } catch (error) {
     console.error('❌ Помилка обробки повідомлення:', error);
@@ -463,6 +729,150 @@ export const processChatMessage = async (
 
 // Стара функція analyzeQueryContext видалена - замінена на analyzeUserIntent
 
+/**
+ * Пошук товару з результатів пошуку, який AI повернула в структурованій відповіді
+ * (AI повертає артикул у полях id/article)
+ */
+const findStructuredProductMatch = (item: StructuredProduct, products: SearchMatch[]): SearchMatch | undefined => {
+  return products.find(
+    (product) =>
+      product.id === item.id ||
+      (!!product.metadata?.gtin && (product.metadata.gtin === item.article || product.metadata.gtin === item.id)) ||
+      // AI могла повернути артикул іншого фасування того ж товару
+      (product.variants || []).some((variant) => !!variant.article && (variant.article === item.article || variant.article === item.id))
+  );
+};
+
+/**
+ * Картка товару без участі AI (секції схеми, які AI не повернула, попередні картки, сповіщення)
+ */
+export const toStructuredProduct = (match: SearchMatch): StructuredProduct => {
+  const { metadata } = match;
+  const unitPrice = formatUnitPrice(metadata, match.value);
+  return {
+    id: metadata.gtin || metadata.id,
+    title: metadata.title,
+    brand: metadata.brand,
+    price: metadata.price_formatted,
+    article: metadata.gtin || '',
+    image: metadata.image_link,
+    link: metadata.link,
+    reason: '',
+    ...(unitPrice ? { unitPrice } : {}),
+    ...(match.variants ? { variants: match.variants } : {}),
+  };
+};
+
+/**
+ * Схема прийому: паралельний пошук кожного компонента і по одному товару на компонент.
+ * Товар не повторюється між компонентами, нові для користувача товари - в пріоритеті
+ */
+const buildRegimen = async (
+  components: string[],
+  filters: SearchFilters,
+  constraints: IntentConstraints | undefined,
+  shownProductIds: Set<string>
+): Promise<RegimenMatch[]> => {
+  const results = await searchForComplexQuery(components, REGIMEN_CANDIDATES_PER_COMPONENT, {
+    filter: filters,
+    fusion: getFusionWeights('recommendation'),
+    constraints,
+  });
+
+  const pickedIds = new Set<string>();
+  const regimen: RegimenMatch[] = [];
+
+  results.forEach(({ component, products }) => {
+    const candidates = products.filter((match) => !pickedIds.has(match.id));
+    const pick = candidates.find((match) => !shownProductIds.has(match.id)) || candidates[0];
+
+    if (pick) {
+      pickedIds.add(pick.id);
+      regimen.push({ ...pick, component });
+    } else {
+      console.log(`⚠️ Для компонента "${component}" товарів не знайдено`);
+    }
+  });
+
+  console.log(`🧩 Схема: ${regimen.map((match) => `${match.component} -> ${match.metadata.title}`).join('; ')}`);
+  return regimen;
+};
+
+/**
+ * Оригінал для пошуку аналогів: товар з картки (productId), далі - показаний в останній відповіді
+ * (найбільш схожий на запит), і лише потім - текстовий пошук
+ */
+const resolveAnalogOriginal = async (
+  sessionId: string,
+  productId: string | undefined,
+  intent: UserIntent
+): Promise<SearchMatch | null> => {
+  if (productId) {
+    const product = await getProductById(productId);
+    if (product) {
+      console.log(`🎯 Оригінал для аналогів з картки товару: ${product.metadata.title}`);
+      return product;
+    }
+  }
+
+  const lastShownIds = (await getSessionStore().get(sessionId))?.lastShownProductIds || [];
+  const lastShown = (await Promise.all(lastShownIds.map((id) => getProductById(id))))
+    .filter((product): product is SearchMatch => !!product);
+
+  if (lastShown.length > 0) {
+    const queryTokens = new Set(tokenize(intent.searchQuery));
+    const scored = lastShown.map((product) => ({
+      product,
+      overlap: tokenize(`${product.metadata.brand} ${product.metadata.title}`).filter((token) => queryTokens.has(token)).length,
+    }));
+    const best = scored.reduce((top, item) => (item.overlap > top.overlap ? item : top));
+
+    // Один показаний товар або явна згадка в запиті - беремо його
+    if (lastShown.length === 1 || best.overlap > 0) {
+      console.log(`🎯 Оригінал для аналогів з останньої відповіді: ${best.product.metadata.title}`);
+      return best.product;
+    }
+  }
+
+  // Оригінал може бути відсутнім - аналоги все одно шукаємо тільки серед наявних
+  const searchResult = await searchProducts(intent.searchQuery, {
+    topK: 1,
+    fusion: getFusionWeights(intent.searchType),
+    availability: 'any',
+  });
+
+  return searchResult.products[0] || lastShown[0] || null;
+};
+
+/**
+ * Визначення фільтрів пошуку з запиту фронтенду та тексту повідомлення
+ */
+const resolveSearchFilters = async (
+  userMessage: string,
+  requestFilters: SearchFilters | undefined
+): Promise<SearchFilters> => {
+  let knownBrands: string[] = [];
+  try {
+    knownBrands = await getCatalogBrands();
+  } catch (error) {
+    console.warn('⚠️ Не вдалося отримати список брендів каталогу:', error);
+  }
+
+  // Бренди з запиту API можуть бути вказані будь-яким варіантом назви ("солгар", "nowfoods")
+  const normalizedRequestFilters = requestFilters?.brands
+    ? { ...requestFilters, brands: matchCatalogBrands(requestFilters.brands, knownBrands) }
+    : requestFilters;
+
+  const { filters: textFilters } = extractFiltersFromText(userMessage, knownBrands);
+  const filters = mergeSearchFilters(normalizedRequestFilters, textFilters);
+
+  if (hasActiveFilters(filters)) {
+    console.log(`🧰 Фільтри пошуку: ${JSON.stringify(filters)}`);
+  }
+
+  return filters;
+};
+
 /**
  * Перевірка чи повідомлення є вітанням
  */
@@ -490,15 +900,15 @@ const isGreeting = (message: string): boolean => {
 };
 
 /**
- * НОВА ФУНКЦІЯ: AI-аналіз типу запиту користувача
- * Визначає чи це: пошук за артикулом, пошук аналогів, чи звичайна рекомендація
+ * Намір пошуку за артикулами
  */
-interface UserIntent {
-  searchType: 'article_search' | 'find_similar' | 'recommendation';
-  searchQuery: string;
-  context: string;
-  needsMultipleComponents: boolean;
-}
+const createArticleIntent = (articles: string[]): UserIntent => ({
+  searchType: 'article_search',
+  searchQuery: articles.join(', '),
+  context: 'Пошук по артикулу',
+  needsMultipleComponents: false,
+  articles,
+});
 
 /**
  * НОВА УНІВЕРСАЛЬНА AI-ФУНКЦІЯ: Аналіз намерень з розумінням контексту
@@ -506,7 +916,8 @@ interface UserIntent {
  */
 const analyzeUserIntentWithAI = async (
   userMessage: string,
-  conversationHistory: ChatMessage[]
+  conversationHistory: ChatMessage[],
+  articlePrefixes: Set<string>
 ): Promise<UserIntent> => {
   try {
     // Беремо останні 3 повідомлення для контексту
@@ -532,9 +943,25 @@ ${recentHistory || 'Немає історії'}
 - Якщо питає "ще варіанти" або "інші" - використай той самий попередній запит
 
 ТИПИ ЗАПИТІВ:
-- article_search: пошук конкретного товару за артикулом (формат XXX-12345)
+- article_search: пошук конкретного товару за артикулом (формат XXX-12345) або штрихкодом (EAN-13/UPC)
 - find_similar: пошук аналогів/альтернатив до товару
 - recommendation: звичайна рекомендація товарів
+- value: пошук найвигіднішого варіанту ("що вигідніше", "найкраща ціна за капсулу", "економніше")
+
+ОБМЕЖЕННЯ (constraints) - заповнюй тільки те, що користувач явно вказав:
+- priceMin / priceMax: ціна в гривнях ("дешевше 400 грн" -> priceMax: 400)
+- forms: форми випуску з переліку capsule, softgel, tablet, chewable, gummy, powder, liquid, lozenge, spray
+- audience: одне з children, adults, women, men, pregnant, seniors
+- excludeIngredients: з переліку gelatin, gluten, sugar, lactose, soy, fish ("без желатину" -> ["gelatin"])
+- dietary: обов'язкові мітки з переліку vegan, vegetarian, gluten_free, gelatin_free, sugar_free, lactose_free, soy_free, non_gmo ("веганський" -> ["vegan"], "без глютену" -> ["gluten_free"])
+  (gelatin_free - тільки якщо користувач вимагає позначку на упаковці; просте "без желатину" - лише excludeIngredients)
+- dosage: {"value": число, "unit": "iu" | "mg" | "mcg" | "g"} ("1000 МО" -> {"value": 1000, "unit": "iu"})
+
+СХЕМА З КІЛЬКОХ КОМПОНЕНТІВ:
+- Якщо користувач описує мету, а не конкретний товар ("що пити восени для імунітету", "для суглобів"),
+  постав "needsMultipleComponents": true і розклади мету на 2-${MAX_REGIMEN_COMPONENTS} окремих компоненти в "components"
+  (наприклад: ["вітамін D3", "вітамін C", "цинк"]) - короткі пошукові запити, по одному на компонент
+- Для запитів про конкретний товар "components" - порожній масив
 
 ПОВЕРНИ JSON:
 {
@@ -542,7 +969,9 @@ ${recentHistory || 'Немає історії'}
   "searchQuery": "повний пошуковий запит з урахуванням контексту",
   "context": "коротке пояснення що зрозумів",
   "needsMultipleComponents": false,
-  "isRelevant": true
+  "components": [],
+  "isRelevant": true,
+  "constraints": {}
 }
 
 Якщо запит НЕ стосується здоров'я/вітамінів:
@@ -557,7 +986,8 @@ ${recentHistory || 'Немає історії'}
     const response = await generateChatResponse(
       [{ role: 'user', content: analysisPrompt }],
       0.3,
-      500
+      500,
+      CHATBOT_CONFIG.model
     );
 
     // Витягуємо JSON з відповіді
@@ -576,22 +1006,47 @@ ${recentHistory || 'Немає історії'}
       }
 
       console.log(`🤖 AI зрозуміла контекст: "${parsed.context}"`);
+
+      if (parsed.searchType === 'article_search') {
+        const codes = extractArticles(parsed.searchQuery || userMessage, articlePrefixes).map((article) => article.code);
+        if (codes.length > 0) {
+          return createArticleIntent(codes);
+        }
+      }
+
+      // Обмеження від AI доповнюємо правилами (AI може пропустити явні "1000 МО" чи "без желатину")
       return {
         searchType: parsed.searchType || 'recommendation',
         searchQuery: parsed.searchQuery || userMessage,
         context: parsed.context || 'AI-аналіз',
         needsMultipleComponents: parsed.needsMultipleComponents || false,
+        components: parsed.needsMultipleComponents ? normalizeComponents(parsed.components) : undefined,
+        constraints: mergeConstraints(normalizeConstraints(parsed.constraints, userMessage), extractConstraintsFromText(userMessage)),
       };
     }
 
     // Fallback: якщо AI не повернула JSON
-    return detectIntentFallback(userMessage, conversationHistory);
+    return detectIntentFallback(userMessage, conversationHistory, articlePrefixes);
   } catch (error) {
     console.error('❌ Помилка AI-аналізу:', error);
-    return detectIntentFallback(userMessage, conversationHistory);
+    return detectIntentFallback(userMessage, conversationHistory, articlePrefixes);
   }
 };
 
+/**
+ * Компоненти схеми з відповіді AI: унікальні непорожні рядки, не більше MAX_REGIMEN_COMPONENTS
+ */
+const normalizeComponents = (raw: unknown): string[] | undefined => {
+  const seen = new Set<string>();
+  const components = (Array.isArray(raw) ? raw : [])
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map((item) => item.trim())
+    .filter((item) => !seen.has(item.toLowerCase()) && !!seen.add(item.toLowerCase()))
+    .slice(0, MAX_REGIMEN_COMPONENTS);
+
+  return components.length > 0 ? components : undefined;
+};
+
 /**
  * ШВИДКА ФУНКЦІЯ: Перевірка чи запит стосується здоров'я/БАДів (без AI)
  */
@@ -622,23 +1077,21 @@ const isHealthRelatedQuery = (message: string): boolean => {
  */
 const detectIntentFallback = (
   userMessage: string,
-  conversationHistory: ChatMessage[]
+  conversationHistory: ChatMessage[],
+  articlePrefixes: Set<string>
 ): UserIntent => {
   const message = userMessage.toLowerCase();
 
-  // Перевірка на артикул (формат XXX-XXXXX)
-  const articlePattern = /[A-Z]{2,4}-\d{4,6}/i;
-  const articleMatch = userMessage.match(articlePattern);
+  // Перевірка на артикули та штрихкоди
+  const articleCodes = extractArticles(userMessage, articlePrefixes).map((article) => article.code);
 
-  if (articleMatch) {
-    return {
-      searchType: 'article_search',
-      searchQuery: articleMatch[0],
-      context: 'Пошук по артикулу',
-      needsMultipleComponents: false,
-    };
+  if (articleCodes.length > 0) {
+    return createArticleIntent(articleCodes);
   }
 
+  // Обмеження з поточного повідомлення ("жувальні", "для дітей", "без желатину", "1000 МО")
+  const constraints = extractConstraintsFromText(userMessage);
+
   // Перевірка на запит аналогів
   const similarKeywords = ['аналог', 'аналоги', 'похож', 'замена', 'заменить', 'вместо', 'альтернатив', 'ще варіант', 'інші варіант', 'що ще'];
   const isSimilarRequest = similarKeywords.some(keyword => message.includes(keyword));
@@ -655,16 +1108,30 @@ const detectIntentFallback = (
         searchQuery: extractProductFromHistory(lastAssistantMessage.content),
         context: 'Пошук аналогів до попереднього товару',
         needsMultipleComponents: false,
+        constraints,
       };
     }
   }
 
+  // Перевірка на пошук найвигіднішого варіанту ("що вигідніше", "найкраща ціна за капсулу")
+  const valueKeywords = ['вигідн', 'выгодн', 'економн', 'экономн', 'за капсулу', 'за таблетку', 'за порцію', 'найкраща ціна', 'best value'];
+  if (valueKeywords.some(keyword => message.includes(keyword))) {
+    return {
+      searchType: 'value',
+      searchQuery: userMessage,
+      context: 'Пошук найвигіднішого варіанту',
+      needsMultipleComponents: false,
+      constraints,
+    };
+  }
+
   // Перевірка на уточнення з брендом (наприклад: "а є від Now Foods?", "а що є бренду Solgar?")
   const brandKeywords = ['бренд', 'брендів', 'від бренду', 'фірм', 'виробник', 'компані', 'компанії', 'марк'];
   const brandQuestionWords = ['а є', 'а що є', 'а є що', 'можна', 'покажи', 'хочу', 'є що', 'дай', 'а от', 'а якщо', 'що там', 'може'];
 
-  const hasBrandMention = brandKeywords.some(keyword => message.includes(keyword)) ||
-                          /now foods|нау фудс|solgar|солгар|biotus|біотус|jarrow|джарроу|myprotein|май протеїн|my nutri week|май нутрі|21st century|california gold|каліфорнія/i.test(userMessage);
+  // Бренди з реєстру за будь-яким варіантом назви ("нау фудс", "солгар", "nowfoods")
+  const [mentionedBrand] = detectBrandMentions(userMessage);
+  const hasBrandMention = brandKeywords.some(keyword => message.includes(keyword)) || !!mentionedBrand;
   const isBrandQuestion = brandQuestionWords.some(word => message.includes(word)) || message.includes('?');
 
   if ((hasBrandMention || isBrandQuestion) && conversationHistory.length > 0) {
@@ -673,25 +1140,9 @@ const detectIntentFallback = (
     const previousQuery = userMessages[userMessages.length - 2]; // Передостанній запит
 
     if (previousQuery && previousQuery.content.length > 5) {
-      // Витягуємо згадку бренду з поточного запиту
-      const brandMatch = userMessage.match(/now foods|нау фудс|solgar|солгар|biotus|біотус|jarrow|джарроу|myprotein|май протеїн|my nutri week|май нутрі|21st century|california gold|каліфорнія/i);
-      const extractedBrand = brandMatch ? brandMatch[0] : '';
-
-      // Нормалізуємо назву бренду (переводимо українські на англійські)
-      const brandNormalization: { [key: string]: string } = {
-        'нау фудс': 'now foods',
-        'солгар': 'solgar',
-        'біотус': 'biotus',
-        'джарроу': 'jarrow',
-        'май протеїн': 'myprotein',
-        'май нутрі': 'my nutri week',
-        'каліфорнія': 'california gold'
-      };
-      const normalizedBrand = brandNormalization[extractedBrand.toLowerCase()] || extractedBrand;
-
-      // Об'єднуємо попередній запит з уточненням бренду (використовуємо нормалізовану назву)
-      const combinedQuery = extractedBrand
-        ? `${previousQuery.content} ${normalizedBrand}`
+      // Об'єднуємо попередній запит з уточненням бренду (канонічна назва з реєстру)
+      const combinedQuery = mentionedBrand
+        ? `${previousQuery.content} ${mentionedBrand.name}`
         : previousQuery.content;
 
       return {
@@ -699,6 +1150,7 @@ const detectIntentFallback = (
         searchQuery: combinedQuery,
         context: `Уточнення з брендом до попереднього запиту: "${previousQuery.content}"`,
         needsMultipleComponents: false,
+        constraints: mergeConstraints(constraints, extractConstraintsFromText(previousQuery.content)),
       };
     }
   }
@@ -718,6 +1170,7 @@ const detectIntentFallback = (
         searchQuery: previousQuery.content,
         context: 'Продовження попереднього запиту',
         needsMultipleComponents: false,
+        constraints: mergeConstraints(constraints, extractConstraintsFromText(previousQuery.content)),
       };
     }
   }
@@ -731,6 +1184,7 @@ const detectIntentFallback = (
     searchQuery: userMessage,
     context: 'Звичайний запит',
     needsMultipleComponents: needsMultiple,
+    constraints,
   };
 };
 
@@ -758,10 +1212,13 @@ const extractProductFromHistory = (assistantMessage: string): string => {
 /**
  * Отримання статистики сесій
  */
-export const getSessionStats = () => {
+export const getSessionStats = async () => {
+  const sessions = await getSessionStore().list();
+
   return {
-    totalSessions: conversationStore.size,
-    sessions: Array.from(conversationStore.values()).map((conv) => ({
+    store: getSessionStore().name,
+    totalSessions: sessions.length,
+    sessions: sessions.map((conv) => ({
       sessionId: conv.sessionId,
       messageCount: conv.messages.length,
       createdAt: conv.createdAt,
@@ -770,7 +1227,7 @@ export const getSessionStats = () => {
   };
 };
 
-// Періодичне очищення старих сесій (кожні 6 годин)
+// Періодичне очищення старих сесій (кожні 6 годин); таймер не тримає процес (скрипти, тести)
 setInterval(() => {
-  cleanupOldSessions(24);
-}, 6 * 60 * 60 * 1000);
\ No newline at end of file
+  cleanupOldSessions().catch((error) => console.error('❌ Помилка очищення сесій:', error));
+}, 6 * 60 * 60 * 1000).unref();
\ No newline at end of file
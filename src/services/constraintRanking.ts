@@ -0,0 +1,153 @@
+import { Audience, Dosage, IntentConstraints, ProductMetadata, SearchMatch } from '../types/product';
+import {
+  containsIngredient,
+  detectAudiences,
+  detectProductForms,
+  getProductAttributes,
+  isFormCompatible,
+} from '../utils/productAttributes';
+import { hasDietaryTags } from '../utils/dietaryTags';
+
+/**
+ * Застосування обмежень запиту до результатів пошуку:
+ * ціна, виключені інгредієнти та дієтичні мітки - жорсткі фільтри, форма/аудиторія/дозування - сигнали переранжування
+ */
+
+/**
+ * Множники score для сигналів переранжування
+ */
+const CONSTRAINT_WEIGHTS = {
+  formMatch: 1.3,
+  formMismatch: 0.7,
+  audienceMatch: 1.25,
+  audienceConflict: 0.6,
+  dosageExact: 1.3,
+  dosageClose: 1.1,
+  dosageMismatch: 0.85,
+};
+
+/**
+ * Дозування вважається близьким, якщо відрізняється не більше ніж вдвічі
+ */
+const CLOSE_DOSAGE_RATIO = 2;
+
+/**
+ * Аудиторії, які не суперечать одна одній
+ */
+const COMPATIBLE_AUDIENCES: Partial<Record<Audience, Audience[]>> = {
+  adults: ['women', 'men', 'seniors'],
+  women: ['adults', 'pregnant'],
+  men: ['adults'],
+  seniors: ['adults', 'women', 'men'],
+  pregnant: ['women'],
+};
+
+const getProductText = (product: ProductMetadata): string => {
+  return `${product.title || ''} ${product.search_text || product.description || ''}`;
+};
+
+const audienceMultiplier = (wanted: Audience, productAudiences: Audience[]): number => {
+  if (productAudiences.length === 0) {
+    return 1;
+  }
+  if (productAudiences.includes(wanted)) {
+    return CONSTRAINT_WEIGHTS.audienceMatch;
+  }
+
+  const compatible = COMPATIBLE_AUDIENCES[wanted] || [];
+  return productAudiences.some((audience) => compatible.includes(audience)) ? 1 : CONSTRAINT_WEIGHTS.audienceConflict;
+};
+
+const dosageMultiplier = (wanted: Dosage, product: ProductMetadata): number => {
+  // Дозування беремо з атрибутів (розпізнаються з назви - опис часто містить дозування інших компонентів)
+  const sameUnit = getProductAttributes(product).strengths.filter((dosage) => dosage.unit === wanted.unit);
+  if (sameUnit.length === 0) {
+    return 1;
+  }
+  if (sameUnit.some((dosage) => dosage.value === wanted.value)) {
+    return CONSTRAINT_WEIGHTS.dosageExact;
+  }
+
+  const isClose = sameUnit.some((dosage) => {
+    const ratio = dosage.value / wanted.value;
+    return ratio <= CLOSE_DOSAGE_RATIO && ratio >= 1 / CLOSE_DOSAGE_RATIO;
+  });
+  return isClose ? CONSTRAINT_WEIGHTS.dosageClose : CONSTRAINT_WEIGHTS.dosageMismatch;
+};
+
+/**
+ * Чи проходить товар жорсткі обмеження (ціна, виключені інгредієнти, дієтичні мітки)
+ */
+export const satisfiesHardConstraints = (product: ProductMetadata, constraints: IntentConstraints): boolean => {
+  const price = product.price || 0;
+  if (constraints.priceMin !== undefined && price < constraints.priceMin) return false;
+  if (constraints.priceMax !== undefined && price > constraints.priceMax) return false;
+
+  if (constraints.excludeIngredients && constraints.excludeIngredients.length > 0) {
+    const text = getProductText(product);
+    const { forms } = getProductAttributes(product);
+    if (constraints.excludeIngredients.some((ingredient) => containsIngredient(text, ingredient, forms))) {
+      return false;
+    }
+  }
+
+  if (!hasDietaryTags(product, constraints.dietary)) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Множник score товару за м'якими обмеженнями (форма, аудиторія, дозування)
+ */
+export const getConstraintMultiplier = (product: ProductMetadata, constraints: IntentConstraints): number => {
+  let multiplier = 1;
+  const text = getProductText(product);
+
+  if (constraints.forms && constraints.forms.length > 0) {
+    // Форма з атрибутів товару, а якщо її немає - з повного тексту (search_text)
+    const attributeForms = getProductAttributes(product).forms;
+    const forms = attributeForms.length > 0 ? attributeForms : detectProductForms(text);
+
+    if (forms.length > 0) {
+      const matches = constraints.forms.some((form) => isFormCompatible(form, forms));
+      multiplier *= matches ? CONSTRAINT_WEIGHTS.formMatch : CONSTRAINT_WEIGHTS.formMismatch;
+    }
+  }
+
+  if (constraints.audience) {
+    multiplier *= audienceMultiplier(constraints.audience, detectAudiences(text));
+  }
+
+  if (constraints.dosage) {
+    multiplier *= dosageMultiplier(constraints.dosage, product);
+  }
+
+  return multiplier;
+};
+
+/**
+ * Фільтрація та переранжування результатів за обмеженнями запиту
+ */
+export const applyIntentConstraints = (
+  products: SearchMatch[],
+  constraints: IntentConstraints | undefined
+): SearchMatch[] => {
+  if (!constraints || Object.keys(constraints).length === 0) {
+    return products;
+  }
+
+  const filtered = products.filter((product) => satisfiesHardConstraints(product.metadata, constraints));
+  if (filtered.length < products.length) {
+    console.log(`🚫 Обмеження виключили ${products.length - filtered.length} товарів`);
+  }
+
+  return filtered
+    .map((product, index) => ({
+      product: { ...product, score: (product.score || 0) * getConstraintMultiplier(product.metadata, constraints) },
+      index,
+    }))
+    .sort((a, b) => b.product.score - a.product.score || a.index - b.index)
+    .map(({ product }) => product);
+};
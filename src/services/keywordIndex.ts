@@ -0,0 +1,122 @@
+import { getCatalogProducts, onCatalogRefresh } from './catalog';
+import { tokenize } from '../utils/textNormalization';
+import { ProductMetadata } from '../types/product';
+
+/**
+ * Ключовий індекс каталогу (BM25 з вагами полів) для гібридного пошуку
+ */
+
+/**
+ * Ваги полів: збіг у назві чи бренді важливіший за збіг в описі
+ */
+const FIELD_WEIGHTS = {
+  title: 3,
+  brand: 2,
+  categories: 1.5,
+  search_text: 1,
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+interface IndexedDocument {
+  product: ProductMetadata;
+  termFrequencies: Map<string, number>; // зважена частота терміну
+  length: number;
+}
+
+/**
+ * Результат ключового пошуку
+ */
+export interface KeywordMatch {
+  product: ProductMetadata;
+  score: number;
+}
+
+let documents: IndexedDocument[] = [];
+let documentFrequencies = new Map<string, number>();
+let averageLength = 0;
+
+const indexDocument = (product: ProductMetadata): IndexedDocument => {
+  const termFrequencies = new Map<string, number>();
+  let length = 0;
+
+  const addField = (text: string | undefined, weight: number) => {
+    if (!text) return;
+    tokenize(text).forEach((token) => {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + weight);
+      length += weight;
+    });
+  };
+
+  addField(product.title, FIELD_WEIGHTS.title);
+  addField(product.brand, FIELD_WEIGHTS.brand);
+  addField((product.categories || []).join(' '), FIELD_WEIGHTS.categories);
+  addField(product.search_text, FIELD_WEIGHTS.search_text);
+
+  return { product, termFrequencies, length };
+};
+
+const buildIndex = (products: ProductMetadata[]): void => {
+  const docs = products.map(indexDocument);
+  const frequencies = new Map<string, number>();
+
+  docs.forEach((doc) => {
+    doc.termFrequencies.forEach((_tf, term) => {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    });
+  });
+
+  documents = docs;
+  documentFrequencies = frequencies;
+  averageLength = docs.length > 0 ? docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length : 0;
+
+  console.log(`🔤 Ключовий індекс: ${docs.length} документів, ${frequencies.size} термінів`);
+};
+
+onCatalogRefresh(buildIndex);
+
+const inverseDocumentFrequency = (term: string): number => {
+  const df = documentFrequencies.get(term) || 0;
+  return Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+};
+
+/**
+ * Ключовий пошук BM25 по title, brand, categories та search_text
+ */
+export const searchKeywords = async (
+  query: string,
+  limit: number,
+  predicate?: (product: ProductMetadata) => boolean
+): Promise<KeywordMatch[]> => {
+  await getCatalogProducts();
+
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0 || documents.length === 0) {
+    return [];
+  }
+
+  const idf = new Map(terms.map((term) => [term, inverseDocumentFrequency(term)]));
+  const matches: KeywordMatch[] = [];
+
+  documents.forEach((doc) => {
+    if (predicate && !predicate(doc.product)) {
+      return;
+    }
+
+    let score = 0;
+    terms.forEach((term) => {
+      const tf = doc.termFrequencies.get(term);
+      if (!tf) return;
+
+      const normalization = BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / (averageLength || 1));
+      score += idf.get(term)! * ((tf * (BM25_K1 + 1)) / (tf + normalization));
+    });
+
+    if (score > 0) {
+      matches.push({ product: doc.product, score });
+    }
+  });
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+};
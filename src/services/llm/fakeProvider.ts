@@ -0,0 +1,159 @@
+import { readFileSync } from 'fs';
+import { CompletionOptions, LlmMessage, LlmProvider } from '../../types/llm';
+
+/**
+ * Правило фейкового провайдера: якщо текст повідомлень відповідає match - повертаємо response
+ */
+export interface FakeCompletionRule {
+  match: RegExp | ((messages: LlmMessage[]) => boolean);
+  response: string | ((messages: LlmMessage[]) => string);
+  once?: boolean; // видалити правило після першого спрацювання
+}
+
+/**
+ * Зафіксований виклик (для перевірок у тестах)
+ */
+export interface FakeCompletionCall {
+  messages: LlmMessage[];
+  options: CompletionOptions;
+  response: string;
+}
+
+/**
+ * Фейковий провайдер з керованими відповідями
+ */
+export interface FakeLlmProvider extends LlmProvider {
+  enqueue(...responses: string[]): void;
+  when(rule: FakeCompletionRule): void;
+  reset(): void;
+  readonly calls: FakeCompletionCall[];
+}
+
+/**
+ * Відповідь за замовчуванням: валідний JSON, який розуміють і аналіз наміру, і генерація відповіді
+ */
+const DEFAULT_RESPONSE = JSON.stringify({
+  message: 'Тестова відповідь консультанта',
+  products: [],
+});
+
+/**
+ * FNV-1a 32-bit хеш
+ */
+const fnv1a = (text: string, seed: number = 0x811c9dc5): number => {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Детермінований embedding на основі хешування токенів (bag-of-words з випадковими знаками).
+ * Тексти зі спільними словами отримують більшу косинусну схожість
+ */
+export const hashEmbedding = (text: string, dimensions: number): number[] => {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  tokens.forEach((token) => {
+    const bucket = fnv1a(token) % dimensions;
+    const sign = fnv1a(token, 0x9747b28c) & 1 ? 1 : -1;
+    vector[bucket] += sign;
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+};
+
+/**
+ * Завантаження правил зі скрипта JSON: [{ "match": "regex", "response": "...", "once": false }]
+ */
+const loadScript = (scriptPath: string): FakeCompletionRule[] => {
+  const raw = JSON.parse(readFileSync(scriptPath, 'utf-8')) as {
+    match: string;
+    response: string;
+    once?: boolean;
+  }[];
+
+  return raw.map((rule) => ({
+    match: new RegExp(rule.match, 'i'),
+    response: rule.response,
+    once: rule.once,
+  }));
+};
+
+/**
+ * Створення фейкового провайдера (без мережі, детермінований)
+ */
+export const createFakeProvider = (
+  options: { dimensions?: number; scriptPath?: string } = {}
+): FakeLlmProvider => {
+  const dimensions = options.dimensions || 3072;
+  const queue: string[] = [];
+  let rules: FakeCompletionRule[] = options.scriptPath ? loadScript(options.scriptPath) : [];
+  const calls: FakeCompletionCall[] = [];
+
+  const resolveResponse = (messages: LlmMessage[]): string => {
+    if (queue.length > 0) {
+      return queue.shift()!;
+    }
+
+    const text = messages.map((m) => m.content).join('\n');
+    const rule = rules.find((r) => (r.match instanceof RegExp ? r.match.test(text) : r.match(messages)));
+
+    if (!rule) {
+      return DEFAULT_RESPONSE;
+    }
+
+    if (rule.once) {
+      rules = rules.filter((r) => r !== rule);
+    }
+
+    return typeof rule.response === 'function' ? rule.response(messages) : rule.response;
+  };
+
+  return {
+    name: 'fake',
+    calls,
+
+    async complete(messages: LlmMessage[], completionOptions: CompletionOptions): Promise<string> {
+      const response = resolveResponse(messages);
+      calls.push({ messages, options: completionOptions, response });
+      return response;
+    },
+
+    // Відповідь віддається по словах, як потокова генерація
+    async *stream(messages: LlmMessage[], completionOptions: CompletionOptions): AsyncIterable<string> {
+      const response = resolveResponse(messages);
+      calls.push({ messages, options: completionOptions, response });
+
+      for (const chunk of response.match(/\s*\S+/g) || []) {
+        yield chunk;
+      }
+    },
+
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map((text) => hashEmbedding(text, dimensions));
+    },
+
+    async healthCheck(): Promise<boolean> {
+      return true;
+    },
+
+    enqueue(...responses: string[]): void {
+      queue.push(...responses);
+    },
+
+    when(rule: FakeCompletionRule): void {
+      rules.push(rule);
+    },
+
+    reset(): void {
+      queue.length = 0;
+      rules = [];
+      calls.length = 0;
+    },
+  };
+};
@@ -0,0 +1,76 @@
+import { getOpenAI } from '../../config/openai';
+import { CompletionOptions, LlmMessage, LlmProvider } from '../../types/llm';
+
+/**
+ * Провайдер на базі OpenAI API
+ */
+export const createOpenAIProvider = (): LlmProvider => ({
+  name: 'openai',
+
+  async complete(messages: LlmMessage[], options: CompletionOptions): Promise<string> {
+    const client = getOpenAI();
+    const response = await client.chat.completions.create({
+      model: options.model,
+      messages: messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+    });
+
+    const content = response.choices[0]?.message?.content;
+
+    if (!content) {
+      throw new Error('Отримано порожню відповідь від GPT');
+    }
+
+    return content;
+  },
+
+  async *stream(messages: LlmMessage[], options: CompletionOptions): AsyncIterable<string> {
+    const client = getOpenAI();
+    const stream = await client.chat.completions.create({
+      model: options.model,
+      messages: messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+  },
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const client = getOpenAI();
+    const response = await client.embeddings.create({
+      model: model,
+      input: texts,
+      encoding_format: 'float',
+    });
+
+    if (!response.data || response.data.length !== texts.length) {
+      throw new Error('Кількість embeddings не збігається з кількістю текстів');
+    }
+
+    // OpenAI повертає елементи з index - сортуємо для надійності
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  },
+
+  async healthCheck(model: string): Promise<boolean> {
+    const client = getOpenAI();
+
+    // Простий запит для перевірки
+    const response = await client.chat.completions.create({
+      model: model,
+      messages: [{ role: 'user', content: 'test' }],
+      max_tokens: 5,
+    });
+
+    return !!response.choices && response.choices.length > 0;
+  },
+});
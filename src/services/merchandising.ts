@@ -0,0 +1,399 @@
+import { existsSync, readFileSync } from 'fs';
+import { getVectorStore } from '../config/vectorStore';
+import { getCatalogBrands, onCatalogRefresh } from './catalog';
+import { getProductCategorySlugs } from './categoryIndex';
+import { BrandTier, canonicalBrandName, getBrandTier, getBrandsByTier, matchCatalogBrands } from '../utils/brandRegistry';
+import { buildMetadataFilter } from '../utils/searchFilters';
+import { hasDietaryTags } from '../utils/dietaryTags';
+import { normalizeText } from '../utils/textNormalization';
+import { describeValueMetrics, sortByBestValue } from '../utils/valueMetrics';
+import { MetadataFilter } from '../types/vectorStore';
+import { RankingTraceEntry, SearchFilters, SearchMatch, SortOrder } from '../types/product';
+
+/**
+ * Правила мерчандайзингу: підсилення (boosts), закріплені позиції (pins), ліміти брендів,
+ * гарантований товар власного бренду, заблоковані товари та перевизначення для категорій.
+ * Файл - MERCHANDISING_RULES_PATH, за замовчуванням ./data/merchandising.json.
+ * Кожен результат отримує trace - пояснення, чому він стоїть на своїй позиції
+ */
+
+/**
+ * Умова правила: усі вказані поля мають збігатися
+ */
+export interface RuleCondition {
+  brands?: string[]; // будь-який варіант назви з реєстру брендів
+  brandTiers?: BrandTier[];
+  categories?: string[]; // slug категорії (разом з підкатегоріями)
+  productIds?: string[]; // ID або артикул
+  queries?: string[]; // фрагменти пошукового запиту
+}
+
+export interface BoostRule {
+  name: string;
+  when: RuleCondition;
+  boost: number; // додається до нормалізованої релевантності (0..1)
+  note?: string;
+}
+
+export interface PinRule {
+  productId: string; // ID або артикул
+  position: number; // з 1
+  queries?: string[];
+}
+
+/**
+ * Гарантовані товари на перших позиціях (наприклад, один товар власного бренду).
+ * Якщо серед результатів таких немає, вони шукаються окремо за вектором запиту
+ */
+export interface FeaturedRule {
+  brands?: string[];
+  brandTiers?: BrandTier[];
+  count: number;
+  minScore?: number; // мінімальна векторна схожість товару, знайденого окремо; без нього - тільки серед результатів
+}
+
+export interface MerchandisingRules {
+  featured: FeaturedRule | null;
+  boosts: BoostRule[];
+  tierCaps: Partial<Record<BrandTier, number>>;
+  brandCaps: Record<string, number>; // канонічна назва бренду або "*" для всіх
+  pins: PinRule[];
+  blocked: string[]; // ID або артикули
+}
+
+/**
+ * Перевизначення для категорії: boosts, pins та blocked додаються до загальних, решта - замінює
+ */
+export type CategoryOverride = Partial<MerchandisingRules>;
+
+interface MerchandisingConfig extends MerchandisingRules {
+  categories: Record<string, CategoryOverride>;
+}
+
+/**
+ * Контекст ранжування: категорія сторінки, пошуковий запит, кількість результатів, порядок сортування.
+ * vector та filters - для окремого пошуку гарантованих товарів (embedding запиту та фільтри пошуку)
+ */
+export interface MerchandisingContext {
+  category?: string;
+  query?: string;
+  limit?: number;
+  sort?: SortOrder; // best_value - за вигідністю замість релевантності (featured, ліміти та pins діють поверх)
+  vector?: number[];
+  filters?: SearchFilters;
+}
+
+const EMPTY_CONFIG: MerchandisingConfig = {
+  featured: null,
+  boosts: [],
+  tierCaps: {},
+  brandCaps: {},
+  pins: [],
+  blocked: [],
+  categories: {},
+};
+
+let config: MerchandisingConfig | null = null;
+
+const loadRules = (): MerchandisingConfig => {
+  const rulesPath = process.env.MERCHANDISING_RULES_PATH || './data/merchandising.json';
+
+  if (!existsSync(rulesPath)) {
+    console.warn(`⚠️ Правила мерчандайзингу не знайдено: ${rulesPath}`);
+    return EMPTY_CONFIG;
+  }
+
+  try {
+    const raw = JSON.parse(readFileSync(rulesPath, 'utf-8')) as Partial<MerchandisingConfig>;
+    const loaded: MerchandisingConfig = {
+      featured: raw.featured && raw.featured.count > 0 ? raw.featured : null,
+      boosts: (raw.boosts || []).filter((rule) => {
+        const valid = !!rule.when && typeof rule.boost === 'number';
+        if (!valid) console.warn(`⚠️ Некоректне правило boost в ${rulesPath}:`, rule);
+        return valid;
+      }),
+      tierCaps: raw.tierCaps || {},
+      brandCaps: raw.brandCaps || {},
+      pins: (raw.pins || []).filter((pin) => !!pin.productId && pin.position >= 1),
+      blocked: raw.blocked || [],
+      categories: raw.categories || {},
+    };
+
+    console.log(
+      `🛒 Правила мерчандайзингу: ${loaded.boosts.length} boosts, ${loaded.pins.length} pins, ` +
+      `${loaded.blocked.length} заблоковано, ${Object.keys(loaded.categories).length} категорій`
+    );
+    return loaded;
+  } catch (error) {
+    console.error(`❌ Помилка читання ${rulesPath}:`, error);
+    return EMPTY_CONFIG;
+  }
+};
+
+const getConfig = (): MerchandisingConfig => {
+  if (!config) {
+    config = loadRules();
+  }
+  return config;
+};
+
+/**
+ * Перечитування правил (разом з оновленням каталогу)
+ */
+export const reloadMerchandisingRules = (): void => {
+  config = loadRules();
+};
+
+onCatalogRefresh(reloadMerchandisingRules);
+
+/**
+ * Правила з урахуванням перевизначень категорії
+ */
+const resolveRules = (category: string | undefined): MerchandisingRules => {
+  const { categories, ...rules } = getConfig();
+  const override = category ? categories[category] : undefined;
+  if (!override) {
+    return rules;
+  }
+
+  return {
+    featured: override.featured !== undefined ? override.featured : rules.featured,
+    boosts: [...rules.boosts, ...(override.boosts || [])],
+    tierCaps: override.tierCaps || rules.tierCaps,
+    brandCaps: override.brandCaps || rules.brandCaps,
+    pins: [...rules.pins, ...(override.pins || [])],
+    blocked: [...rules.blocked, ...(override.blocked || [])],
+  };
+};
+
+/**
+ * Категорія з перевизначенням: явна з контексту, інакше - найглибша категорія найрелевантнішого товару
+ */
+const resolveCategory = (matches: SearchMatch[], context: MerchandisingContext): string | undefined => {
+  if (context.category) {
+    return context.category;
+  }
+  const { categories } = getConfig();
+  if (matches.length === 0 || Object.keys(categories).length === 0) {
+    return undefined;
+  }
+  return getProductCategorySlugs(matches[0].id).slice().reverse().find((slug) => !!categories[slug]);
+};
+
+const matchesProductId = (match: SearchMatch, productIds: string[]): boolean =>
+  productIds.includes(match.id) || (!!match.metadata.gtin && productIds.includes(match.metadata.gtin));
+
+const matchesQuery = (query: string | undefined, fragments: string[]): boolean => {
+  const normalized = normalizeText(query || '');
+  return fragments.some((fragment) => normalized.includes(normalizeText(fragment)));
+};
+
+const matchesBrand = (match: SearchMatch, brands: string[] | undefined, tiers: BrandTier[] | undefined): boolean => {
+  const brand = canonicalBrandName(match.metadata.brand || '');
+  return (
+    (!brands || brands.some((item) => canonicalBrandName(item) === brand)) &&
+    (!tiers || tiers.includes(getBrandTier(brand)))
+  );
+};
+
+const matchesCondition = (match: SearchMatch, condition: RuleCondition, context: MerchandisingContext): boolean => {
+  if (!matchesBrand(match, condition.brands, condition.brandTiers)) return false;
+  if (condition.productIds && !matchesProductId(match, condition.productIds)) return false;
+  if (condition.queries && !matchesQuery(context.query, condition.queries)) return false;
+  if (condition.categories) {
+    const slugs = getProductCategorySlugs(match.id);
+    if (!condition.categories.some((slug) => slugs.includes(slug))) return false;
+  }
+  return true;
+};
+
+/**
+ * Канонічні назви брендів гарантованих позицій
+ */
+const getFeaturedBrands = (featured: FeaturedRule): string[] => {
+  const tierBrands = (featured.brandTiers || []).flatMap((tier) => getBrandsByTier(tier));
+  return Array.from(new Set([...(featured.brands || []).map(canonicalBrandName), ...tierBrands]));
+};
+
+/**
+ * Окремий пошук товарів гарантованих брендів, яких немає серед результатів.
+ * Фільтри запиту (бренди користувача, ціна, категорія, наявність) застосовуються і до них
+ */
+const fetchFeaturedCandidates = async (
+  featured: FeaturedRule,
+  count: number,
+  context: MerchandisingContext,
+  excluded: string[]
+): Promise<SearchMatch[]> => {
+  if (featured.minScore === undefined || !context.vector || count <= 0) {
+    return [];
+  }
+
+  try {
+    const brands = getFeaturedBrands(featured);
+    console.log(`🎯 Пошук товарів гарантованих брендів ${brands.join('/')}...`);
+
+    const catalogBrands = await getCatalogBrands();
+    const extraFilter = buildMetadataFilter(context.filters);
+    const withBrand = (brand: string): MetadataFilter => {
+      // Бренд може бути записаний у каталозі інакше, ніж у реєстрі ("BIOTUS")
+      const brandFilter: MetadataFilter = { brand: { $in: matchCatalogBrands([brand], catalogBrands) } };
+      return extraFilter ? { $and: [brandFilter, extraFilter] } : brandFilter;
+    };
+
+    // Окремий запит для кожного бренду, щоб кожен мав шанс потрапити в результати
+    const store = getVectorStore();
+    const matchesByBrand = await Promise.all(
+      brands.map((brand) => store.query({ vector: context.vector!, topK: count, filter: withBrand(brand) }))
+    );
+
+    // Дієтичні мітки перевіряємо окремо - їх немає в метаданих сховища
+    return matchesByBrand
+      .flat()
+      .filter((match) =>
+        match.score >= featured.minScore! &&
+        !matchesProductId(match, excluded) &&
+        hasDietaryTags(match.metadata, context.filters?.dietary)
+      )
+      .sort((a, b) => b.score - a.score)
+      .slice(0, count)
+      .map((match) => ({ ...match, vectorScore: match.score }));
+  } catch (error) {
+    console.error('❌ Помилка пошуку товарів гарантованих брендів:', error);
+    return [];
+  }
+};
+
+/**
+ * Виключення заблокованих товарів зі списків поза основним ранжуванням (аналоги, схожі товари)
+ */
+export const filterBlocked = <T extends SearchMatch>(matches: T[], category?: string): T[] => {
+  const { blocked } = resolveRules(resolveCategory(matches, { category }));
+  return blocked.length > 0 ? matches.filter((match) => !matchesProductId(match, blocked)) : matches;
+};
+
+/**
+ * Застосування правил до результатів пошуку: blocked -> boosts -> сортування -> featured -> ліміти брендів -> pins
+ */
+export const applyMerchandising = async (
+  matches: SearchMatch[],
+  context: MerchandisingContext = {}
+): Promise<SearchMatch[]> => {
+  const category = resolveCategory(matches, context);
+  const rules = resolveRules(category);
+  const traces = new Map<SearchMatch, RankingTraceEntry[]>();
+  const trace = (match: SearchMatch, entry: RankingTraceEntry) => traces.get(match)!.push(entry);
+
+  const allowed = matches.filter((match) => !matchesProductId(match, rules.blocked));
+  if (allowed.length < matches.length) {
+    console.log(`🚫 Заблоковано правилами: ${matches.length - allowed.length} товарів`);
+  }
+
+  // Релевантність нормалізуємо до 0..1, щоб boosts мали однаковий вплив для будь-якого типу пошуку
+  const maxScore = Math.max(0, ...allowed.map((match) => match.score || 0));
+  const scored = allowed.map((match, index) => {
+    const base = maxScore > 0 ? (match.score || 0) / maxScore : 0;
+    traces.set(match, []);
+    if (match.rerank) {
+      const { relevance, brand, availability, scorer } = match.rerank;
+      trace(match, {
+        rule: 'rerank',
+        detail: `re-ranker (${scorer}): відповідність запиту ${relevance.toFixed(2)}, бренд ${brand.toFixed(2)}, наявність ${availability}`,
+      });
+    }
+    trace(match, { rule: 'relevance', detail: `релевантність ${base.toFixed(2)}`, delta: base });
+
+    const boost = rules.boosts
+      .filter((rule) => matchesCondition(match, rule.when, context))
+      .reduce((sum, rule) => {
+        trace(match, { rule: `boost:${rule.name}`, detail: rule.note || rule.name, delta: rule.boost });
+        return sum + rule.boost;
+      }, 0);
+
+    return { match, index, total: base + boost };
+  });
+
+  let ranked = scored
+    .sort((a, b) => b.total - a.total || a.index - b.index)
+    .map(({ match }) => match);
+
+  // Сортування за вигідністю стабільне: при однаковій вигідності зберігається порядок релевантності та boosts
+  if (context.sort === 'best_value') {
+    const byId = new Map(ranked.map((match) => [match.id, match]));
+    ranked = sortByBestValue(ranked).map((sorted) => {
+      const match = byId.get(sorted.id)!;
+      const value = describeValueMetrics(match.metadata, sorted.value);
+      trace(match, { rule: 'sort:best_value', detail: value ? `вигідність: ${value}` : 'вигідність невідома' });
+      return match;
+    });
+  }
+
+  // Гарантовані позиції: найкращі товари вказаних брендів - на початок
+  if (rules.featured) {
+    const { brands, brandTiers, count } = rules.featured;
+    const featured = ranked.filter((match) => matchesBrand(match, brands, brandTiers)).slice(0, count);
+    featured.forEach((match, index) => trace(match, { rule: 'featured', detail: `гарантована позиція ${index + 1}` }));
+
+    const fetched = await fetchFeaturedCandidates(rules.featured, count - featured.length, context, [
+      ...matches.map((match) => match.id),
+      ...rules.blocked,
+    ]);
+    fetched.forEach((match, index) => {
+      traces.set(match, []);
+      trace(match, {
+        rule: 'featured',
+        detail: `гарантована позиція ${featured.length + index + 1}, знайдено окремо (схожість ${match.score.toFixed(2)})`,
+      });
+    });
+
+    ranked = [...featured, ...fetched, ...ranked.filter((match) => !featured.includes(match))];
+  }
+
+  // Ліміти брендів: зайві товари бренду переносяться в кінець списку
+  const tierCounts = new Map<BrandTier, number>();
+  const brandCounts = new Map<string, number>();
+  const kept: SearchMatch[] = [];
+  const demoted: SearchMatch[] = [];
+
+  ranked.forEach((match) => {
+    const brand = canonicalBrandName(match.metadata.brand || '');
+    const tier = getBrandTier(brand);
+    const tierCap = rules.tierCaps[tier];
+    const brandCap = rules.brandCaps[brand] ?? rules.brandCaps['*'];
+    const tierCount = (tierCounts.get(tier) || 0) + 1;
+    const brandCount = (brandCounts.get(brand) || 0) + 1;
+
+    if (tierCap !== undefined && tierCount > tierCap) {
+      trace(match, { rule: 'cap:tier', detail: `ліміт брендів рівня ${tier}: ${tierCap}` });
+      demoted.push(match);
+    } else if (brandCap !== undefined && brandCount > brandCap) {
+      trace(match, { rule: 'cap:brand', detail: `ліміт бренду ${brand}: ${brandCap}` });
+      demoted.push(match);
+    } else {
+      tierCounts.set(tier, tierCount);
+      brandCounts.set(brand, brandCount);
+      kept.push(match);
+    }
+  });
+  ranked = [...kept, ...demoted];
+
+  // Закріплені позиції (застосовуються до товарів, які є серед результатів)
+  rules.pins
+    .filter((pin) => !pin.queries || matchesQuery(context.query, pin.queries))
+    .sort((a, b) => a.position - b.position)
+    .forEach((pin) => {
+      const pinned = ranked.find((match) => matchesProductId(match, [pin.productId]));
+      if (!pinned) return;
+
+      ranked = ranked.filter((match) => match !== pinned);
+      ranked.splice(Math.min(pin.position - 1, ranked.length), 0, pinned);
+      trace(pinned, { rule: 'pin', detail: `закріплено на позиції ${pin.position}` });
+    });
+
+  if (category && getConfig().categories[category]) {
+    ranked.forEach((match) => trace(match, { rule: 'category', detail: `правила категорії ${category}` }));
+  }
+
+  const limited = context.limit !== undefined ? ranked.slice(0, context.limit) : ranked;
+  return limited.map((match) => ({ ...match, trace: traces.get(match)! }));
+};
@@ -0,0 +1,60 @@
+import { getProductById, searchSimilarProducts } from './vectorSearch';
+import { lookupArticle } from './articleIndex';
+import { getProductAttributes } from '../utils/productAttributes';
+import { getDietaryTags } from '../utils/dietaryTags';
+import { ProductDetails, ProductMetadata, SearchMatch } from '../types/product';
+
+/**
+ * Дані для сторінки товару: повні метадані, атрибути та схожі товари
+ */
+
+/**
+ * Кількість схожих товарів на сторінці товару
+ */
+const SIMILAR_PRODUCTS_LIMIT = 6;
+
+export interface ProductDetailsResult {
+  product: ProductDetails;
+  similar: SearchMatch[];
+}
+
+/**
+ * Товар зі структурованими атрибутами (інгредієнти, дозування, форма, фасування) та дієтичними мітками
+ */
+export const toProductDetails = (metadata: ProductMetadata): ProductDetails => ({
+  ...metadata,
+  attributes: getProductAttributes(metadata),
+  dietary: getDietaryTags(metadata),
+});
+
+/**
+ * Деталі товару за ID (схожі товари - за збереженим вектором товару)
+ */
+export const getProductDetails = async (productId: string): Promise<ProductDetailsResult | null> => {
+  const match = await getProductById(productId);
+
+  if (!match) {
+    return null;
+  }
+
+  const similar = await searchSimilarProducts(match.id, SIMILAR_PRODUCTS_LIMIT);
+
+  return {
+    product: toProductDetails(match.metadata),
+    similar,
+  };
+};
+
+/**
+ * Деталі товару за артикулом або штрихкодом
+ */
+export const getProductDetailsByArticle = async (gtin: string): Promise<ProductDetailsResult | null> => {
+  const product = await lookupArticle(gtin);
+
+  if (!product) {
+    console.log(`❌ Товар з артикулом "${gtin}" не знайдено`);
+    return null;
+  }
+
+  return getProductDetails(product.id);
+};
@@ -0,0 +1,262 @@
+import { getCatalogProducts, onCatalogRefresh } from './catalog';
+import { normalizeText, tokenize } from '../utils/textNormalization';
+import { INGREDIENT_NAMES } from '../utils/productAttributes';
+import { ProductMetadata } from '../types/product';
+
+/**
+ * Нормалізація запиту перед пошуком: визначення мови, виправлення помилок за словником каталогу
+ * ("кологен" -> "колаген"), латинізація вітамінів ("д3" -> "D3") та розширення синонімами
+ * (B6 <-> піридоксин, D3 <-> холекальциферол)
+ */
+
+export type QueryLanguage = 'uk' | 'ru' | 'en' | 'mixed' | 'unknown';
+
+/**
+ * Результат нормалізації запиту
+ */
+export interface NormalizedQuery {
+  original: string;
+  text: string; // запит для embedding та ключового пошуку
+  corrected: string; // запит з виправленнями, без синонімів (для оцінки релевантності)
+  language: QueryLanguage;
+  corrections: { from: string; to: string }[];
+  synonyms: string[];
+}
+
+/**
+ * Групи синонімів: будь-який термін групи додає до запиту решту
+ */
+const SYNONYM_GROUPS: string[][] = [
+  ['B1', 'тіамін', 'thiamine'],
+  ['B2', 'рибофлавін', 'riboflavin'],
+  ['B3', 'ніацин', 'niacin'],
+  ['B6', 'піридоксин', 'pyridoxine'],
+  ['B9', 'фолієва кислота', 'folic acid'],
+  ['B12', 'кобаламін', 'cobalamin'],
+  ['D3', 'холекальциферол', 'cholecalciferol'],
+  ['K2', 'менахінон', 'menaquinone'],
+];
+
+/**
+ * Кириличні позначення вітамінів з номером: "д3", "б12", "к2"
+ */
+const CYRILLIC_VITAMIN_LETTERS: Record<string, string> = { б: 'B', д: 'D', к: 'K' };
+
+/**
+ * Літери, які є тільки в українській або тільки в російській абетці
+ */
+const UKRAINIAN_LETTERS = /[іїєґ]/;
+const RUSSIAN_LETTERS = /[ыэёъ]/;
+
+/**
+ * Типові російські слова без характерних літер ("витамин", "детей")
+ */
+const RUSSIAN_WORDS = new Set([
+  'витамин', 'витамины', 'витаминов', 'детей', 'ребенка', 'женщин', 'мужчин', 'магний', 'кальций',
+  'железо', 'суставов', 'кожи', 'сна', 'что', 'или', 'нужен', 'нужно', 'посоветуйте', 'подберите',
+]);
+
+/**
+ * Суржик: змішані українсько-російські форми ("дитей" замість "дітей" / "детей")
+ */
+const SURZHYK_WORDS = new Set(['дитей', 'дитям', 'витамін', 'витаміни', 'вітамин', 'вітамины']);
+
+/**
+ * Мінімальна довжина слова, яке виправляється (короткі слова надто неоднозначні)
+ */
+const MIN_CORRECTION_LENGTH = 4;
+
+/**
+ * Допустима кількість помилок залежно від довжини слова
+ */
+const maxEditDistance = (length: number): number => (length >= 8 ? 2 : 1);
+
+interface VocabularyTerm {
+  surface: string; // написання з каталогу (нижній регістр)
+  count: number;
+}
+
+// Відомі токени (після стемінгу) - слова назв, описів, категорій
+let knownTokens = new Set<string>();
+// Кандидати для виправлення: слова назв та інгредієнтів (ключ - після normalizeText)
+let correctionTerms = new Map<string, VocabularyTerm>();
+
+const WORD_PATTERN = /[\p{L}\p{N}'’ʼ]+/gu;
+
+const addCorrectionTerms = (text: string, terms: Map<string, VocabularyTerm>): void => {
+  (text.toLowerCase().match(WORD_PATTERN) || []).forEach((word) => {
+    const key = normalizeText(word);
+    if (key.length < MIN_CORRECTION_LENGTH || !/^\p{L}+$/u.test(key)) return;
+
+    const term = terms.get(key);
+    if (term) {
+      term.count += 1;
+    } else {
+      terms.set(key, { surface: word, count: 1 });
+    }
+  });
+};
+
+const buildVocabulary = (products: ProductMetadata[]): void => {
+  const tokens = new Set<string>();
+  const terms = new Map<string, VocabularyTerm>();
+  const vocabularyTexts = [...INGREDIENT_NAMES, ...SYNONYM_GROUPS.flat()];
+
+  vocabularyTexts.forEach((text) => addCorrectionTerms(text, terms));
+  products.forEach((product) => addCorrectionTerms(product.title || '', terms));
+
+  [...vocabularyTexts, ...products.flatMap((product) => [
+    product.title,
+    product.brand,
+    (product.categories || []).join(' '),
+    product.search_text,
+  ])].forEach((text) => {
+    if (text) tokenize(text).forEach((token) => tokens.add(token));
+  });
+
+  knownTokens = tokens;
+  correctionTerms = terms;
+
+  console.log(`🔤 Словник запитів: ${tokens.size} токенів, ${terms.size} слів для виправлення`);
+};
+
+onCatalogRefresh(buildVocabulary);
+
+/**
+ * Відстань редагування з перестановками сусідніх літер (Damerau-Levenshtein, OSA)
+ */
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) {
+    return limit + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > limit) {
+      return limit + 1;
+    }
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Найближче слово словника або null, якщо слово відоме чи схожих немає
+ */
+const findCorrection = (word: string): string | null => {
+  const key = normalizeText(word);
+  if (key.length < MIN_CORRECTION_LENGTH || !/^\p{L}+$/u.test(key) || correctionTerms.has(key)) {
+    return null;
+  }
+  if (tokenize(key).every((token) => knownTokens.has(token)) || RUSSIAN_WORDS.has(word.toLowerCase())) {
+    return null;
+  }
+
+  const limit = maxEditDistance(key.length);
+  let best: VocabularyTerm | null = null;
+  let bestDistance = limit + 1;
+
+  for (const [candidate, term] of Array.from(correctionTerms.entries())) {
+    const distance = editDistance(key, candidate, limit);
+    if (distance < bestDistance || (distance === bestDistance && best && term.count > best.count)) {
+      best = term;
+      bestDistance = distance;
+    }
+  }
+
+  return best ? best.surface : null;
+};
+
+/**
+ * Визначення мови запиту: українська, російська, англійська або суміш (суржик, латиниця з кирилицею)
+ */
+export const detectQueryLanguage = (query: string): QueryLanguage => {
+  const words = query.toLowerCase().match(/\p{L}+/gu) || [];
+  // Позначення вітамінів ("D3", "B12") не вказують на мову
+  const latinWords = words.filter((word) => /^[a-z]+$/.test(word) && word.length > 1);
+  const cyrillicWords = words.filter((word) => /[а-яіїєґёыэъ]/.test(word));
+
+  const ukrainian = cyrillicWords.some((word) => UKRAINIAN_LETTERS.test(word) || /[а-я][’'ʼ][а-я]/.test(word));
+  const russian = cyrillicWords.some((word) => RUSSIAN_LETTERS.test(word) || RUSSIAN_WORDS.has(word));
+  const surzhyk = cyrillicWords.some((word) => SURZHYK_WORDS.has(word));
+
+  if (cyrillicWords.length === 0) {
+    return latinWords.length > 0 ? 'en' : 'unknown';
+  }
+  if ((ukrainian && russian) || surzhyk || latinWords.length > 0) {
+    return 'mixed';
+  }
+  return russian ? 'ru' : 'uk';
+};
+
+/**
+ * Синоніми, яких ще немає в запиті
+ */
+const findSynonyms = (tokens: Set<string>): string[] => {
+  const synonyms: string[] = [];
+  const hasTerm = (term: string) => tokenize(term).every((token) => tokens.has(token));
+
+  SYNONYM_GROUPS.forEach((group) => {
+    if (group.some(hasTerm)) {
+      group.filter((term) => !hasTerm(term)).forEach((term) => synonyms.push(term));
+    }
+  });
+
+  return synonyms;
+};
+
+/**
+ * Нормалізація запиту перед retrieval
+ */
+export const normalizeQuery = async (query: string): Promise<NormalizedQuery> => {
+  const language = detectQueryLanguage(query);
+
+  try {
+    await getCatalogProducts();
+
+    const corrections: NormalizedQuery['corrections'] = [];
+    const corrected = query.replace(WORD_PATTERN, (word) => {
+      // Кириличні позначення вітамінів: "д3" -> "D3", "б12" -> "B12"
+      const vitamin = word.toLowerCase().match(/^([бдк])(\d{1,2})$/);
+      if (vitamin) {
+        return `${CYRILLIC_VITAMIN_LETTERS[vitamin[1]]}${vitamin[2]}`;
+      }
+
+      const correction = findCorrection(word);
+      if (correction) {
+        corrections.push({ from: word, to: correction });
+        return correction;
+      }
+      return word;
+    });
+
+    const synonyms = findSynonyms(new Set(tokenize(corrected)));
+    const text = [corrected.trim(), ...synonyms].join(' ');
+
+    if (text !== query) {
+      const fixes = corrections.map(({ from, to }) => `${from}→${to}`).join(', ');
+      console.log(`🔤 Нормалізація запиту [${language}]: "${query}" → "${text}"${fixes ? ` (виправлено: ${fixes})` : ''}`);
+    }
+
+    return { original: query, text, corrected: corrected.trim(), language, corrections, synonyms };
+  } catch (error) {
+    console.warn('⚠️ Не вдалося нормалізувати запит:', error);
+    return { original: query, text: query, corrected: query, language, corrections: [], synonyms: [] };
+  }
+};
@@ -0,0 +1,228 @@
+import { generateChatResponse } from '../config/llm';
+import { detectIngredients, getProductAttributes } from '../utils/productAttributes';
+import { BrandTier, getBrandTier } from '../utils/brandRegistry';
+import { tokenize } from '../utils/textNormalization';
+import { isProductAvailable } from '../utils/validation';
+import { RERANK_PROMPT } from '../utils/prompts';
+import { ProductMetadata, RerankScore, SearchMatch } from '../types/product';
+
+/**
+ * Другий етап ранжування: кандидати після гібридного пошуку переоцінюються відносно запиту
+ * (локальний скорер або LLM, RERANKER=local | llm). Підсумковий score поєднує релевантність,
+ * політику брендів та наявність; найкраща релевантність - впевненість у результатах
+ */
+
+export type RerankerName = 'local' | 'llm';
+
+export interface RerankOptions {
+  topN?: number;
+  scorer?: RerankerName; // за замовчуванням - RERANK_CONFIG.scorer
+  vectorThreshold?: number; // косинусна схожість, з якої векторний сигнал вважається повним
+}
+
+export interface RerankResult {
+  matches: SearchMatch[];
+  confidence: number; // найкраща релевантність серед кандидатів (0..1)
+}
+
+export const RERANK_CONFIG = {
+  scorer: (process.env.RERANKER === 'llm' ? 'llm' : 'local') as RerankerName,
+  topN: parseInt(process.env.RERANK_TOP_N || '20'),
+  minRelevance: parseFloat(process.env.RERANK_MIN_RELEVANCE || '0.15'), // нижче - товар відкидається
+  lowConfidence: parseFloat(process.env.RERANK_LOW_CONFIDENCE || '0.45'), // нижче - бот просить уточнити запит
+};
+
+/**
+ * Ваги складових підсумкового score: релевантність визначальна, бренд та наявність - лише підсилення
+ */
+const SCORE_WEIGHTS = { relevance: 0.8, brand: 0.1, availability: 0.1 };
+
+/**
+ * Ваги сигналів локального скорера (враховуються тільки наявні сигнали)
+ */
+const SIGNAL_WEIGHTS = { ingredients: 0.45, lexical: 0.3, vector: 0.25 };
+
+const BRAND_TIER_SCORES: Record<BrandTier, number> = { own: 1, popular: 0.5, regular: 0 };
+
+/**
+ * Загальний інгредієнт покривається конкретним: "вітамін D" -> D3
+ */
+const INGREDIENT_VARIANTS: Record<string, string[]> = {
+  vitamin_d: ['vitamin_d3'],
+};
+
+/**
+ * Службові слова запитів, які не описують товар
+ */
+const STOP_TOKENS = new Set(tokenize(
+  'для при від проти против що щось хочу мені мне треба нужно потрібно порадьте посоветуйте ' +
+  'підберіть подберите купити який яку якийсь краще лучше найкращий добрий хороший можна'
+));
+
+const clamp = (value: number): number => Math.max(0, Math.min(1, value));
+
+interface ProductTokens {
+  primary: Set<string>; // назва, бренд, категорії
+  secondary: Set<string>; // текст для пошуку, опис
+}
+
+const productTokensCache = new WeakMap<ProductMetadata, ProductTokens>();
+
+const getProductTokens = (metadata: ProductMetadata): ProductTokens => {
+  let tokens = productTokensCache.get(metadata);
+  if (!tokens) {
+    tokens = {
+      primary: new Set(tokenize(`${metadata.title || ''} ${metadata.brand || ''} ${(metadata.categories || []).join(' ')}`)),
+      secondary: new Set(tokenize(`${metadata.search_text || ''} ${metadata.description || ''}`)),
+    };
+    productTokensCache.set(metadata, tokens);
+  }
+  return tokens;
+};
+
+/**
+ * Частка інгредієнтів запиту, які є в товарі
+ */
+const scoreIngredients = (queryIngredients: string[], metadata: ProductMetadata): number | undefined => {
+  if (queryIngredients.length === 0) {
+    return undefined;
+  }
+  const productIngredients = new Set(getProductAttributes(metadata).ingredients.map((item) => item.id));
+  const covered = queryIngredients.filter((id) =>
+    productIngredients.has(id) || (INGREDIENT_VARIANTS[id] || []).some((variant) => productIngredients.has(variant))
+  );
+  return covered.length / queryIngredients.length;
+};
+
+/**
+ * Покриття слів запиту: збіг у назві/бренді/категорії - повний, в описі - половинний
+ */
+const scoreLexical = (queryTokens: string[], metadata: ProductMetadata): number | undefined => {
+  if (queryTokens.length === 0) {
+    return undefined;
+  }
+  const { primary, secondary } = getProductTokens(metadata);
+  const covered = queryTokens.reduce(
+    (sum, token) => sum + (primary.has(token) ? 1 : secondary.has(token) ? 0.5 : 0),
+    0
+  );
+  return covered / queryTokens.length;
+};
+
+/**
+ * Локальна релевантність: зважене середнє інгредієнтів, слів запиту та векторної схожості
+ */
+const scoreLocally = (query: string, matches: SearchMatch[], vectorThreshold: number): number[] => {
+  const queryIngredients = detectIngredients(query).map((item) => item.id);
+  const queryTokens = Array.from(new Set(tokenize(query))).filter((token) => !STOP_TOKENS.has(token));
+
+  return matches.map((match) => {
+    const signals: [number, number | undefined][] = [
+      [SIGNAL_WEIGHTS.ingredients, scoreIngredients(queryIngredients, match.metadata)],
+      [SIGNAL_WEIGHTS.lexical, scoreLexical(queryTokens, match.metadata)],
+      [SIGNAL_WEIGHTS.vector, match.vectorScore !== undefined ? clamp(match.vectorScore / vectorThreshold) : undefined],
+    ];
+    const present = signals.filter((signal): signal is [number, number] => signal[1] !== undefined);
+    const totalWeight = present.reduce((sum, [weight]) => sum + weight, 0);
+
+    return totalWeight > 0 ? present.reduce((sum, [weight, value]) => sum + weight * value, 0) / totalWeight : 0;
+  });
+};
+
+/**
+ * Релевантність від LLM: JSON {"scores": [{"id": "...", "score": 0..1}]}
+ */
+const scoreWithLlm = async (query: string, matches: SearchMatch[]): Promise<number[]> => {
+  const candidates = matches
+    .map((match) => `${match.id} | ${match.metadata.brand} | ${match.metadata.title} | ${match.metadata.category_main || ''}`)
+    .join('\n');
+
+  const response = await generateChatResponse(
+    [
+      { role: 'system', content: RERANK_PROMPT },
+      { role: 'user', content: `ЗАПИТ: ${query}\n\nТОВАРИ (id | бренд | назва | категорія):\n${candidates}` },
+    ],
+    0,
+    800
+  );
+
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('LLM не повернула JSON з оцінками');
+  }
+
+  const scores = new Map<string, number>();
+  const parsed = JSON.parse(jsonMatch[0]) as { scores?: { id: string; score: number }[] };
+  (parsed.scores || []).forEach((item) => {
+    if (item && typeof item.score === 'number') scores.set(String(item.id), clamp(item.score));
+  });
+
+  if (scores.size === 0) {
+    throw new Error('LLM не оцінила жодного товару');
+  }
+
+  return matches.map((match) => scores.get(match.id) ?? 0);
+};
+
+/**
+ * Переоцінка кандидатів: top N за попереднім порядком, сортування за підсумковим score,
+ * нерелевантні (нижче RERANK_MIN_RELEVANCE) відкидаються
+ */
+export const rerankCandidates = async (
+  query: string,
+  matches: SearchMatch[],
+  options: RerankOptions = {}
+): Promise<RerankResult> => {
+  const candidates = matches.slice(0, options.topN ?? RERANK_CONFIG.topN);
+  if (candidates.length === 0) {
+    return { matches: [], confidence: 0 };
+  }
+
+  const vectorThreshold = options.vectorThreshold || 1;
+  let scorer = options.scorer || RERANK_CONFIG.scorer;
+  let relevance: number[];
+
+  if (scorer === 'llm') {
+    try {
+      relevance = await scoreWithLlm(query, candidates);
+    } catch (error) {
+      console.warn('⚠️ LLM re-ranker недоступний, використовуємо локальний:', error);
+      scorer = 'local';
+      relevance = scoreLocally(query, candidates, vectorThreshold);
+    }
+  } else {
+    relevance = scoreLocally(query, candidates, vectorThreshold);
+  }
+
+  const reranked = candidates
+    .map((match, index) => {
+      const rerank: RerankScore = {
+        relevance: relevance[index],
+        brand: BRAND_TIER_SCORES[getBrandTier(match.metadata.brand)],
+        availability: isProductAvailable(match.metadata) ? 1 : 0,
+        score: 0,
+        scorer,
+      };
+      rerank.score =
+        SCORE_WEIGHTS.relevance * rerank.relevance +
+        SCORE_WEIGHTS.brand * rerank.brand +
+        SCORE_WEIGHTS.availability * rerank.availability;
+
+      return { ...match, score: rerank.score, rerank };
+    })
+    .filter((match) => match.rerank.relevance >= RERANK_CONFIG.minRelevance)
+    .sort((a, b) => b.score - a.score);
+
+  const confidence = Math.max(0, ...reranked.map((match) => match.rerank.relevance));
+
+  console.log(
+    `🎚️ Re-ranker (${scorer}): ${reranked.length}/${candidates.length} релевантних, впевненість ${confidence.toFixed(2)}`
+  );
+
+  return { matches: reranked, confidence };
+};
+
+/**
+ * Чи достатньо впевненості, щоб показувати результати без уточнення запиту
+ */
+export const isLowConfidence = (confidence: number): boolean => confidence < RERANK_CONFIG.lowConfidence;
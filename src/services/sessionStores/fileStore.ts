@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ConversationHistory } from '../../types/product';
+import { SessionRecord, SessionStore } from '../../types/sessionStore';
+import { fromSessionRecord, isSessionExpired, toSessionRecord } from './sessionRecord';
+
+/**
+ * Безпечне ім'я файлу сесії (ID сесії приходить від клієнта)
+ */
+const SESSION_FILE_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Сесії у файлах: один JSON-файл на сесію в каталозі SESSION_STORE_PATH.
+ * Запис через тимчасовий файл і rename, щоб перерваний запис не пошкодив сесію
+ */
+export const createFileSessionStore = (directory: string): SessionStore => {
+  let ready: Promise<void> | null = null;
+
+  const ensureDirectory = (): Promise<void> => {
+    if (!ready) {
+      ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+    }
+    return ready;
+  };
+
+  const filePath = (sessionId: string): string | null =>
+    SESSION_FILE_PATTERN.test(sessionId) ? path.join(directory, `${sessionId}.json`) : null;
+
+  const readRecord = async (file: string): Promise<SessionRecord | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8')) as SessionRecord;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      console.warn(`⚠️ Не вдалося прочитати сесію ${file}:`, error);
+      return null;
+    }
+  };
+
+  const readAll = async (): Promise<SessionRecord[]> => {
+    await ensureDirectory();
+    const files = (await fs.readdir(directory)).filter((file) => file.endsWith('.json'));
+    const records = await Promise.all(files.map((file) => readRecord(path.join(directory, file))));
+    return records.filter((record): record is SessionRecord => !!record);
+  };
+
+  const remove = async (sessionId: string): Promise<boolean> => {
+    const file = filePath(sessionId);
+    if (!file) {
+      return false;
+    }
+    try {
+      await fs.unlink(file);
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    name: 'file',
+
+    async get(sessionId: string): Promise<ConversationHistory | null> {
+      const file = filePath(sessionId);
+      const record = file ? await readRecord(file) : null;
+      return record ? fromSessionRecord(record) : null;
+    },
+
+    async save(conversation: ConversationHistory): Promise<void> {
+      const file = filePath(conversation.sessionId);
+      if (!file) {
+        throw new Error(`Некоректний ID сесії: ${conversation.sessionId}`);
+      }
+
+      await ensureDirectory();
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(toSessionRecord(conversation)), 'utf-8');
+      await fs.rename(tempFile, file);
+    },
+
+    delete: remove,
+
+    async list(): Promise<ConversationHistory[]> {
+      return (await readAll()).map(fromSessionRecord);
+    },
+
+    async expire(maxAgeMs: number): Promise<number> {
+      const expired = (await readAll()).filter((record) => isSessionExpired(record, maxAgeMs));
+      const results = await Promise.all(expired.map((record) => remove(record.sessionId)));
+      return results.filter(Boolean).length;
+    },
+  };
+};
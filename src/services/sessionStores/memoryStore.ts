@@ -0,0 +1,43 @@
+import { ConversationHistory } from '../../types/product';
+import { SessionRecord, SessionStore } from '../../types/sessionStore';
+import { fromSessionRecord, isSessionExpired, toSessionRecord } from './sessionRecord';
+
+/**
+ * Сесії в пам'яті процесу (втрачаються при перезапуску).
+ * Зберігаються копії, тому поведінка збігається з файловим сховищем та Redis: зміни видно лише після save
+ */
+export const createMemorySessionStore = (): SessionStore => {
+  const records = new Map<string, SessionRecord>();
+
+  return {
+    name: 'memory',
+
+    async get(sessionId: string): Promise<ConversationHistory | null> {
+      const record = records.get(sessionId);
+      return record ? fromSessionRecord(record) : null;
+    },
+
+    async save(conversation: ConversationHistory): Promise<void> {
+      records.set(conversation.sessionId, toSessionRecord(conversation));
+    },
+
+    async delete(sessionId: string): Promise<boolean> {
+      return records.delete(sessionId);
+    },
+
+    async list(): Promise<ConversationHistory[]> {
+      return Array.from(records.values()).map(fromSessionRecord);
+    },
+
+    async expire(maxAgeMs: number): Promise<number> {
+      let deleted = 0;
+      records.forEach((record, sessionId) => {
+        if (isSessionExpired(record, maxAgeMs)) {
+          records.delete(sessionId);
+          deleted++;
+        }
+      });
+      return deleted;
+    },
+  };
+};
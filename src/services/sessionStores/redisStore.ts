@@ -0,0 +1,128 @@
+import { ConversationHistory } from '../../types/product';
+import { SessionRecord, SessionStore } from '../../types/sessionStore';
+import { fromSessionRecord, toSessionRecord } from './sessionRecord';
+
+/**
+ * Мінімальний інтерфейс Redis-клієнта (сумісний з ioredis та іншими клієнтами з тими ж командами)
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+  del(key: string): Promise<number>;
+  scan(cursor: string, matchOption: 'MATCH', pattern: string, countOption: 'COUNT', count: number): Promise<[string, string[]]>;
+}
+
+export interface RedisSessionStoreOptions {
+  prefix?: string;
+  ttlSeconds: number; // сесія видаляється Redis, якщо не оновлювалась ttlSeconds
+  scanCount?: number; // підказка COUNT для SCAN (ключів за одну ітерацію)
+}
+
+/**
+ * Сесії в Redis: один ключ на сесію з TTL, що продовжується при кожному збереженні
+ */
+export const createRedisSessionStore = (
+  client: RedisLikeClient,
+  { prefix = 'session:', ttlSeconds, scanCount = 100 }: RedisSessionStoreOptions
+): SessionStore => {
+  const key = (sessionId: string): string => `${prefix}${sessionId}`;
+
+  const readRecord = async (redisKey: string): Promise<SessionRecord | null> => {
+    const raw = await client.get(redisKey);
+    if (!raw) {
+      return null;
+    }
+    try {
+      return JSON.parse(raw) as SessionRecord;
+    } catch (error) {
+      console.warn(`⚠️ Пошкоджений запис сесії ${redisKey}:`, error);
+      return null;
+    }
+  };
+
+  // SCAN з курсором замість KEYS: не блокує Redis на великій кількості ключів
+  const scanKeys = async (): Promise<string[]> => {
+    const keys = new Set<string>();
+    let cursor = '0';
+    do {
+      const [nextCursor, batch] = await client.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', scanCount);
+      batch.forEach((redisKey) => keys.add(redisKey));
+      cursor = nextCursor;
+    } while (cursor !== '0');
+    return Array.from(keys);
+  };
+
+  const readAll = async (): Promise<SessionRecord[]> => {
+    const records = await Promise.all((await scanKeys()).map(readRecord));
+    return records.filter((record): record is SessionRecord => !!record);
+  };
+
+  return {
+    name: 'redis',
+
+    async get(sessionId: string): Promise<ConversationHistory | null> {
+      const record = await readRecord(key(sessionId));
+      return record ? fromSessionRecord(record) : null;
+    },
+
+    async save(conversation: ConversationHistory): Promise<void> {
+      await client.set(key(conversation.sessionId), JSON.stringify(toSessionRecord(conversation)), 'EX', ttlSeconds);
+    },
+
+    async delete(sessionId: string): Promise<boolean> {
+      return (await client.del(key(sessionId))) > 0;
+    },
+
+    async list(): Promise<ConversationHistory[]> {
+      return (await readAll()).map(fromSessionRecord);
+    },
+
+    async expire(): Promise<number> {
+      // Застарілі сесії видаляє сам Redis за TTL ключа (продовжується при кожному save)
+      return 0;
+    },
+  };
+};
+
+/**
+ * Локальна заміна Redis у пам'яті процесу (REDIS_URL=memory://) - для розробки та перевірки адаптера без сервера.
+ * Підтримує тільки команди RedisLikeClient; шаблон MATCH - префікс із "*" в кінці, курсор - зсув у списку ключів
+ */
+export const createLocalRedisClient = (): RedisLikeClient => {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  const read = (key: string): string | null => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry ? entry.value : null;
+  };
+
+  return {
+    async get(key: string): Promise<string | null> {
+      return read(key);
+    },
+
+    async set(key: string, value: string, _mode: 'EX', seconds: number): Promise<'OK'> {
+      entries.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+      return 'OK';
+    },
+
+    async del(key: string): Promise<number> {
+      return read(key) !== null && entries.delete(key) ? 1 : 0;
+    },
+
+    async scan(cursor: string, _matchOption: 'MATCH', pattern: string, _countOption: 'COUNT', count: number): Promise<[string, string[]]> {
+      const prefix = pattern.endsWith('*') ? pattern.slice(0, -1) : pattern;
+      const allKeys = Array.from(entries.keys());
+      const start = parseInt(cursor, 10) || 0;
+      const end = Math.min(start + count, allKeys.length);
+      const batch = allKeys.slice(start, end).filter((key) =>
+        (pattern.endsWith('*') ? key.startsWith(prefix) : key === prefix) && read(key) !== null
+      );
+      return [end >= allKeys.length ? '0' : String(end), batch];
+    },
+  };
+};
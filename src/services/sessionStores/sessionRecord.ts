@@ -0,0 +1,31 @@
+import { ConversationHistory } from '../../types/product';
+import { SessionRecord } from '../../types/sessionStore';
+
+/**
+ * Перетворення сесії в JSON-запис і назад (масиви копіюються, щоб запис не змінювався разом із сесією)
+ */
+export const toSessionRecord = (conversation: ConversationHistory): SessionRecord => ({
+  sessionId: conversation.sessionId,
+  messages: conversation.messages.map((message) => ({ ...message })),
+  createdAt: conversation.createdAt.toISOString(),
+  lastUpdatedAt: conversation.lastUpdatedAt.toISOString(),
+  shownProductIds: Array.from(conversation.shownProductIds),
+  ...(conversation.lastShownProductIds ? { lastShownProductIds: [...conversation.lastShownProductIds] } : {}),
+  ...(conversation.lastSearchQuery ? { lastSearchQuery: conversation.lastSearchQuery } : {}),
+});
+
+export const fromSessionRecord = (record: SessionRecord): ConversationHistory => ({
+  sessionId: record.sessionId,
+  messages: (record.messages || []).map((message) => ({ ...message })),
+  createdAt: new Date(record.createdAt),
+  lastUpdatedAt: new Date(record.lastUpdatedAt),
+  shownProductIds: new Set(record.shownProductIds || []),
+  ...(record.lastShownProductIds ? { lastShownProductIds: [...record.lastShownProductIds] } : {}),
+  ...(record.lastSearchQuery ? { lastSearchQuery: record.lastSearchQuery } : {}),
+});
+
+/**
+ * Чи неактивна сесія довше maxAgeMs
+ */
+export const isSessionExpired = (record: SessionRecord, maxAgeMs: number, now: number = Date.now()): boolean =>
+  now - new Date(record.lastUpdatedAt).getTime() > maxAgeMs;
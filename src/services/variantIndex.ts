@@ -0,0 +1,140 @@
+import { getCatalogProducts, onCatalogRefresh } from './catalog';
+import { brandKey, canonicalBrandName } from '../utils/brandRegistry';
+import { getProductAttributes, removePackSize } from '../utils/productAttributes';
+import { normalizeText, tokenize } from '../utils/textNormalization';
+import { isProductAvailable } from '../utils/validation';
+import { getPackUnitLabels } from '../utils/valueMetrics';
+import { ProductMetadata, ProductVariant, SearchMatch } from '../types/product';
+
+/**
+ * Групи варіантів: один товар у різних фасуваннях (60/120/240 капсул) та смаках.
+ * Ключ групи - бренд, активні інгредієнти та назва без фасування і смаку.
+ * Перебудовується при кожному оновленні каталогу
+ */
+
+const WORD_START = '(?<![\\p{L}\\p{N}])';
+
+/**
+ * Смаки: [підпис, шаблон для тексту після normalizeText]
+ */
+const FLAVORS: [string, RegExp][] = ([
+  ['без смаку', 'без\\s+смаку|без\\s+вкуса|unflavou?red'],
+  ['шоколад', 'шоколад|chocolate|cocoa'],
+  ['ваніль', 'ванил|vanilla'],
+  ['полуниця', 'полуниц|клубник|strawberr'],
+  ['банан', 'банан|banana'],
+  ['лимон', 'лимон|lemon'],
+  ['апельсин', 'апельсин|orange'],
+  ['вишня', 'вишн|cherry'],
+  ['малина', 'малин|raspberr'],
+  ['манго', 'манго|mango'],
+  ['кокос', 'кокос|coconut'],
+  ['карамель', 'карамел|caramel'],
+  ['печиво', 'печив|печен|cookie'],
+] as [string, string][]).map(([label, source]) => [label, new RegExp(`${WORD_START}(?:${source})\\p{L}*`, 'gu')]);
+
+// "зі смаком", "со вкусом", "flavor:"
+const FLAVOR_WORDS = new RegExp(`${WORD_START}(?:(?:зи|з|со|with)\\s+)?(?:смак|вкус|flavou?r)\\p{L}*:?`, 'gu');
+
+let variantIndex = new Map<string, ProductMetadata[]>();
+
+/**
+ * Смак товару з назви
+ */
+const detectFlavor = (normalizedTitle: string): string | null => {
+  const found = FLAVORS.find(([, pattern]) => normalizedTitle.search(pattern) !== -1);
+  return found ? found[0] : null;
+};
+
+/**
+ * Ключ групи варіантів: товари з однаковим ключем відрізняються тільки фасуванням або смаком
+ */
+export const getVariantGroupKey = (metadata: ProductMetadata): string => {
+  const baseTitle = FLAVORS.reduce(
+    (text, [, pattern]) => text.replace(pattern, ' '),
+    removePackSize(normalizeText(metadata.title || '')).replace(FLAVOR_WORDS, ' ')
+  );
+  const ingredients = getProductAttributes(metadata).ingredients.map((item) => item.id).sort();
+
+  return [brandKey(canonicalBrandName(metadata.brand || '')), ingredients.join(','), tokenize(baseTitle).join(' ')].join('|');
+};
+
+const buildIndex = (products: ProductMetadata[]): void => {
+  const groups = new Map<string, ProductMetadata[]>();
+
+  products.forEach((product) => {
+    const key = getVariantGroupKey(product);
+    groups.set(key, [...(groups.get(key) || []), product]);
+  });
+
+  variantIndex = groups;
+
+  const grouped = Array.from(groups.values()).filter((group) => group.length > 1);
+  console.log(`🧬 Індекс варіантів: ${grouped.length} груп з кількома фасуваннями/смаками`);
+};
+
+onCatalogRefresh(buildIndex);
+
+const toVariant = (metadata: ProductMetadata): ProductVariant => {
+  const attributes = getProductAttributes(metadata);
+  return {
+    id: metadata.id,
+    article: metadata.gtin || '',
+    title: metadata.title,
+    size: attributes.count ? `${attributes.count.value} ${getPackUnitLabels(attributes)[0]}` : null,
+    flavor: detectFlavor(normalizeText(metadata.title || '')),
+    price: metadata.price_formatted,
+    link: metadata.link,
+    available: isProductAvailable(metadata),
+  };
+};
+
+/**
+ * Порядок варіантів: за смаком, далі від меншого фасування до більшого
+ */
+const compareVariants = (a: ProductMetadata, b: ProductMetadata): number => {
+  const flavorA = detectFlavor(normalizeText(a.title || '')) || '';
+  const flavorB = detectFlavor(normalizeText(b.title || '')) || '';
+  const countA = getProductAttributes(a).count?.value || 0;
+  const countB = getProductAttributes(b).count?.value || 0;
+  return flavorA.localeCompare(flavorB) || countA - countB || (a.price || 0) - (b.price || 0);
+};
+
+/**
+ * Згортання варіантів у результатах: залишається найрелевантніший товар групи (порядок зберігається),
+ * усі фасування та смаки групи - в полі variants
+ */
+export const groupVariants = async (matches: SearchMatch[]): Promise<SearchMatch[]> => {
+  try {
+    // Гарантуємо, що каталог (а отже й індекс) завантажено
+    await getCatalogProducts();
+  } catch (error) {
+    console.warn('⚠️ Каталог недоступний, варіанти - тільки з результатів пошуку:', error);
+  }
+
+  const representatives = new Map<string, SearchMatch>();
+  const members = new Map<string, ProductMetadata[]>();
+
+  matches.forEach((match) => {
+    const key = getVariantGroupKey(match.metadata);
+    if (!representatives.has(key)) {
+      representatives.set(key, match);
+      members.set(key, []);
+    }
+    members.get(key)!.push(match.metadata);
+  });
+
+  if (representatives.size < matches.length) {
+    console.log(`🧬 Згорнуто варіанти: ${matches.length} товарів -> ${representatives.size} груп`);
+  }
+
+  return Array.from(representatives.entries()).map(([key, match]) => {
+    const group = new Map<string, ProductMetadata>();
+    [...(variantIndex.get(key) || []), ...members.get(key)!].forEach((product) => group.set(product.id, product));
+
+    if (group.size < 2) {
+      return match;
+    }
+    return { ...match, variants: Array.from(group.values()).sort(compareVariants).map(toVariant) };
+  });
+};
@@ -1,124 +1,155 @@
-import { getPineconeIndex } from '../config/pinecone';
-import { createEmbedding } from '../config/openai';
+import { getVectorStore } from '../config/vectorStore';
+import { createEmbedding } from '../config/llm';
 import {
   VectorSearchResult,
   SearchMatch,
   SearchConfig,
+  SearchFilters,
+  FusionWeights,
   ProductMetadata,
+  AvailabilityPolicy,
+  ComponentSearchResult,
 } from '../types/product';
-import {
-  hasRequiredBrand,
-  filterAvailableProducts,
-  sortProductsByRelevance,
-} from '../utils/validation';
+import { filterAvailableProducts } from '../utils/validation';
+import { lookupArticle } from './articleIndex';
+import { findCategory, getCategoryProductIds, resolveCategoryFilter } from './categoryIndex';
+import { getCatalogProducts } from './catalog';
+import { searchKeywords, KeywordMatch } from './keywordIndex';
+import { normalizeQuery } from './queryNormalization';
+import { buildMetadataFilter, matchesSearchFilters, hasActiveFilters } from '../utils/searchFilters';
+import { withValueMetrics } from '../utils/valueMetrics';
+import { hasDietaryTags } from '../utils/dietaryTags';
+import { applyMerchandising, filterBlocked } from './merchandising';
+import { applyIntentConstraints } from './constraintRanking';
+import { RERANK_CONFIG, rerankCandidates } from './reranker';
+import { groupVariants } from './variantIndex';
 
 /**
  * Конфігурація пошуку за замовчуванням
  */
 const DEFAULT_SEARCH_CONFIG: SearchConfig = {
   topK: parseInt(process.env.MAX_PRODUCTS_PER_RESPONSE || '20'), // Збільшено до 20 для більшої кількості варіантів
-  minSimilarityScore: parseFloat(process.env.SIMILARITY_THRESHOLD || '0.7'),
-  requiredBrands: ['Biotus', 'My Nutri Week'],
-  filter: {
-    availability: 'in_stock', // Новый формат для vitahub-xml
-  },
+  minSimilarityScore: parseFloat(process.env.SIMILARITY_THRESHOLD || '0.7'), // схожість, з якої векторний сигнал re-ranker повний
+  filter: {}, // Фільтри задаються запитом (ChatRequest.filters або текст повідомлення)
+  availability: process.env.AVAILABILITY_POLICY === 'any' ? 'any' : 'in_stock',
 };
 
 /**
- * Виявлення артикулу в тексті запиту
+ * У скільки разів більше векторних кандидатів брати при фільтрі за дієтичними мітками
  */
-export const extractArticleFromQuery = (query: string): string | null => {
-  // Шаблони артикулів: SOL-01701, BIO-532894, NOW-00702, тощо
-  const articlePatterns = [
-    /([A-Z]{2,4}[-\s]?\d{4,6})/gi, // SOL-01701, BIO 532894 (без \b для поддержки кириллицы)
-    /артикул[:\s]*([A-Z]{2,4}[-\s]?\d{4,6})/gi, // артикул: SOL-01701
-    /товар[:\s]+([A-Z]{2,4}[-\s]?\d{4,6})/gi, // товар SOL-01701
-    /код[:\s]+([A-Z]{2,4}[-\s]?\d{4,6})/gi, // код: SOL-01701
-  ];
-
-  for (const pattern of articlePatterns) {
-    const match = query.match(pattern);
-    if (match) {
-      // Витягуємо код (беремо перший match)
-      let article = match[0]
-        .replace(/артикул[:\s]*/gi, '')
-        .replace(/товар[:\s]*/gi, '')
-        .replace(/код[:\s]*/gi, '')
-        .trim();
-      article = article.toUpperCase().replace(/\s+/g, '-'); // Нормалізуємо: SOL 01701 -> SOL-01701
-      console.log(`🔍 Знайдено артикул в тексті "${query}": ${article}`);
-      return article;
-    }
-  }
+const DIETARY_OVERFETCH = 3;
 
-  return null;
+/**
+ * Застосування політики наявності до фільтрів.
+ * Явний inStockOnly: false з запиту дозволяє показати відсутні товари
+ */
+export const applyAvailabilityPolicy = (
+  filters: SearchFilters | undefined,
+  policy: AvailabilityPolicy = DEFAULT_SEARCH_CONFIG.availability!
+): SearchFilters => {
+  return {
+    ...filters,
+    inStockOnly: filters?.inStockOnly ?? policy === 'in_stock',
+  };
 };
 
 /**
- * Пошук товару за артикулом (gtin)
+ * Ваги гібридного пошуку для різних типів запитів
+ * (для аналогів важливіша семантика, для рекомендацій - також точні назви та бренди)
  */
-export const searchByArticle = async (article: string): Promise<SearchMatch | null> => {
-  try {
-    console.log(`🔍 Пошук товару за артикулом: "${article}"`);
-
-    const index = await getPineconeIndex();
-
-    // Генеруємо варіанти артикулу для пошуку
-    const variants = [
-      article,
-      article.replace(/-/g, ''),  // Без дефісу: SOL01701
-      article.replace(/-/g, ' '),  // З пробілом: SOL 01701
-    ];
+export const FUSION_WEIGHTS_BY_INTENT: Record<string, FusionWeights> = {
+  recommendation: { vector: 1.0, keyword: 0.8 },
+  find_similar: { vector: 1.0, keyword: 0.4 },
+  value: { vector: 1.0, keyword: 0.8 },
+  default: { vector: 1.0, keyword: 1.0 },
+};
 
-    console.log(`🔎 Шукаємо варіанти артикулу: ${variants.join(', ')}`);
+export const getFusionWeights = (searchType: string): FusionWeights => {
+  return FUSION_WEIGHTS_BY_INTENT[searchType] || FUSION_WEIGHTS_BY_INTENT.default;
+};
 
-    // Спробуємо пошук через запит з артикулом (векторний пошук)
-    // Це більш надійно, ніж dummy vector
-    const embedding = await createEmbedding(article);
+/**
+ * Константа k для reciprocal rank fusion (стандартне значення з літератури)
+ */
+const RRF_K = 60;
 
-    const searchResponse = await index.query({
-      vector: embedding,
-      topK: 100, // Збільшуємо topK для більшої вірогідності знайти товар
-      includeMetadata: true,
+/**
+ * Об'єднання векторних та ключових результатів через reciprocal rank fusion
+ */
+export const fuseRankings = (
+  vectorMatches: SearchMatch[],
+  keywordMatches: KeywordMatch[],
+  weights: FusionWeights
+): SearchMatch[] => {
+  const fused = new Map<string, SearchMatch>();
+
+  vectorMatches.forEach((match, rank) => {
+    fused.set(match.id, {
+      ...match,
+      score: weights.vector / (RRF_K + rank + 1),
+      vectorScore: match.score,
     });
+  });
 
-    console.log(`📦 Отримано ${searchResponse.matches?.length || 0} результатів для перевірки`);
-
-    // Шукаємо товар з відповідним gtin в метаданих
-    for (const variant of variants) {
-      const match = searchResponse.matches?.find(m => {
-        const metadata = m.metadata as any;
-        const productGtin = metadata.gtin?.toUpperCase() || '';
-        const variantUpper = variant.toUpperCase();
+  keywordMatches.forEach((match, rank) => {
+    const contribution = weights.keyword / (RRF_K + rank + 1);
+    const existing = fused.get(match.product.id);
 
-        // Перевіряємо точну відповідність або часткову (на випадок різних форматів)
-        return productGtin === variantUpper ||
-               productGtin.replace(/[-\s]/g, '') === variantUpper.replace(/[-\s]/g, '');
+    if (existing) {
+      existing.score += contribution;
+      existing.keywordScore = match.score;
+    } else {
+      fused.set(match.product.id, {
+        id: match.product.id,
+        score: contribution,
+        metadata: match.product,
+        keywordScore: match.score,
       });
-
-      if (match) {
-        const metadata = match.metadata as any;
-        console.log(`✅ Знайдено товар за артикулом "${variant}": ${metadata.title} (${metadata.brand})`);
-        return {
-          id: match.id,
-          score: 1.0,
-          metadata: match.metadata as unknown as ProductMetadata,
-        };
-      }
     }
+  });
 
-    console.log(`❌ Товар з артикулом "${article}" не знайдено серед ${searchResponse.matches?.length || 0} результатів`);
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+};
 
-    // Для дебагу виводимо перші 5 артикулів з результатів
-    if (searchResponse.matches && searchResponse.matches.length > 0) {
-      console.log('📋 Перші артикули в результатах:');
-      searchResponse.matches.slice(0, 5).forEach((m, i) => {
-        const meta = m.metadata as any;
-        console.log(`   ${i + 1}. ${meta.gtin || 'NO GTIN'} - ${meta.title || 'NO TITLE'}`);
-      });
+/**
+ * Ключовий пошук, що не ламає основний пошук при недоступному каталозі
+ */
+const searchKeywordsSafe = async (
+  query: string,
+  limit: number,
+  filters?: SearchFilters
+): Promise<KeywordMatch[]> => {
+  try {
+    const predicate = hasActiveFilters(filters)
+      ? (product: ProductMetadata) => matchesSearchFilters(product, filters)
+      : undefined;
+    return await searchKeywords(query, limit, predicate);
+  } catch (error) {
+    console.warn('⚠️ Ключовий пошук недоступний, використовуємо тільки векторний:', error);
+    return [];
+  }
+};
+
+/**
+ * Пошук товару за артикулом (gtin) або ID через точний індекс (без embeddings)
+ */
+export const searchByArticle = async (article: string): Promise<SearchMatch | null> => {
+  try {
+    console.log(`🔍 Пошук товару за артикулом: "${article}"`);
+
+    const product = await lookupArticle(article);
+
+    if (!product) {
+      console.log(`❌ Товар з артикулом "${article}" не знайдено в індексі артикулів`);
+      return null;
     }
 
-    return null;
+    console.log(`✅ Знайдено товар за артикулом "${article}": ${product.title} (${product.brand})`);
+    return {
+      id: product.id,
+      score: 1.0,
+      metadata: product,
+    };
   } catch (error) {
     console.error('❌ Помилка пошуку за артикулом:', error);
     return null;
@@ -126,109 +157,120 @@ export const searchByArticle = async (article: string): Promise<SearchMatch | nu
 };
 
 /**
- * Пошук товарів за векторною схожістю
+ * Пошук кількох товарів за артикулами (порядок збережено, дублікати прибрано)
+ */
+export const searchByArticles = async (articles: string[]): Promise<SearchMatch[]> => {
+  const matches = await Promise.all(articles.map((article) => searchByArticle(article)));
+  const seen = new Set<string>();
+
+  return matches.filter((match): match is SearchMatch => {
+    if (!match || seen.has(match.id)) {
+      return false;
+    }
+    seen.add(match.id);
+    return true;
+  });
+};
+
+/**
+ * Гібридний пошук товарів: векторна схожість + ключовий BM25 з reciprocal rank fusion
  */
 export const searchProducts = async (
   query: string,
   config: Partial<SearchConfig> = {}
 ): Promise<VectorSearchResult> => {
   try {
-    const searchConfig = { ...DEFAULT_SEARCH_CONFIG, ...config };
+    const mergedConfig: SearchConfig = { ...DEFAULT_SEARCH_CONFIG, ...config };
+    // Категорія з запиту (slug або назва) розв'язується деревом категорій у шлях від кореня
+    const searchConfig = {
+      ...mergedConfig,
+      filter: applyAvailabilityPolicy(await resolveCategoryFilter(mergedConfig.filter), mergedConfig.availability),
+    };
 
     console.log(`🔍 Пошук товарів за запитом: "${query}"`);
+    if (hasActiveFilters(searchConfig.filter)) {
+      console.log(`🧰 Фільтри: ${JSON.stringify(searchConfig.filter)}`);
+    }
 
-    // Створюємо embedding для запиту
-    const embedding = await createEmbedding(query);
-
-    // Отримуємо індекс Pinecone
-    const index = await getPineconeIndex();
-
-    // Виконуємо пошук (без фільтрів, так як в новому індексі немає полів status/quantity)
-    const searchResponse = await index.query({
-      vector: embedding,
-      topK: searchConfig.topK,
-      includeMetadata: true,
-      // Фильтр по availability можно добавить позже, если понадобится
-      // filter: {
-      //   availability: { $eq: 'in_stock' },
-      // },
-    });
-
-    console.log(`📦 Знайдено ${searchResponse.matches?.length || 0} товарів`);
+    // Виправлення помилок та синоніми ("кологен" -> "колаген", "д3" -> "D3 холекальциферол")
+    const { text: normalizedQuery, corrected: correctedQuery } = await normalizeQuery(query);
 
-    // Перетворюємо результати
-    const allMatches: SearchMatch[] = (searchResponse.matches || [])
-      .map((match) => ({
-        id: match.id,
-        score: match.score || 0,
-        metadata: match.metadata as unknown as ProductMetadata,
-      }));
+    // Створюємо embedding для запиту
+    const embedding = await createEmbedding(normalizedQuery);
+
+    // Дієтичні мітки перевіряються після retrieval, тому з ними беремо більше кандидатів
+    const dietary = searchConfig.filter.dietary || [];
+    const vectorTopK = dietary.length > 0 ? searchConfig.topK * DIETARY_OVERFETCH : searchConfig.topK;
+
+    // Виконуємо векторний та ключовий пошук паралельно (наявність входить у фільтр)
+    const [allMatches, keywordMatches] = await Promise.all([
+      getVectorStore()
+        .query({
+          vector: embedding,
+          topK: vectorTopK,
+          filter: buildMetadataFilter(searchConfig.filter),
+        })
+        .then((matches) => matches.filter((match) => hasDietaryTags(match.metadata, dietary))),
+      searchKeywordsSafe(normalizedQuery, searchConfig.topK, searchConfig.filter),
+    ]);
+
+    console.log(`📦 Знайдено ${allMatches.length} товарів (вектор), ${keywordMatches.length} (ключові слова)`);
 
     console.log(`📊 Scores: ${allMatches.slice(0, 5).map(m => m.score.toFixed(3)).join(', ')}`);
     if (allMatches.length > 0) {
       console.log(`📝 Перший товар: ${allMatches[0].metadata.title || 'Unknown'}`);
     }
 
-    // Фільтруємо за similarity score (знижений поріг до 0.3 для кращих результатів)
-    const minScore = Math.min(searchConfig.minSimilarityScore, 0.3);
-    console.log(`🎯 Мінімальний score: ${minScore}`);
-
-    const matches: SearchMatch[] = allMatches
-      .filter((match) => match.score && match.score >= minScore);
-
-    // Фільтруємо доступні товари
-    const availableProducts = filterAvailableProducts(matches);
-
-    // Сортуємо за релевантністю та брендом
-    const sortedProducts = sortProductsByRelevance(availableProducts);
+    // Об'єднуємо рейтинги (score стає RRF-оцінкою, вихідні оцінки зберігаються окремо).
+    // Жорсткого порогу схожості немає - нерелевантні кандидати відсіює re-ranker
+    const matches = fuseRankings(
+      allMatches,
+      keywordMatches,
+      searchConfig.fusion || FUSION_WEIGHTS_BY_INTENT.default
+    );
+    console.log(`🔀 Після fusion: ${matches.length} товарів`);
+
+    // Фільтруємо доступні товари (на випадок неповної підтримки фільтрів сховищем);
+    // на другий етап ранжування йдуть тільки top N кандидатів, решта залишається після них у порядку fusion
+    const allAvailable: SearchMatch[] = filterAvailableProducts(matches, !searchConfig.filter.inStockOnly);
+    const candidates = allAvailable.slice(0, RERANK_CONFIG.topN);
+
+    // Другий етап: переоцінка кандидатів відносно запиту (релевантність + бренд + наявність)
+    // (синоніми не оцінюються - товар не мусить містити всі назви інгредієнта)
+    const { matches: reranked, confidence } = await rerankCandidates(correctedQuery, candidates, {
+      topN: candidates.length,
+      vectorThreshold: searchConfig.minSimilarityScore,
+      scorer: searchConfig.reranker,
+    });
 
-    // Перевіряємо наявність потрібних брендів
-    const hasBrand = hasRequiredBrand(sortedProducts);
+    // Кандидати поза top N не переоцінюються: їхній RRF score нижчий за будь-який score re-ranker,
+    // тож вони йдуть після переоцінених (потрібно для великих topK, як у пошуку по каталогу)
+    const rest = allAvailable.slice(RERANK_CONFIG.topN);
 
-    // Формуємо фінальний список товарів
-    let finalProducts = sortedProducts;
+    // Фасування та смаки одного товару - одна позиція з переліком варіантів
+    const grouped = await groupVariants([...reranked, ...rest]);
 
-    if (!hasBrand) {
-      console.log('⚠️ Потрібний бренд не знайдено, шукаємо...');
-      const brandProducts = await searchRequiredBrandProducts(query, 1);
+    // Обмеження запиту (форма, дозування, аудиторія) переранжовують за score - до правил мерчандайзингу
+    const constrained = applyIntentConstraints(grouped, searchConfig.constraints);
 
-      if (brandProducts.length > 0) {
-        console.log(`✅ Знайдено товар потрібного бренду: ${brandProducts[0].metadata.brand}`);
-        // Додаємо ТІЛЬКИ 1 товар нашого бренду на початок
-        // Решту залишаємо з інших брендів
-        const otherBrandProducts = sortedProducts.slice(0, searchConfig.topK - 1);
-        finalProducts = [...brandProducts, ...otherBrandProducts];
-      } else {
-        console.warn('⚠️ Не вдалося знайти релевантні товари брендів Biotus/My Nutri Week');
-        // Якщо не знайшли наш бренд - показуємо просто топ товари інших брендів
-        finalProducts = sortedProducts.slice(0, searchConfig.topK);
-      }
-    } else {
-      console.log('✅ Потрібний бренд вже присутній в результатах');
-      // Перевіряємо, скільки товарів наших брендів у списку
-      const ourBrandCount = sortedProducts.filter(p =>
-        hasRequiredBrand([p])
-      ).length;
-
-      if (ourBrandCount > 1) {
-        console.log(`⚠️ Забагато товарів наших брендів (${ourBrandCount}), залишаємо тільки 1`);
-        // Залишаємо тільки 1 товар нашого бренду
-        const ourBrandProduct = sortedProducts.find(p => hasRequiredBrand([p]));
-        const otherProducts = sortedProducts.filter(p => !hasRequiredBrand([p]));
-        finalProducts = ourBrandProduct
-          ? [ourBrandProduct, ...otherProducts].slice(0, searchConfig.topK)
-          : sortedProducts.slice(0, searchConfig.topK);
-      } else {
-        finalProducts = sortedProducts.slice(0, searchConfig.topK);
-      }
-    }
+    // Порядок, гарантовані позиції (разом з окремим пошуком товарів гарантованих брендів) та ліміти брендів
+    // визначають правила мерчандайзингу - один раз, в кінці пошуку, щоб trace пояснював остаточну позицію
+    const finalProducts = await applyMerchandising(constrained, {
+      query,
+      category: searchConfig.category,
+      limit: searchConfig.limit ?? searchConfig.topK,
+      sort: searchConfig.sort,
+      vector: embedding,
+      filters: searchConfig.filter,
+    });
 
     console.log(`✅ Повернуто ${finalProducts.length} товарів`);
 
     return {
-      products: finalProducts,
-      hasRequiredBrand: hasRequiredBrand(finalProducts),
+      products: withValueMetrics(finalProducts),
+      hasRequiredBrand: finalProducts.some((product) => product.trace?.some((entry) => entry.rule === 'featured')),
       totalFound: finalProducts.length,
+      confidence,
     };
   } catch (error) {
     console.error('❌ Помилка векторного пошуку:', error);
@@ -236,89 +278,28 @@ export const searchProducts = async (
   }
 };
 
-/**
- * Пошук товарів обов'язкових брендів (Biotus або My Nutri Week)
- */
-export const searchRequiredBrandProducts = async (
-  query: string,
-  limit: number = 2
-): Promise<SearchMatch[]> => {
-  try {
-    console.log('🎯 Пошук товарів брендів Biotus/My Nutri Week...');
-
-    const embedding = await createEmbedding(query);
-    const index = await getPineconeIndex();
-
-    // Пошук товарів Biotus
-    const biotusSearch = await index.query({
-      vector: embedding,
-      topK: limit,
-      includeMetadata: true,
-      filter: {
-        brand: { $eq: 'Biotus' },
-      },
-    });
-
-    // Пошук товарів My Nutri Week
-    const myNutriSearch = await index.query({
-      vector: embedding,
-      topK: limit,
-      includeMetadata: true,
-      filter: {
-        brand: { $eq: 'My Nutri Week' },
-      },
-    });
-
-    // Об'єднуємо результати
-    const allMatches = [
-      ...(biotusSearch.matches || []),
-      ...(myNutriSearch.matches || []),
-    ];
-
-    // Знижуємо поріг до 0.2 для брендів, щоб знайти більше варіантів
-    const products: SearchMatch[] = allMatches
-      .filter((match) => match.score && match.score > 0.2)
-      .map((match) => ({
-        id: match.id,
-        score: match.score || 0,
-        metadata: match.metadata as unknown as ProductMetadata,
-      }))
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
-
-    console.log(`✅ Знайдено ${products.length} товарів потрібних брендів`);
-    if (products.length > 0) {
-      console.log(`   Бренди: ${products.map(p => p.metadata.brand).join(', ')}`);
-    }
-
-    return products;
-  } catch (error) {
-    console.error('❌ Помилка пошуку брендів:', error);
-    return [];
-  }
-};
-
 /**
  * Пошук схожих товарів за product_id
  */
 export const searchSimilarProducts = async (
   productId: string,
-  limit: number = 5
+  limit: number = 5,
+  availability: AvailabilityPolicy = DEFAULT_SEARCH_CONFIG.availability!
 ): Promise<SearchMatch[]> => {
   try {
     console.log(`🔗 Пошук схожих товарів для product_id: ${productId}`);
 
-    const index = await getPineconeIndex();
+    const store = getVectorStore();
 
     // Спочатку отримуємо сам товар
-    const fetchResponse = await index.fetch([productId]);
+    const records = await store.fetch([productId]);
+    const product = records[productId];
 
-    if (!fetchResponse.records || !fetchResponse.records[productId]) {
+    if (!product) {
       console.warn(`⚠️ Товар з ID ${productId} не знайдено`);
       return [];
     }
 
-    const product = fetchResponse.records[productId];
     const vector = product.values;
 
     if (!vector) {
@@ -327,21 +308,16 @@ export const searchSimilarProducts = async (
     }
 
     // Шукаємо схожі товари
-    const searchResponse = await index.query({
+    const filters = applyAvailabilityPolicy({}, availability);
+    const similarMatches = await store.query({
       vector: vector,
-      topK: limit + 1, // +1 бо сам товар теж буде в результатах
-      includeMetadata: true,
-      // Без фільтрів для vitahub-xml
+      topK: limit * 2 + 1, // +1 бо сам товар теж буде в результатах, решта - запас на заблоковані
+      filter: buildMetadataFilter(filters),
     });
 
-    // Фільтруємо сам товар з результатів
-    const matches: SearchMatch[] = (searchResponse.matches || [])
+    // Фільтруємо сам товар та заблоковані правилами мерчандайзингу
+    const matches: SearchMatch[] = filterBlocked(filterAvailableProducts(similarMatches, !filters.inStockOnly))
       .filter((match) => match.id !== productId)
-      .map((match) => ({
-        id: match.id,
-        score: match.score || 0,
-        metadata: match.metadata as unknown as ProductMetadata,
-      }))
       .slice(0, limit);
 
     console.log(`✅ Знайдено ${matches.length} схожих товарів`);
@@ -357,32 +333,28 @@ export const searchSimilarProducts = async (
  * Пошук товарів за категорією
  */
 export const searchByCategory = async (
-  category: string,
+  category: string, // slug або назва категорії
   limit: number = 10
 ): Promise<SearchMatch[]> => {
   try {
     console.log(`📂 Пошук товарів в категорії: "${category}"`);
 
-    const embedding = await createEmbedding(category);
-    const index = await getPineconeIndex();
+    const node = await findCategory(category);
+    if (!node) {
+      console.log(`❌ Категорію "${category}" не знайдено`);
+      return [];
+    }
 
-    const searchResponse = await index.query({
-      vector: embedding,
-      topK: limit,
-      includeMetadata: true,
-      // Примечание: categories теперь массив, фильтр может не работать как ожидалось
-      // filter: {
-      //   categories: { $in: [category] },
-      // },
-    });
+    // Реальна належність до категорії (разом з підкатегоріями) з дерева категорій
+    const productIds = await getCategoryProductIds(node.slug);
+    const filters = applyAvailabilityPolicy({});
+    const members: SearchMatch[] = (await getCatalogProducts())
+      .filter((product) => productIds.has(product.id) && matchesSearchFilters(product, filters))
+      .map((product) => ({ id: product.id, score: 1.0, metadata: product }));
 
-    const matches: SearchMatch[] = (searchResponse.matches || []).map((match) => ({
-      id: match.id,
-      score: match.score || 0,
-      metadata: match.metadata as unknown as ProductMetadata,
-    }));
+    const matches: SearchMatch[] = await applyMerchandising(members, { category: node.slug, limit });
 
-    console.log(`✅ Знайдено ${matches.length} товарів в категорії`);
+    console.log(`✅ Знайдено ${matches.length} товарів в категорії "${node.path.join(' > ')}"`);
 
     return matches;
   } catch (error) {
@@ -394,13 +366,16 @@ export const searchByCategory = async (
 /**
  * Отримання популярних товарів (фолбек при відсутності результатів)
  */
-export const getPopularProducts = async (limit: number = 5): Promise<SearchMatch[]> => {
+export const getPopularProducts = async (
+  limit: number = 5,
+  filters?: SearchFilters
+): Promise<SearchMatch[]> => {
   try {
     console.log('⭐ Отримання популярних товарів...');
 
     // Використовуємо загальний запит про здоров'я
     const query = 'вітаміни для здоров\'я та імунітету';
-    const result = await searchProducts(query, { topK: limit });
+    const result = await searchProducts(query, { topK: limit, filter: filters });
 
     return result.products;
   } catch (error) {
@@ -413,177 +388,23 @@ export const getPopularProducts = async (limit: number = 5): Promise<SearchMatch
  * НОВІ ФУНКЦІЇ З ПОКРАЩЕНЬ
  */
 
-/**
- * Пріоритет брендів (нова константа)
- */
-const BRAND_PRIORITY = {
-  own: ['Biotus', 'My Nutri Week'], // Власні бренди - найвищий пріоритет
-  popular: [
-    'Now Foods',
-    'Carlson Labs',
-    "Doctor's Best",
-    'Solgar',
-    "Nature's Way",
-    'Life Extension',
-    'Thorne Research',
-    "Nature's Plus",
-    'Source Naturals',
-    "Puritan's Pride",
-    'Pure Encapsulations',
-    'California Gold Nutrition',
-    'Jarrow Formulas',
-  ],
-};
-
-/**
- * Визначення пріоритету бренду (нова функція)
- */
-function getBrandPriority(brand: string): number {
-  if (BRAND_PRIORITY.own.includes(brand)) return 3; // Найвищий пріоритет
-  if (BRAND_PRIORITY.popular.includes(brand)) return 2; // Середній пріоритет
-  return 1; // Звичайний пріоритет
-}
-
-/**
- * Сортування результатів з урахуванням пріоритету брендів (нова функція)
- */
-export function sortByBrandPriority(results: SearchMatch[]): SearchMatch[] {
-  return results.sort((a, b) => {
-    const priorityA = getBrandPriority(a.metadata.brand);
-    const priorityB = getBrandPriority(b.metadata.brand);
-
-    // Спочатку по пріоритету бренду
-    if (priorityA !== priorityB) {
-      return priorityB - priorityA; // Від більшого до меншого
-    }
-
-    // Потім по score релевантності
-    return (b.score || 0) - (a.score || 0);
-  });
-}
-
-/**
- * Балансування результатів: один свій бренд + популярні + інші (нова функція)
- */
-export function balanceResults(results: SearchMatch[], limit: number = 3): SearchMatch[] {
-  const ownBrand = results.filter(r =>
-    BRAND_PRIORITY.own.includes(r.metadata.brand)
-  );
-  const popularBrands = results.filter(r =>
-    BRAND_PRIORITY.popular.includes(r.metadata.brand)
-  );
-  const otherBrands = results.filter(r =>
-    !BRAND_PRIORITY.own.includes(r.metadata.brand) &&
-    !BRAND_PRIORITY.popular.includes(r.metadata.brand)
-  );
-
-  const balanced: SearchMatch[] = [];
-
-  // Додаємо один товар свого бренду (якщо є)
-  if (ownBrand.length > 0) {
-    balanced.push(ownBrand[0]);
-  }
-
-  // Додаємо популярні бренди
-  const remainingSlots = limit - balanced.length;
-  const popularToAdd = Math.min(popularBrands.length, remainingSlots);
-  balanced.push(...popularBrands.slice(0, popularToAdd));
-
-  // Додаємо інші, якщо ще є місця
-  const stillRemaining = limit - balanced.length;
-  if (stillRemaining > 0) {
-    balanced.push(...otherBrands.slice(0, stillRemaining));
-  }
-
-  return balanced;
-}
-
-/**
- * Покращена версія пошуку схожих товарів з фільтром по ціні ±30% (нова логіка)
- */
-export const findSimilarProductsByPrice = async (
-  originalProduct: any,
-  limit: number = 5
-): Promise<SearchMatch[]> => {
-  try {
-    console.log(`🔄 Пошук аналогів для товару: ${originalProduct.title}`);
-
-    // Критерії для пошуку аналогів
-    const priceMin = originalProduct.price * 0.7; // -30%
-    const priceMax = originalProduct.price * 1.3; // +30%
-
-    const index = await getPineconeIndex();
-
-    // Формуємо запит для пошуку схожих товарів
-    const searchQuery = `${originalProduct.category_main} ${originalProduct.title}`;
-    const embedding = await createEmbedding(searchQuery);
-
-    // Шукаємо схожі товари
-    const searchResponse = await index.query({
-      vector: embedding,
-      topK: limit * 5, // Беремо більше для фільтрації
-      includeMetadata: true,
-    });
-
-    if (!searchResponse.matches || searchResponse.matches.length === 0) {
-      return [];
-    }
-
-    // Перетворюємо та фільтруємо результати
-    const allMatches: SearchMatch[] = searchResponse.matches
-      .filter((match) => {
-        const meta = match.metadata as any;
-        // Виключаємо оригінальний товар
-        if (meta.id === originalProduct.id) return false;
-        // Фільтруємо по категорії
-        if (meta.category_main !== originalProduct.category_main) return false;
-        // Фільтруємо по ціні ±30%
-        const price = meta.price || 0;
-        if (price < priceMin || price > priceMax) return false;
-        // Тільки товари в наявності
-        if (meta.availability !== 'in_stock') return false;
-        return true;
-      })
-      .map((match) => ({
-        id: match.id,
-        score: match.score || 0,
-        metadata: match.metadata as unknown as ProductMetadata,
-      }));
-
-    // Сортуємо по пріоритету брендів
-    const sorted = sortByBrandPriority(allMatches);
-
-    // Балансуємо результати
-    const balanced = balanceResults(sorted, limit);
-
-    console.log(`✅ Знайдено ${balanced.length} аналогів`);
-    return balanced;
-  } catch (error) {
-    console.error('❌ Помилка пошуку аналогів:', error);
-    return [];
-  }
-};
-
 /**
  * Отримання товару за ID (нова функція)
  */
 export const getProductById = async (productId: string): Promise<SearchMatch | null> => {
   try {
-    const index = await getPineconeIndex();
-
-    const fetchResponse = await index.fetch([productId]);
+    const records = await getVectorStore().fetch([productId]);
+    const product = records[productId];
 
-    if (!fetchResponse.records || !fetchResponse.records[productId]) {
+    if (!product) {
       console.warn(`⚠️ Товар з ID ${productId} не знайдено`);
       return null;
     }
 
-    const product = fetchResponse.records[productId];
-
     return {
       id: product.id,
       score: 1.0,
-      metadata: product.metadata as unknown as ProductMetadata,
+      metadata: product.metadata,
     };
   } catch (error) {
     console.error('❌ Помилка отримання товару за ID:', error);
@@ -592,25 +413,23 @@ export const getProductById = async (productId: string): Promise<SearchMatch | n
 };
 
 /**
- * Пошук для комплексних запитів (нова функція)
+ * Пошук для комплексних запитів: кожен компонент шукається паралельно
  * Наприклад "для імунітету" -> [vitamin d3, vitamin c, zinc]
  */
 export const searchForComplexQuery = async (
-  components: string[], // Наприклад: ['vitamin d3', 'vitamin c', 'zinc']
-  limitPerComponent: number = 3
-): Promise<{ component: string; products: SearchMatch[] }[]> => {
+  components: string[],
+  limitPerComponent: number = 3,
+  config: Partial<SearchConfig> = {}
+): Promise<ComponentSearchResult[]> => {
   try {
     console.log(`🔍 Комплексний пошук: ${components.join(', ')}`);
 
-    const results: { component: string; products: SearchMatch[] }[] = [];
-
-    for (const component of components) {
-      const searchResult = await searchProducts(component, { topK: limitPerComponent });
-      results.push({
-        component,
-        products: searchResult.products,
-      });
-    }
+    const results = await Promise.all(
+      components.map(async (component): Promise<ComponentSearchResult> => {
+        const searchResult = await searchProducts(component, { ...config, topK: limitPerComponent });
+        return { component, products: searchResult.products };
+      })
+    );
 
     console.log(`✅ Завершено комплексний пошук по ${results.length} компонентах`);
     return results;
@@ -618,4 +437,4 @@ export const searchForComplexQuery = async (
     console.error('❌ Помилка комплексного пошуку:', error);
     return [];
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs';
+import { matchesMetadataFilter } from '../../utils/metadataFilter';
+import {
+  VectorStore,
+  VectorQuery,
+  VectorQueryMatch,
+  VectorRecord,
+  VectorListPage,
+  VectorStoreStats,
+} from '../../types/vectorStore';
+
+/**
+ * Косинусна схожість двох векторів
+ */
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+/**
+ * Читання знімка: JSON-масив або NDJSON (один запис на рядок)
+ */
+const readSnapshot = async (snapshotPath: string): Promise<VectorRecord[]> => {
+  let raw: string;
+
+  try {
+    raw = await fs.readFile(snapshotPath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      console.warn(`⚠️ Знімок ${snapshotPath} не знайдено, локальне сховище порожнє`);
+      return [];
+    }
+    throw error;
+  }
+
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  if (trimmed.startsWith('[')) {
+    return JSON.parse(trimmed) as VectorRecord[];
+  }
+
+  return trimmed
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as VectorRecord);
+};
+
+const writeSnapshot = async (snapshotPath: string, records: VectorRecord[]): Promise<void> => {
+  const content = snapshotPath.endsWith('.json')
+    ? JSON.stringify(records)
+    : records.map((record) => JSON.stringify(record)).join('\n') + '\n';
+
+  await fs.writeFile(snapshotPath, content, 'utf-8');
+};
+
+/**
+ * Локальне векторне сховище з косинусною схожістю.
+ * Завантажує вектори зі знімка (JSON/NDJSON) при першому зверненні та записує зміни назад при upsert
+ */
+export const createLocalStore = (snapshotPath: string): VectorStore => {
+  let records: Map<string, VectorRecord> | null = null;
+
+  const load = async (): Promise<Map<string, VectorRecord>> => {
+    if (!records) {
+      const snapshot = await readSnapshot(snapshotPath);
+      records = new Map(snapshot.map((record) => [record.id, record]));
+      console.log(`✅ Локальне сховище: завантажено ${records.size} векторів з ${snapshotPath}`);
+    }
+    return records;
+  };
+
+  return {
+    name: 'local',
+
+    async query({ vector, topK, filter }: VectorQuery): Promise<VectorQueryMatch[]> {
+      const all = await load();
+      const matches: VectorQueryMatch[] = [];
+
+      all.forEach((record) => {
+        if (!record.values || !matchesMetadataFilter(record.metadata, filter)) {
+          return;
+        }
+
+        matches.push({
+          id: record.id,
+          score: cosineSimilarity(vector, record.values),
+          metadata: record.metadata,
+        });
+      });
+
+      return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+    },
+
+    async fetch(ids: string[]): Promise<Record<string, VectorRecord>> {
+      const all = await load();
+      const result: Record<string, VectorRecord> = {};
+
+      ids.forEach((id) => {
+        const record = all.get(id);
+        if (record) {
+          result[id] = record;
+        }
+      });
+
+      return result;
+    },
+
+    async upsert(newRecords: VectorRecord[]): Promise<void> {
+      const all = await load();
+      newRecords.forEach((record) => all.set(record.id, record));
+      await writeSnapshot(snapshotPath, Array.from(all.values()));
+    },
+
+    async list({ limit, cursor }: { limit: number; cursor?: string }): Promise<VectorListPage> {
+      const all = Array.from((await load()).values());
+      const offset = cursor ? parseInt(cursor, 10) : 0;
+      const next = offset + limit;
+
+      return {
+        records: all.slice(offset, next).map(({ id, metadata }) => ({ id, metadata })),
+        nextCursor: next < all.length ? String(next) : undefined,
+      };
+    },
+
+    async stats(): Promise<VectorStoreStats> {
+      const all = await load();
+      const first = all.values().next().value as VectorRecord | undefined;
+
+      return {
+        totalRecordCount: all.size,
+        dimension: first?.values?.length,
+      };
+    },
+  };
+};
@@ -0,0 +1,96 @@
+import { RecordMetadata } from '@pinecone-database/pinecone';
+import { getPineconeIndex } from '../../config/pinecone';
+import { ProductMetadata } from '../../types/product';
+import {
+  VectorStore,
+  VectorQuery,
+  VectorQueryMatch,
+  VectorRecord,
+  VectorListPage,
+  VectorStoreStats,
+} from '../../types/vectorStore';
+
+/**
+ * Векторне сховище на базі індексу Pinecone
+ */
+export const createPineconeStore = (): VectorStore => ({
+  name: 'pinecone',
+
+  async query({ vector, topK, filter }: VectorQuery): Promise<VectorQueryMatch[]> {
+    const index = await getPineconeIndex();
+
+    const response = await index.query({
+      vector,
+      topK,
+      includeMetadata: true,
+      ...(filter ? { filter } : {}),
+    });
+
+    return (response.matches || []).map((match) => ({
+      id: match.id,
+      score: match.score || 0,
+      metadata: match.metadata as unknown as ProductMetadata,
+    }));
+  },
+
+  async fetch(ids: string[]): Promise<Record<string, VectorRecord>> {
+    if (ids.length === 0) {
+      return {};
+    }
+
+    const index = await getPineconeIndex();
+    const response = await index.fetch(ids);
+    const records: Record<string, VectorRecord> = {};
+
+    Object.entries(response.records || {}).forEach(([id, record]) => {
+      records[id] = {
+        id: record.id,
+        values: record.values,
+        metadata: record.metadata as unknown as ProductMetadata,
+      };
+    });
+
+    return records;
+  },
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    const index = await getPineconeIndex();
+
+    await index.upsert(
+      records.map((record) => ({
+        id: record.id,
+        values: record.values || [],
+        metadata: record.metadata as unknown as RecordMetadata,
+      }))
+    );
+  },
+
+  async list({ limit, cursor }: { limit: number; cursor?: string }): Promise<VectorListPage> {
+    const index = await getPineconeIndex();
+    const page = await index.listPaginated({ limit, paginationToken: cursor });
+    const ids = (page.vectors || []).map((item) => item.id).filter((id): id is string => !!id);
+
+    const fetched = ids.length > 0 ? (await index.fetch(ids)).records || {} : {};
+
+    // Вектори не потрібні для перегляду каталогу - повертаємо тільки метадані
+    const records: VectorRecord[] = Object.values(fetched).map((record) => ({
+      id: record.id,
+      metadata: record.metadata as unknown as ProductMetadata,
+    }));
+
+    return {
+      records,
+      nextCursor: page.pagination?.next,
+    };
+  },
+
+  async stats(): Promise<VectorStoreStats> {
+    const index = await getPineconeIndex();
+    const stats = await index.describeIndexStats();
+
+    return {
+      totalRecordCount: stats.totalRecordCount || 0,
+      dimension: stats.dimension,
+    };
+  },
+});
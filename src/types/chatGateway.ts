@@ -0,0 +1,41 @@
+import { ChatRequest, ChatStreamEvent, StructuredProduct } from './product';
+
+/**
+ * Повідомлення від клієнта WebSocket-шлюзу
+ */
+export type GatewayClientMessage =
+  | { type: 'subscribe'; sessionId: string; lastSeq?: number } // підписка / відновлення після перепідключення
+  | ({ type: 'chat'; requestId?: string } & ChatRequest);
+
+/**
+ * Події, які ініціює сервер (оператор, back-office), а не запит користувача
+ */
+export type GatewayPushEvent =
+  | { event: 'operator_message'; data: { text: string; operator?: string } }
+  | { event: 'typing'; data: { isTyping: boolean; from: 'operator' | 'bot' } }
+  | { event: 'stock_alert'; data: { message: string; product: StructuredProduct } };
+
+/**
+ * Усі події сесії: потокова відповідь бота, повідомлення користувача (для інших вкладок/операторів) та push-події
+ */
+export type GatewaySessionEvent =
+  | ChatStreamEvent
+  | GatewayPushEvent
+  | { event: 'user_message'; data: { text: string } };
+
+/**
+ * Повідомлення від сервера клієнту
+ */
+export type GatewayServerMessage = GatewaySessionEvent & {
+  sessionId: string;
+  seq?: number; // номер у буфері сесії для replay; у тимчасових подій (token, typing) відсутній
+  requestId?: string; // id запиту клієнта, до якого належить подія
+  timestamp: string;
+};
+
+/**
+ * Службові відповіді шлюзу конкретному з'єднанню (не розсилаються сесії)
+ */
+export type GatewayControlMessage =
+  | { event: 'subscribed'; data: { sessionId: string; lastSeq: number; replayed: number; complete: boolean } }
+  | { event: 'error'; data: { error: string }; requestId?: string };
@@ -0,0 +1,27 @@
+/**
+ * Повідомлення для LLM
+ */
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Параметри генерації відповіді
+ */
+export interface CompletionOptions {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * Провайдер LLM та embeddings (OpenAI, фейковий для тестів тощо)
+ */
+export interface LlmProvider {
+  readonly name: string;
+  complete(messages: LlmMessage[], options: CompletionOptions): Promise<string>;
+  stream(messages: LlmMessage[], options: CompletionOptions): AsyncIterable<string>; // фрагменти відповіді по мірі генерації
+  embed(texts: string[], model: string): Promise<number[][]>;
+  healthCheck(model: string): Promise<boolean>;
+}
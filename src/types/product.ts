@@ -10,6 +10,7 @@ export interface ProductMetadata {
   category_path: string; // путь категорий
   description: string; // описание
   gtin: string; // артикул или SKU товара
+  barcode?: string; // штрихкод EAN-13/UPC (окремо від артикула)
   image_link: string; // ссылка на фото товара
   link: string; // ссылка на товар
   price: number; // цена товара
@@ -17,6 +18,13 @@ export interface ProductMetadata {
   price_formatted: string; // форматированная цена (например: "485 UAH")
   search_text: string; // текст для создания embeddings
   title: string; // название товара
+  // Атрибути, розпізнані при інжесті (плоскі поля - обмеження метаданих Pinecone)
+  attr_ingredients?: string[]; // ID активних інгредієнтів
+  attr_strengths?: string[]; // "vitamin_d3:5000:iu"
+  attr_forms?: string[];
+  attr_count?: number;
+  attr_count_unit?: string;
+  attr_serving_size?: number;
 }
 
 /**
@@ -26,6 +34,68 @@ export interface SearchMatch {
   id: string;
   score: number;
   metadata: ProductMetadata;
+  vectorScore?: number; // косинусна схожість (для дебагу гібридного пошуку)
+  keywordScore?: number; // BM25 score (для дебагу гібридного пошуку)
+  value?: ValueMetrics; // ціна за одиницю, порцію та дозу
+  rerank?: RerankScore; // оцінка другого етапу ранжування
+  variants?: ProductVariant[]; // усі фасування та смаки товару (якщо їх більше одного)
+  trace?: RankingTraceEntry[]; // чому товар на цій позиції (правила мерчандайзингу)
+}
+
+/**
+ * Варіант товару (фасування, смак) у групі однакових товарів
+ */
+export interface ProductVariant {
+  id: string;
+  article: string;
+  title: string;
+  size: string | null; // "120 капс.", "500 г"
+  flavor: string | null; // "шоколад"
+  price: string;
+  link: string;
+  available: boolean;
+}
+
+/**
+ * Оцінка re-ranker: складові та підсумковий score (усі значення 0..1)
+ */
+export interface RerankScore {
+  relevance: number; // відповідність товару запиту
+  brand: number; // політика брендів (власні > популярні > інші)
+  availability: number; // 1 - в наявності
+  score: number; // зважена сума складових
+  scorer: 'local' | 'llm';
+}
+
+/**
+ * Крок пояснення позиції товару: релевантність, boost, гарантована позиція, ліміт бренду, pin
+ */
+export interface RankingTraceEntry {
+  rule: string; // "rerank", "relevance", "boost:own-brands", "sort:best_value", "featured", "cap:brand", "pin", "category"
+  detail: string;
+  delta?: number; // внесок у score ранжування
+}
+
+/**
+ * Аналог товару з коротким описом відмінностей від оригіналу
+ */
+export interface AnalogMatch extends SearchMatch {
+  diff: string; // "Вітамін D3: та сама доза, 60 vs 120 капс., −15% за капсулу"
+}
+
+/**
+ * Товари, знайдені для одного компонента комплексного запиту
+ */
+export interface ComponentSearchResult {
+  component: string; // "вітамін D3"
+  products: SearchMatch[];
+}
+
+/**
+ * Товар, підібраний для компонента схеми прийому
+ */
+export interface RegimenMatch extends SearchMatch {
+  component: string;
 }
 
 /**
@@ -33,8 +103,9 @@ export interface SearchMatch {
  */
 export interface VectorSearchResult {
   products: SearchMatch[];
-  hasRequiredBrand: boolean;
+  hasRequiredBrand: boolean; // серед товарів є гарантована позиція (правило featured)
   totalFound: number;
+  confidence: number; // релевантність найкращого товару за оцінкою re-ranker (0..1)
 }
 
 /**
@@ -54,6 +125,7 @@ export interface ConversationHistory {
   createdAt: Date;
   lastUpdatedAt: Date;
   shownProductIds: Set<string>; // ID товарів, які вже були показані користувачу
+  lastShownProductIds?: string[]; // ID товарів з останньої відповіді (оригінали для пошуку аналогів)
   lastSearchQuery?: string; // Останній пошуковий запит для контекстних питань
 }
 
@@ -63,6 +135,21 @@ export interface ConversationHistory {
 export interface ChatRequest {
   message: string;
   sessionId?: string;
+  filters?: SearchFilters; // явні фільтри від фронтенду (мають пріоритет над текстом)
+  productId?: string; // товар, до якого шукаємо аналоги (кнопка "Аналоги" на картці товару)
+}
+
+/**
+ * Структуровані фільтри пошуку
+ */
+export interface SearchFilters {
+  brands?: string[]; // точні назви брендів
+  priceMin?: number;
+  priceMax?: number;
+  category?: string; // slug або назва категорії з дерева категорій
+  categoryPath?: string[]; // шлях категорії від кореня, розв'язаний з category деревом категорій
+  inStockOnly?: boolean;
+  dietary?: DietaryTag[]; // товар повинен мати всі мітки
 }
 
 /**
@@ -77,6 +164,10 @@ export interface StructuredProduct {
   image: string;
   link: string;
   reason: string;
+  diff?: string; // відмінності від оригіналу (для аналогів)
+  unitPrice?: string; // ціна за одиницю фасування: "4,04 грн/капс."
+  dietary?: DietaryTagMatch[]; // чому товар відповідає дієтичним вимогам запиту
+  variants?: ProductVariant[]; // інші фасування та смаки цього товару
 }
 
 /**
@@ -91,6 +182,31 @@ export interface ChatResponse {
     reason?: string;
   };
   products?: StructuredProduct[] | null; // Додано структуровані товари
+  outOfStockRequested?: boolean; // запитаного за артикулом товару немає в наявності (додано аналоги)
+  outOfStockProductIds?: string[];
+  analogsFor?: string; // ID товару, до якого підібрано аналоги
+  regimen?: RegimenSection[]; // схема з кількох компонентів: один товар на компонент
+  confidence?: number; // впевненість у підборі (0..1), низька - бот просить уточнити запит
+}
+
+/**
+ * Подія потокової відповіді чату (POST /chat/stream): намір, знайдені товари, фрагменти тексту, підсумок
+ */
+export type ChatStreamEvent =
+  | { event: 'intent'; data: { sessionId: string; searchType: UserIntent['searchType']; searchQuery: string } }
+  | { event: 'products'; data: { sessionId: string; products: StructuredProduct[]; productsFound: number } }
+  | { event: 'token'; data: { text: string } }
+  | { event: 'done'; data: ChatResponse }
+  | { event: 'error'; data: { error: string } };
+
+export type ChatStreamListener = (event: ChatStreamEvent) => void;
+
+/**
+ * Секція схеми прийому: компонент і підібраний для нього товар
+ */
+export interface RegimenSection {
+  component: string;
+  product: StructuredProduct;
 }
 
 /**
@@ -108,10 +224,172 @@ export interface RelevanceValidation {
 export interface SearchConfig {
   topK: number;
   minSimilarityScore: number;
-  requiredBrands: string[];
-  filter?: {
-    availability?: string; // например: "in_stock"
-  };
+  fusion?: FusionWeights;
+  filter?: SearchFilters;
+  availability?: AvailabilityPolicy;
+  reranker?: 'local' | 'llm'; // скорер другого етапу (за замовчуванням - RERANKER)
+  constraints?: IntentConstraints; // обмеження запиту: фільтри та переранжування перед мерчандайзингом
+  sort?: SortOrder;
+  category?: string; // slug категорії сторінки для перевизначень правил мерчандайзингу
+  limit?: number; // кількість результатів після правил мерчандайзингу (за замовчуванням - topK)
+}
+
+/**
+ * Політика наявності: 'in_stock' - тільки товари в наявності, 'any' - усі товари
+ */
+export type AvailabilityPolicy = 'in_stock' | 'any';
+
+/**
+ * Форма випуску товару
+ */
+export type ProductForm =
+  | 'capsule'
+  | 'softgel'
+  | 'tablet'
+  | 'chewable'
+  | 'gummy'
+  | 'powder'
+  | 'liquid'
+  | 'lozenge'
+  | 'spray';
+
+/**
+ * Одиниця дозування
+ */
+export type DosageUnit = 'iu' | 'mg' | 'mcg' | 'g';
+
+/**
+ * Дозування (наприклад 1000 МО -> { value: 1000, unit: 'iu' })
+ */
+export interface Dosage {
+  value: number;
+  unit: DosageUnit;
+}
+
+/**
+ * Кількість в упаковці: 120 капсул -> { value: 120, unit: 'pcs' }
+ */
+export interface PackSize {
+  value: number;
+  unit: 'pcs' | 'servings' | 'ml' | 'g';
+}
+
+/**
+ * Активний інгредієнт
+ */
+export interface ActiveIngredient {
+  id: string; // vitamin_d3, magnesium, omega_3
+  name: string;
+}
+
+/**
+ * Дозування активного інгредієнта (ingredient: null - не вдалося зіставити з інгредієнтом)
+ */
+export interface Strength extends Dosage {
+  ingredient: string | null;
+}
+
+/**
+ * Структуровані атрибути товару, розпізнані з назви та опису
+ */
+export interface ProductAttributes {
+  ingredients: ActiveIngredient[];
+  strengths: Strength[];
+  form: ProductForm | null; // основна форма випуску
+  forms: ProductForm[];
+  count: PackSize | null; // кількість в упаковці
+  servingSize: number | null; // одиниць на порцію ("по 2 капсули")
+  servings: number | null; // кількість порцій в упаковці
+}
+
+/**
+ * Показники вигідності товару (грн)
+ */
+export interface ValueMetrics {
+  pricePerUnit: number | null; // за капсулу/таблетку (або за мл/г)
+  unit: PackSize['unit'] | null;
+  pricePerServing: number | null;
+  pricePerDose: {
+    value: number;
+    per: number; // 1000 одиниць дозування
+    unit: DosageUnit;
+    ingredient: string | null;
+  } | null; // за 1000 МО/мг/мкг активного інгредієнта
+}
+
+/**
+ * Порядок сортування результатів пошуку
+ */
+export type SortOrder = 'relevance' | 'best_value';
+
+/**
+ * Товар з атрибутами (для сторінки товару)
+ */
+export interface ProductDetails extends ProductMetadata {
+  attributes: ProductAttributes;
+  dietary: DietaryTagMatch[];
+}
+
+/**
+ * Дієтичні та алергенні мітки товару
+ */
+export type DietaryTag =
+  | 'vegan'
+  | 'vegetarian'
+  | 'gluten_free'
+  | 'gelatin_free'
+  | 'sugar_free'
+  | 'lactose_free'
+  | 'soy_free'
+  | 'non_gmo';
+
+/**
+ * Мітка товару з поясненням, звідки вона взялася
+ */
+export interface DietaryTagMatch {
+  tag: DietaryTag;
+  label: string; // "без глютену"
+  source: 'title' | 'description' | 'derived' | 'override';
+  reason: string; // "вказано в описі", "веганський продукт", примітка ручного виправлення
+}
+
+/**
+ * Цільова аудиторія товару
+ */
+export type Audience = 'children' | 'adults' | 'women' | 'men' | 'pregnant' | 'seniors';
+
+/**
+ * Структуровані обмеження з запиту користувача
+ */
+export interface IntentConstraints {
+  priceMin?: number;
+  priceMax?: number;
+  forms?: ProductForm[]; // бажані форми випуску
+  audience?: Audience;
+  excludeIngredients?: string[]; // "без желатину" -> ['gelatin']
+  dietary?: DietaryTag[]; // "веганський", "без глютену" - обов'язкові мітки товару
+  dosage?: Dosage;
+}
+
+/**
+ * Намір користувача (результат AI-аналізу або евристик)
+ */
+export interface UserIntent {
+  searchType: 'article_search' | 'find_similar' | 'recommendation' | 'value';
+  searchQuery: string;
+  context: string;
+  needsMultipleComponents: boolean;
+  components?: string[]; // компоненти схеми для цільових запитів ("для імунітету" -> D3, C, цинк)
+  articles?: string[]; // нормалізовані артикули/штрихкоди для article_search
+  constraints?: IntentConstraints; // ціна, форма, дозування, аудиторія, виключення
+}
+
+/**
+ * Ваги векторного та ключового пошуку при reciprocal rank fusion
+ */
+export interface FusionWeights {
+  vector: number;
+  keyword: number;
 }
 
 /**
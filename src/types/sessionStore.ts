@@ -0,0 +1,26 @@
+import { ChatMessage, ConversationHistory } from './product';
+
+/**
+ * Сесія у вигляді JSON (для файлів та Redis): Set і Date зберігаються як масив та ISO-рядки
+ */
+export interface SessionRecord {
+  sessionId: string;
+  messages: ChatMessage[];
+  createdAt: string;
+  lastUpdatedAt: string;
+  shownProductIds: string[];
+  lastShownProductIds?: string[];
+  lastSearchQuery?: string;
+}
+
+/**
+ * Абстракція сховища сесій (пам'ять процесу, файли, Redis)
+ */
+export interface SessionStore {
+  readonly name: string;
+  get(sessionId: string): Promise<ConversationHistory | null>;
+  save(conversation: ConversationHistory): Promise<void>;
+  delete(sessionId: string): Promise<boolean>;
+  list(): Promise<ConversationHistory[]>;
+  expire(maxAgeMs: number): Promise<number>; // видаляє сесії, неактивні довше maxAgeMs; повертає кількість
+}
@@ -0,0 +1,80 @@
+import { ProductMetadata } from './product';
+
+/**
+ * Оператори фільтра метаданих (підмножина синтаксису Pinecone)
+ */
+export interface FilterOperators {
+  $eq?: string | number | boolean;
+  $ne?: string | number | boolean;
+  $in?: (string | number)[];
+  $nin?: (string | number)[];
+  $gt?: number;
+  $gte?: number;
+  $lt?: number;
+  $lte?: number;
+}
+
+/**
+ * Фільтр метаданих: { поле: значення | оператори } або $and/$or
+ */
+export type MetadataFilter = {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+} & {
+  [field: string]: string | number | boolean | FilterOperators | MetadataFilter[] | undefined;
+};
+
+/**
+ * Запис у векторному сховищі
+ */
+export interface VectorRecord {
+  id: string;
+  values?: number[];
+  metadata: ProductMetadata;
+}
+
+/**
+ * Параметри векторного запиту
+ */
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+}
+
+/**
+ * Результат векторного запиту
+ */
+export interface VectorQueryMatch {
+  id: string;
+  score: number;
+  metadata: ProductMetadata;
+}
+
+/**
+ * Сторінка записів при повному перегляді сховища (без векторів)
+ */
+export interface VectorListPage {
+  records: VectorRecord[];
+  nextCursor?: string;
+}
+
+/**
+ * Статистика сховища
+ */
+export interface VectorStoreStats {
+  totalRecordCount: number;
+  dimension?: number;
+}
+
+/**
+ * Абстракція векторного сховища (Pinecone, локальний знімок тощо)
+ */
+export interface VectorStore {
+  readonly name: string;
+  query(query: VectorQuery): Promise<VectorQueryMatch[]>;
+  fetch(ids: string[]): Promise<Record<string, VectorRecord>>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  list(options: { limit: number; cursor?: string }): Promise<VectorListPage>;
+  stats(): Promise<VectorStoreStats>;
+}
@@ -0,0 +1,125 @@
+/**
+ * Розпізнавання артикулів та штрихкодів у тексті повідомлення
+ */
+
+/**
+ * Тип розпізнаного коду
+ */
+export type ArticleKind = 'sku' | 'ean13' | 'upc';
+
+/**
+ * Розпізнаний код товару
+ */
+export interface ParsedArticle {
+  code: string; // нормалізований код (SOL-01701, 4006040001234)
+  kind: ArticleKind;
+  raw: string; // фрагмент тексту, з якого витягнуто код
+}
+
+/**
+ * Одиниці виміру, які схожі на префікс артикулу ("MG 1000", "IU 5000")
+ */
+const UNIT_PREFIXES = new Set(['MG', 'MCG', 'IU', 'ME', 'KG', 'ML', 'CAPS', 'TABS', 'CFU', 'GR']);
+
+// Префікс магазину + цифри: SOL-01701, SOL01701, SOL 01701
+const SKU_PATTERN = /(?<![\p{L}\p{N}])([A-Za-z]{2,4})([-\s]?)(\d{4,6})(?![\p{L}\p{N}])/gu;
+
+// Після числа - одиниця дозування або фасування: "NOW 5000 IU" - це дозування, а не артикул
+const DOSAGE_AFTER = /^\s*(?:iu|me|мо|ме|mg|mcg|мг|мкг|g|г|ml|мл|caps|tabs|капс|таб)(?![\p{L}])/iu;
+
+// Явно позначений код: "артикул: SOL-01701", "код 532894", "sku NOW00702"
+const LABELED_PATTERN = /(?:артикул|арт\.|код|sku)\s*[:№#]?\s*([A-Za-z]{0,4}[-\s]?\d{4,13})(?![\p{L}\p{N}])/giu;
+
+// EAN-13 / UPC-A
+const BARCODE_PATTERN = /(?<![\p{L}\p{N}])(\d{12,13})(?![\p{L}\p{N}])/gu;
+
+/**
+ * Перевірка контрольної цифри GTIN (EAN-13, UPC-A)
+ */
+export const isValidGtinChecksum = (digits: string): boolean => {
+  if (!/^\d{12,13}$/.test(digits)) {
+    return false;
+  }
+
+  const body = digits.slice(0, -1);
+  const checkDigit = parseInt(digits[digits.length - 1], 10);
+
+  // Ваги 3/1 справа наліво, починаючи з цифри перед контрольною
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = parseInt(body[body.length - 1 - i], 10);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+};
+
+const normalizeSku = (letters: string, digits: string): string => {
+  return letters ? `${letters.toUpperCase()}-${digits}` : digits;
+};
+
+/**
+ * Витягування всіх артикулів та штрихкодів з тексту (без дублікатів, у порядку появи).
+ * Форма з пробілом ("SOL 01701") розпізнається тільки для префіксів з каталогу (knownPrefixes)
+ */
+export const extractArticles = (text: string, knownPrefixes: Set<string> = new Set()): ParsedArticle[] => {
+  const found: (ParsedArticle & { index: number })[] = [];
+  const seen = new Set<string>();
+  const coveredRanges: [number, number][] = [];
+
+  const add = (article: ParsedArticle, index: number) => {
+    const key = article.code.replace(/-/g, '');
+    if (seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    found.push({ ...article, index });
+    coveredRanges.push([index, index + article.raw.length]);
+  };
+
+  const isCovered = (index: number) => coveredRanges.some(([start, end]) => index >= start && index < end);
+
+  // 1. Явно позначені коди мають пріоритет
+  for (const match of text.matchAll(LABELED_PATTERN)) {
+    const value = match[1].trim();
+    const parts = value.match(/^([A-Za-z]*)[-\s]?(\d+)$/);
+    if (!parts) continue;
+
+    const [, letters, digits] = parts;
+    const kind: ArticleKind = !letters && digits.length === 13 ? 'ean13' : !letters && digits.length === 12 ? 'upc' : 'sku';
+
+    if (kind !== 'sku' && !isValidGtinChecksum(digits)) continue;
+
+    add({ code: normalizeSku(letters, digits), kind, raw: match[0] }, match.index!);
+  }
+
+  // 2. Артикули магазину
+  for (const match of text.matchAll(SKU_PATTERN)) {
+    if (isCovered(match.index!)) continue;
+
+    const [raw, letters, separator, digits] = match;
+    if (UNIT_PREFIXES.has(letters.toUpperCase())) continue;
+
+    // З пробілом легко сплутати зі звичайним текстом ("ZMA 1000", "NOW 5000 IU") - тільки відомі префікси без одиниць після числа
+    if (separator && separator !== '-') {
+      const after = text.slice(match.index! + raw.length);
+      if (!knownPrefixes.has(letters.toUpperCase()) || DOSAGE_AFTER.test(after)) continue;
+    }
+
+    add({ code: normalizeSku(letters, digits), kind: 'sku', raw }, match.index!);
+  }
+
+  // 3. Штрихкоди з валідною контрольною сумою
+  for (const match of text.matchAll(BARCODE_PATTERN)) {
+    if (isCovered(match.index!)) continue;
+
+    const digits = match[1];
+    if (!isValidGtinChecksum(digits)) continue;
+
+    add({ code: digits, kind: digits.length === 13 ? 'ean13' : 'upc', raw: digits }, match.index!);
+  }
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ code, kind, raw }) => ({ code, kind, raw }));
+};
@@ -0,0 +1,200 @@
+import { existsSync, readFileSync } from 'fs';
+import { normalizeText } from './textNormalization';
+
+/**
+ * Реєстр брендів: канонічні назви, кириличні/латинські варіанти та типові помилки написання
+ * ("нау фудс", "солгар", "nowfoods"). Єдине джерело для розбору запитів, фільтрації та ранжування.
+ * Файл - BRANDS_PATH, за замовчуванням ./data/brands.json
+ */
+
+export type BrandTier = 'own' | 'popular' | 'regular';
+
+export interface BrandEntry {
+  name: string;
+  tier: BrandTier;
+  aliases: string[];
+}
+
+const BRAND_TIERS: BrandTier[] = ['own', 'popular', 'regular'];
+
+const WORD_START = '(?<![\\p{L}\\p{N}])';
+const WORD_END = '(?![\\p{L}\\p{N}])';
+
+/**
+ * Мінімальна довжина ключа для часткового збігу ("Thorne Research Inc" -> Thorne Research)
+ */
+const MIN_PARTIAL_KEY_LENGTH = 5;
+
+interface BrandRegistry {
+  entries: BrandEntry[];
+  byKey: Map<string, BrandEntry>;
+  patterns: { entry: BrandEntry; pattern: RegExp }[];
+}
+
+let registry: BrandRegistry | null = null;
+
+/**
+ * Ключ порівняння назв: без регістру, апострофів, пробілів та розділових знаків
+ */
+export const brandKey = (name: string): string => normalizeText(name).replace(/[^\p{L}\p{N}]/gu, '');
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Шаблон варіанту назви для тексту після normalizeText: пробіли між словами необов'язкові
+ */
+const aliasPattern = (alias: string): string =>
+  normalizeText(alias)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(escapeRegExp)
+    .join('[\\s-]*');
+
+const loadRegistry = (): BrandRegistry => {
+  const registryPath = process.env.BRANDS_PATH || './data/brands.json';
+  const loaded: BrandRegistry = { entries: [], byKey: new Map(), patterns: [] };
+
+  if (!existsSync(registryPath)) {
+    console.warn(`⚠️ Реєстр брендів не знайдено: ${registryPath}`);
+    return loaded;
+  }
+
+  try {
+    const raw = JSON.parse(readFileSync(registryPath, 'utf-8')) as Partial<BrandEntry>[];
+
+    raw.forEach((item) => {
+      if (!item.name || typeof item.name !== 'string') {
+        console.warn(`⚠️ Запис без назви в ${registryPath}:`, item);
+        return;
+      }
+
+      const entry: BrandEntry = {
+        name: item.name,
+        tier: BRAND_TIERS.includes(item.tier as BrandTier) ? (item.tier as BrandTier) : 'regular',
+        aliases: (Array.isArray(item.aliases) ? item.aliases : []).filter((alias) => typeof alias === 'string'),
+      };
+      loaded.entries.push(entry);
+
+      [entry.name, ...entry.aliases].forEach((variant) => {
+        const key = brandKey(variant);
+        if (!key) return;
+
+        const existing = loaded.byKey.get(key);
+        if (existing && existing !== entry) {
+          console.warn(`⚠️ Варіант "${variant}" вже належить бренду ${existing.name}`);
+          return;
+        }
+        loaded.byKey.set(key, entry);
+
+        const pattern = aliasPattern(variant);
+        if (pattern.length >= 3) {
+          loaded.patterns.push({ entry, pattern: new RegExp(`${WORD_START}${pattern}${WORD_END}`, 'u') });
+        }
+      });
+    });
+
+    // Довші варіанти першими: "california gold" раніше за "california"
+    loaded.patterns.sort((a, b) => b.pattern.source.length - a.pattern.source.length);
+
+    console.log(`🏷️ Завантажено реєстр брендів: ${loaded.entries.length} брендів, ${loaded.byKey.size} варіантів назв`);
+  } catch (error) {
+    console.error(`❌ Помилка читання ${registryPath}:`, error);
+  }
+
+  return loaded;
+};
+
+const getRegistry = (): BrandRegistry => {
+  if (!registry) {
+    registry = loadRegistry();
+  }
+  return registry;
+};
+
+/**
+ * Перечитування реєстру (при оновленні каталогу)
+ */
+export const reloadBrandRegistry = (): void => {
+  registry = loadRegistry();
+};
+
+/**
+ * Запис реєстру за назвою бренду або будь-яким її варіантом
+ */
+export const resolveBrand = (name: string | undefined): BrandEntry | null => {
+  const key = name ? brandKey(name) : '';
+  if (!key) {
+    return null;
+  }
+
+  const { byKey, entries } = getRegistry();
+  const exact = byKey.get(key);
+  if (exact) {
+    return exact;
+  }
+
+  // Назва з каталогу з уточненням: "Thorne Research Inc", "Now Foods Sports"
+  return (
+    entries.find((entry) => {
+      const canonicalKey = brandKey(entry.name);
+      return canonicalKey.length >= MIN_PARTIAL_KEY_LENGTH && key.includes(canonicalKey);
+    }) || null
+  );
+};
+
+/**
+ * Канонічна назва бренду (або вихідна, якщо бренду немає в реєстрі)
+ */
+export const canonicalBrandName = (name: string): string => resolveBrand(name)?.name || name;
+
+/**
+ * Рівень бренду: власний, популярний чи звичайний
+ */
+export const getBrandTier = (name: string | undefined): BrandTier => resolveBrand(name)?.tier || 'regular';
+
+/**
+ * Канонічні назви брендів заданого рівня
+ */
+export const getBrandsByTier = (tier: BrandTier): string[] =>
+  getRegistry()
+    .entries.filter((entry) => entry.tier === tier)
+    .map((entry) => entry.name);
+
+/**
+ * Бренди з реєстру, згадані в тексті запиту (за будь-яким варіантом назви)
+ */
+export const detectBrandMentions = (text: string): BrandEntry[] => {
+  const normalized = normalizeText(text);
+  const found: BrandEntry[] = [];
+
+  getRegistry().patterns.forEach(({ entry, pattern }) => {
+    if (!found.includes(entry) && pattern.test(normalized)) {
+      found.push(entry);
+    }
+  });
+
+  return found;
+};
+
+/**
+ * Назви брендів у тому вигляді, в якому вони записані в каталозі: "солгар" -> "Solgar".
+ * Бренди, яких немає в каталозі, повертаються в канонічному вигляді
+ */
+export const matchCatalogBrands = (brands: string[], catalogBrands: string[]): string[] => {
+  const matched = new Set<string>();
+
+  brands.forEach((brand) => {
+    const entry = resolveBrand(brand);
+    const variants = catalogBrands.filter((catalogBrand) =>
+      entry ? resolveBrand(catalogBrand) === entry : brandKey(catalogBrand) === brandKey(brand)
+    );
+
+    if (variants.length > 0) {
+      variants.forEach((variant) => matched.add(variant));
+    } else {
+      matched.add(entry?.name || brand);
+    }
+  });
+
+  return Array.from(matched);
+};
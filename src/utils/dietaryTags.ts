@@ -0,0 +1,228 @@
+import { existsSync, readFileSync } from 'fs';
+import { DietaryTag, DietaryTagMatch, ProductMetadata } from '../types/product';
+import { normalizeText } from './textNormalization';
+import { containsIngredient, detectExcludedIngredients } from './productAttributes';
+
+/**
+ * Дієтичні та алергенні мітки товару (веганський, без глютену, без желатину...).
+ * Визначаються за ключовими словами назви та опису, ручні виправлення - в JSON-файлі
+ * (DIETARY_OVERRIDES_PATH, за замовчуванням ./data/dietary-overrides.json)
+ */
+
+const WORD_START = '(?<![\\p{L}\\p{N}])';
+
+export const DIETARY_TAGS: DietaryTag[] = [
+  'vegan',
+  'vegetarian',
+  'gluten_free',
+  'gelatin_free',
+  'sugar_free',
+  'lactose_free',
+  'soy_free',
+  'non_gmo',
+];
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  vegan: 'веганський',
+  vegetarian: 'вегетаріанський',
+  gluten_free: 'без глютену',
+  gelatin_free: 'без желатину',
+  sugar_free: 'без цукру',
+  lactose_free: 'без лактози',
+  soy_free: 'без сої',
+  non_gmo: 'без ГМО',
+};
+
+/**
+ * Прямі згадки міток (шаблони для тексту після normalizeText)
+ */
+const TAG_PATTERNS: Partial<Record<DietaryTag, RegExp>> = {
+  vegan: new RegExp(`${WORD_START}(?<!не\\s)(веган|vegan)`, 'u'),
+  vegetarian: new RegExp(`${WORD_START}(?<!не\\s)(вегетариан|vegetarian|veg\\s*caps|vcaps|рослинн\\p{L}*\\s+капсул)`, 'u'),
+  non_gmo: new RegExp(`${WORD_START}(без\\s+гмо|non[\\s-]*gmo|gmo[\\s-]*free)`, 'u'),
+};
+
+/**
+ * Виключені інгредієнти ("без глютену", "gluten-free") -> мітки
+ */
+const TAGS_BY_EXCLUDED_INGREDIENT: Record<string, DietaryTag> = {
+  gluten: 'gluten_free',
+  gelatin: 'gelatin_free',
+  sugar: 'sugar_free',
+  lactose: 'lactose_free',
+  soy: 'soy_free',
+};
+
+/**
+ * Мітки, які випливають з інших: веганський продукт не містить желатину та лактози
+ */
+const IMPLIED_TAGS: Partial<Record<DietaryTag, DietaryTag[]>> = {
+  vegan: ['vegetarian', 'gelatin_free', 'lactose_free'],
+  vegetarian: ['gelatin_free'],
+};
+
+/**
+ * Мітки, які скасовує явна згадка інгредієнта в складі
+ */
+const CONFLICTING_INGREDIENTS: Partial<Record<DietaryTag, string[]>> = {
+  vegan: ['gelatin', 'fish', 'lactose'],
+  vegetarian: ['gelatin', 'fish'],
+  gelatin_free: ['gelatin'],
+};
+
+/**
+ * Мітки, які запит робить обов'язковими тільки за явної вимоги позначки ("сертифікований без желатину").
+ * Просте "без желатину" - виключення інгредієнта: товарів без желатину в складі більше, ніж з такою позначкою
+ */
+const CLAIM_ONLY_TAGS: DietaryTag[] = ['gelatin_free'];
+
+const CLAIM_PATTERN = new RegExp(`${WORD_START}(сертиф\\p{L}*|certified|позначк\\p{L}*|маркуван\\p{L}*|маркован\\p{L}*)`, 'u');
+
+interface DietaryOverride {
+  add?: DietaryTag[];
+  remove?: DietaryTag[];
+  note?: string;
+}
+
+let overrides: Map<string, DietaryOverride> | null = null;
+let cache = new WeakMap<ProductMetadata, DietaryTagMatch[]>();
+
+/**
+ * Завантаження ручних виправлень: { "<id або артикул>": { "add": [...], "remove": [...], "note": "..." } }
+ */
+const loadOverrides = (): Map<string, DietaryOverride> => {
+  const overridesPath = process.env.DIETARY_OVERRIDES_PATH || './data/dietary-overrides.json';
+  const loaded = new Map<string, DietaryOverride>();
+
+  if (!existsSync(overridesPath)) {
+    return loaded;
+  }
+
+  try {
+    const raw = JSON.parse(readFileSync(overridesPath, 'utf-8')) as Record<string, DietaryOverride>;
+    const onlyKnown = (tags: unknown): DietaryTag[] =>
+      (Array.isArray(tags) ? tags : []).filter((tag): tag is DietaryTag => {
+        const known = DIETARY_TAGS.includes(tag);
+        if (!known) console.warn(`⚠️ Невідома дієтична мітка в ${overridesPath}: ${tag}`);
+        return known;
+      });
+
+    Object.entries(raw).forEach(([key, override]) => {
+      loaded.set(key, { add: onlyKnown(override.add), remove: onlyKnown(override.remove), note: override.note });
+    });
+
+    console.log(`🥗 Завантажено ${loaded.size} ручних виправлень дієтичних міток`);
+  } catch (error) {
+    console.error(`❌ Помилка читання ${overridesPath}:`, error);
+  }
+
+  return loaded;
+};
+
+/**
+ * Перечитування файлу ручних виправлень (при оновленні каталогу)
+ */
+export const reloadDietaryOverrides = (): void => {
+  overrides = loadOverrides();
+  cache = new WeakMap();
+};
+
+const getOverride = (product: ProductMetadata): DietaryOverride | undefined => {
+  if (!overrides) {
+    overrides = loadOverrides();
+  }
+  return overrides.get(product.id) || (product.gtin ? overrides.get(product.gtin) : undefined);
+};
+
+/**
+ * Дієтичні мітки, заявлені в тексті: "веганський", "без глютену", "gluten-free", "non-GMO".
+ * Використовується і для товарів, і для запитів користувача
+ */
+export const detectDietaryTags = (text: string): DietaryTag[] => {
+  const normalized = normalizeText(text);
+  const tags = new Set<DietaryTag>();
+
+  (Object.entries(TAG_PATTERNS) as [DietaryTag, RegExp][]).forEach(([tag, pattern]) => {
+    if (pattern.test(normalized)) tags.add(tag);
+  });
+
+  detectExcludedIngredients(text).forEach((ingredient) => {
+    const tag = TAGS_BY_EXCLUDED_INGREDIENT[ingredient];
+    if (tag) tags.add(tag);
+  });
+
+  return DIETARY_TAGS.filter((tag) => tags.has(tag));
+};
+
+/**
+ * Обов'язкові мітки із запиту користувача (за замовчуванням - розпізнані в тексті запиту)
+ */
+export const detectRequestedDietaryTags = (text: string, tags: DietaryTag[] = detectDietaryTags(text)): DietaryTag[] => {
+  const claimRequested = CLAIM_PATTERN.test(normalizeText(text));
+  return tags.filter((tag) => claimRequested || !CLAIM_ONLY_TAGS.includes(tag));
+};
+
+
+/**
+ * Дієтичні мітки товару з поясненням, звідки кожна взялася
+ */
+export const getDietaryTags = (product: ProductMetadata): DietaryTagMatch[] => {
+  const cached = cache.get(product);
+  if (cached) {
+    return cached;
+  }
+
+  const matches = new Map<DietaryTag, DietaryTagMatch>();
+  const add = (tag: DietaryTag, source: DietaryTagMatch['source'], reason: string) => {
+    if (!matches.has(tag)) {
+      matches.set(tag, { tag, label: DIETARY_TAG_LABELS[tag], source, reason });
+    }
+  };
+
+  detectDietaryTags(product.title || '').forEach((tag) => add(tag, 'title', 'вказано в назві'));
+  detectDietaryTags(product.description || '').forEach((tag) => add(tag, 'description', 'вказано в описі'));
+
+  Array.from(matches.values()).forEach((match) => {
+    (IMPLIED_TAGS[match.tag] || []).forEach((tag) => add(tag, 'derived', `${DIETARY_TAG_LABELS[match.tag]} продукт`));
+  });
+
+  // Явно згаданий у складі інгредієнт скасовує мітку ("веганський" омега-3 з риб'ячого жиру)
+  const text = `${product.title || ''} ${product.description || ''}`;
+  Array.from(matches.keys()).forEach((tag) => {
+    if ((CONFLICTING_INGREDIENTS[tag] || []).some((ingredient) => containsIngredient(text, ingredient))) {
+      matches.delete(tag);
+    }
+  });
+
+  const override = getOverride(product);
+  if (override) {
+    override.remove?.forEach((tag) => matches.delete(tag));
+    override.add?.forEach((tag) => {
+      matches.delete(tag);
+      add(tag, 'override', override.note || 'підтверджено вручну');
+    });
+  }
+
+  const result = DIETARY_TAGS.filter((tag) => matches.has(tag)).map((tag) => matches.get(tag)!);
+  cache.set(product, result);
+  return result;
+};
+
+/**
+ * Чи має товар усі вимагані мітки
+ */
+export const hasDietaryTags = (product: ProductMetadata, required: DietaryTag[] | undefined): boolean => {
+  if (!required || required.length === 0) {
+    return true;
+  }
+  const tags = new Set(getDietaryTags(product).map((match) => match.tag));
+  return required.every((tag) => tags.has(tag));
+};
+
+/**
+ * Пояснення, чому товар відповідає вимогам: "веганський (вказано в описі); без глютену (підтверджено вручну)"
+ */
+export const describeDietaryTags = (product: ProductMetadata, only?: DietaryTag[]): string | null => {
+  const matches = getDietaryTags(product).filter((match) => !only || only.length === 0 || only.includes(match.tag));
+  return matches.length > 0 ? matches.map((match) => `${match.label} (${match.reason})`).join('; ') : null;
+};
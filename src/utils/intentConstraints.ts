@@ -0,0 +1,141 @@
+import { Audience, DietaryTag, DosageUnit, IntentConstraints, ProductForm, SearchFilters } from '../types/product';
+import { extractFiltersFromText } from './searchFilters';
+import {
+  detectAudiences,
+  detectExcludedIngredients,
+  detectProductForms,
+  mostSpecificForms,
+  parseDosages,
+  KNOWN_INGREDIENTS,
+} from './productAttributes';
+import { detectRequestedDietaryTags, DIETARY_TAGS } from './dietaryTags';
+
+/**
+ * Структуровані обмеження запиту: "дешевше 400 грн", "жувальні для дітей", "без желатину", "1000 МО", "веганський"
+ */
+
+const FORMS: ProductForm[] = ['capsule', 'softgel', 'tablet', 'chewable', 'gummy', 'powder', 'liquid', 'lozenge', 'spray'];
+const AUDIENCES: Audience[] = ['children', 'adults', 'women', 'men', 'pregnant', 'seniors'];
+const DOSAGE_UNITS: DosageUnit[] = ['iu', 'mg', 'mcg', 'g'];
+
+/**
+ * Rule-based витягування обмежень з тексту (фолбек та доповнення до AI)
+ */
+export const extractConstraintsFromText = (text: string): IntentConstraints => {
+  const constraints: IntentConstraints = {};
+
+  const { filters } = extractFiltersFromText(text);
+  if (filters.priceMin !== undefined) constraints.priceMin = filters.priceMin;
+  if (filters.priceMax !== undefined) constraints.priceMax = filters.priceMax;
+
+  const forms = mostSpecificForms(detectProductForms(text));
+  if (forms.length > 0) constraints.forms = forms;
+
+  const [audience] = detectAudiences(text);
+  if (audience) constraints.audience = audience;
+
+  const excluded = detectExcludedIngredients(text);
+  if (excluded.length > 0) constraints.excludeIngredients = excluded;
+
+  // "без желатину" - тільки виключення інгредієнта, мітка gelatin_free - лише за явною вимогою позначки
+  const dietary = detectRequestedDietaryTags(text);
+  if (dietary.length > 0) constraints.dietary = dietary;
+
+  const [dosage] = parseDosages(text).filter((item) => item.unit !== 'g');
+  if (dosage) constraints.dosage = dosage;
+
+  return constraints;
+};
+
+const toPositiveNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+/**
+ * Нормалізація обмежень з відповіді AI (відкидаємо невідомі значення).
+ * З текстом запиту мітки, що потребують явної вимоги позначки, залишаються тільки за такої вимоги
+ */
+export const normalizeConstraints = (raw: any, text?: string): IntentConstraints => {
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+
+  const constraints: IntentConstraints = {};
+
+  const priceMin = toPositiveNumber(raw.priceMin);
+  const priceMax = toPositiveNumber(raw.priceMax);
+  if (priceMin !== undefined) constraints.priceMin = priceMin;
+  if (priceMax !== undefined) constraints.priceMax = priceMax;
+
+  const forms = (Array.isArray(raw.forms) ? raw.forms : [raw.forms]).filter((form: unknown): form is ProductForm =>
+    FORMS.includes(form as ProductForm)
+  );
+  if (forms.length > 0) constraints.forms = forms;
+
+  if (AUDIENCES.includes(raw.audience)) {
+    constraints.audience = raw.audience;
+  }
+
+  const excluded = (Array.isArray(raw.excludeIngredients) ? raw.excludeIngredients : []).filter(
+    (ingredient: unknown): ingredient is string => KNOWN_INGREDIENTS.includes(ingredient as string)
+  );
+  if (excluded.length > 0) constraints.excludeIngredients = excluded;
+
+  const knownTags = (Array.isArray(raw.dietary) ? raw.dietary : []).filter((tag: unknown): tag is DietaryTag =>
+    DIETARY_TAGS.includes(tag as DietaryTag)
+  );
+  const dietary = text !== undefined ? detectRequestedDietaryTags(text, knownTags) : knownTags;
+  if (dietary.length > 0) constraints.dietary = dietary;
+
+  const dosageValue = toPositiveNumber(raw.dosage?.value);
+  if (dosageValue !== undefined && DOSAGE_UNITS.includes(raw.dosage?.unit)) {
+    constraints.dosage = { value: dosageValue, unit: raw.dosage.unit };
+  }
+
+  return constraints;
+};
+
+/**
+ * Об'єднання обмежень: значення з primary мають пріоритет, виключення та дієтичні мітки сумуються
+ */
+export const mergeConstraints = (
+  primary: IntentConstraints | undefined,
+  secondary: IntentConstraints | undefined
+): IntentConstraints => {
+  const merged: IntentConstraints = { ...secondary, ...primary };
+
+  const excluded = new Set([...(primary?.excludeIngredients || []), ...(secondary?.excludeIngredients || [])]);
+  if (excluded.size > 0) {
+    merged.excludeIngredients = Array.from(excluded);
+  }
+
+  const dietary = new Set([...(primary?.dietary || []), ...(secondary?.dietary || [])]);
+  if (dietary.size > 0) {
+    merged.dietary = Array.from(dietary);
+  }
+
+  (Object.keys(merged) as (keyof IntentConstraints)[]).forEach((key) => {
+    if (merged[key] === undefined) delete merged[key];
+  });
+
+  return merged;
+};
+
+/**
+ * Чи є хоча б одне обмеження
+ */
+export const hasConstraints = (constraints: IntentConstraints | undefined): boolean => {
+  return !!constraints && Object.keys(constraints).length > 0;
+};
+
+/**
+ * Цінові обмеження та дієтичні мітки як фільтри пошуку (застосовуються ще на етапі retrieval)
+ */
+export const constraintsToFilters = (constraints: IntentConstraints | undefined): SearchFilters => {
+  return {
+    priceMin: constraints?.priceMin,
+    priceMax: constraints?.priceMax,
+    dietary: constraints?.dietary,
+  };
+};
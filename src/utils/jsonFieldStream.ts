@@ -0,0 +1,79 @@
+/**
+ * Потокове читання рядкового поля з JSON, який ще генерується:
+ * '{"message": "Ось ва' -> "Ось ва", далі 'ріанти", "products"' -> "ріанти"
+ */
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Створення читача поля: повертає функцію, яка приймає черговий фрагмент відповіді
+ * і повертає нову частину значення поля (порожній рядок, якщо нового тексту немає)
+ */
+export const createJsonFieldStreamer = (field: string): ((chunk: string) => string) => {
+  const fieldStart = new RegExp(`"${escapeRegExp(field)}"\\s*:\\s*"`);
+  let buffer = '';
+  let position = -1; // позиція наступного символу значення в buffer
+  let finished = false;
+
+  return (chunk: string): string => {
+    buffer += chunk;
+    if (finished) {
+      return '';
+    }
+
+    if (position === -1) {
+      const match = fieldStart.exec(buffer);
+      if (!match) {
+        return '';
+      }
+      position = match.index + match[0].length;
+    }
+
+    let text = '';
+    while (position < buffer.length) {
+      const char = buffer[position];
+
+      if (char === '"') {
+        finished = true;
+        break;
+      }
+
+      if (char !== '\\') {
+        text += char;
+        position += 1;
+        continue;
+      }
+
+      // Escape-послідовність може бути розірвана між фрагментами - чекаємо наступного
+      const escaped = buffer[position + 1];
+      if (escaped === undefined) {
+        break;
+      }
+      if (escaped === 'u') {
+        const hex = buffer.slice(position + 2, position + 6);
+        if (hex.length < 4) {
+          break;
+        }
+        text += String.fromCharCode(parseInt(hex, 16));
+        position += 6;
+        continue;
+      }
+
+      text += SIMPLE_ESCAPES[escaped] ?? escaped;
+      position += 2;
+    }
+
+    return text;
+  };
+};
@@ -0,0 +1,67 @@
+import { FilterOperators, MetadataFilter } from '../types/vectorStore';
+
+type MetadataValue = unknown;
+
+const OPERATOR_KEYS = ['$eq', '$ne', '$in', '$nin', '$gt', '$gte', '$lt', '$lte'];
+
+const isOperators = (value: unknown): value is FilterOperators => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).every((key) => OPERATOR_KEYS.includes(key))
+  );
+};
+
+/**
+ * Порівняння значення поля з оператором.
+ * Для полів-масивів (categories) $eq/$in спрацьовують, якщо збігається хоча б один елемент - як у Pinecone
+ */
+const matchesOperators = (fieldValue: MetadataValue, operators: FilterOperators): boolean => {
+  const values = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+
+  if (operators.$eq !== undefined && !values.includes(operators.$eq)) return false;
+  if (operators.$ne !== undefined && values.includes(operators.$ne)) return false;
+  if (operators.$in !== undefined && !values.some((v) => operators.$in!.includes(v as string | number))) return false;
+  if (operators.$nin !== undefined && values.some((v) => operators.$nin!.includes(v as string | number))) return false;
+
+  const numeric = typeof fieldValue === 'number' ? fieldValue : NaN;
+  if (operators.$gt !== undefined && !(numeric > operators.$gt)) return false;
+  if (operators.$gte !== undefined && !(numeric >= operators.$gte)) return false;
+  if (operators.$lt !== undefined && !(numeric < operators.$lt)) return false;
+  if (operators.$lte !== undefined && !(numeric <= operators.$lte)) return false;
+
+  return true;
+};
+
+/**
+ * Перевірка відповідності метаданих фільтру (для локальних сховищ та in-memory індексів)
+ */
+export const matchesMetadataFilter = (
+  metadata: Record<string, any>,
+  filter: MetadataFilter | undefined
+): boolean => {
+  if (!filter) {
+    return true;
+  }
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition === undefined) {
+      return true;
+    }
+
+    if (key === '$and') {
+      return (condition as MetadataFilter[]).every((sub) => matchesMetadataFilter(metadata, sub));
+    }
+
+    if (key === '$or') {
+      return (condition as MetadataFilter[]).some((sub) => matchesMetadataFilter(metadata, sub));
+    }
+
+    if (isOperators(condition)) {
+      return matchesOperators(metadata[key], condition);
+    }
+
+    return matchesOperators(metadata[key], { $eq: condition as string | number | boolean });
+  });
+};
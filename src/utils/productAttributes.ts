@@ -0,0 +1,483 @@
+import {
+  ActiveIngredient,
+  Audience,
+  Dosage,
+  DosageUnit,
+  PackSize,
+  ProductAttributes,
+  ProductForm,
+  ProductMetadata,
+  Strength,
+} from '../types/product';
+import { normalizeText } from './textNormalization';
+
+/**
+ * Розпізнавання атрибутів товару та запиту: форма випуску, дозування, аудиторія, інгредієнти.
+ * Структуровані атрибути товару (активні інгредієнти, дозування, форма, кількість) витягуються при інжесті
+ * (зберігаються в attr_* полях метаданих) та під час запиту для записів, проіндексованих до появи атрибутів.
+ * Шаблони записані для тексту після normalizeText (і -> и, є -> е, без ь та апострофів)
+ */
+
+const WORD_START = '(?<![\\p{L}\\p{N}])';
+
+/**
+ * Ключові слова форм випуску
+ */
+const FORM_PATTERNS: Record<ProductForm, RegExp> = {
+  capsule: new RegExp(`${WORD_START}(капсул|caps|capsule|vcaps|вегакапсул)`, 'u'),
+  softgel: new RegExp(`${WORD_START}(softgel|софтгел|гелев\\p{L}*\\s+капсул|мя[гк]\\p{L}*\\s+капсул)`, 'u'),
+  tablet: new RegExp(`${WORD_START}(таблет|tablet|tabs)`, 'u'),
+  chewable: new RegExp(`${WORD_START}(жувал|жеват|chewable)`, 'u'),
+  gummy: new RegExp(`${WORD_START}(желеи|мармелад|gumm)`, 'u'),
+  powder: new RegExp(`${WORD_START}(порош|powder)`, 'u'),
+  liquid: new RegExp(`${WORD_START}(ридк|ридин|жидк|крапл|капли|сироп|liquid|drops|syrup)`, 'u'),
+  lozenge: new RegExp(`${WORD_START}(лодяник|леденц|пастил|lozenge)`, 'u'),
+  spray: new RegExp(`${WORD_START}(спре|spray)`, 'u'),
+};
+
+/**
+ * Сумісні форми: користувач, що просить капсули, погодиться на гелеві капсули
+ */
+const COMPATIBLE_FORMS: Partial<Record<ProductForm, ProductForm[]>> = {
+  capsule: ['softgel'],
+  tablet: ['chewable'],
+};
+
+/**
+ * Ключові слова аудиторій (в порядку пріоритету для запиту)
+ */
+const AUDIENCE_PATTERNS: [Audience, RegExp][] = [
+  ['pregnant', new RegExp(`${WORD_START}(вагитн|беремен|пренатал|prenatal|pregnan)`, 'u')],
+  ['children', new RegExp(`${WORD_START}(дити|дитеи|дитин|дитяч|детеи|дети|детск|малюк|немовл|kids?|child)`, 'u')],
+  ['seniors', new RegExp(`${WORD_START}(литни|пожил|senior|50\\+)`, 'u')],
+  ['women', new RegExp(`${WORD_START}(жинок|жиноч|жинки|женщин|женск|women)`, 'u')],
+  ['men', new RegExp(`${WORD_START}(чолов|мужчин|мужск|men)(?!\\p{L})`, 'u')],
+  ['adults', new RegExp(`${WORD_START}(доросл|взросл|adult)`, 'u')],
+];
+
+/**
+ * Інгредієнти, які можна виключити ("без желатину")
+ */
+const INGREDIENT_PATTERNS: Record<string, RegExp> = {
+  gelatin: new RegExp(`${WORD_START}(желатин|gelatin)`, 'u'),
+  gluten: new RegExp(`${WORD_START}(глютен|gluten|пшениц|wheat)`, 'u'),
+  sugar: new RegExp(`${WORD_START}(цукор|цукр|сахар|sugar)`, 'u'),
+  lactose: new RegExp(`${WORD_START}(лактоз|lactose|молок|milk)`, 'u'),
+  soy: new RegExp(`${WORD_START}(соя|сои|сое|soy)`, 'u'),
+  fish: new RegExp(`${WORD_START}(риба|риби|рибу|рибн|рибяч|fish)`, 'u'),
+};
+
+/**
+ * Форми, які майже завжди містять інгредієнт, навіть якщо він не згаданий в описі
+ */
+const INGREDIENTS_IMPLIED_BY_FORM: Record<string, ProductForm[]> = {
+  gelatin: ['softgel'],
+};
+
+const PLANT_BASED_PATTERN = new RegExp(`${WORD_START}(веган|vegan|вегетариан|vegetarian|рослинн|пектин|pectin)`, 'u');
+
+// Заперечені згадки: "без желатину", "не містить глютену", "gluten-free", "free of soy"
+const NEGATED_MENTION_PATTERN = /(без|не\s+мистить|не\s+содержит|free\s+of|free\s+from)\s+[\p{L}]+|[\p{L}]+[-\s]free/gu;
+
+// "без желатину і цукру", "gluten-free"; "без рибного запаху" - не виключення інгредієнта
+const EXCLUSION_PATTERN = /(?:без|не\s+мистить|не\s+содержит|free\s+of|free\s+from)\s+([\p{L}]+)(?!\p{L})(?!\s+(?:запах|присмак|смак|привкус))(?:\s+(?:и|та)\s+([\p{L}]+))?|([\p{L}]+)[-\s]free/gu;
+
+const DOSAGE_UNITS: Record<string, DosageUnit> = {
+  мо: 'iu',
+  ме: 'iu',
+  iu: 'iu',
+  мг: 'mg',
+  mg: 'mg',
+  мкг: 'mcg',
+  mcg: 'mcg',
+  µg: 'mcg',
+  г: 'g',
+  g: 'g',
+};
+
+// "1000 МО", "5 000 IU", "1,5 мг", "500mg"; розділювач тисяч не після дефіса: "Омега-3 500 мг" - це 500 мг
+const DOSAGE_PATTERN = /(?<![\p{L}\p{N}])((?<!-)\d{1,3}(?:[ ,]\d{3})+|\d+(?:[.,]\d+)?)\s*(мо|ме|iu|мкг|mcg|µg|мг|mg|г|g)(?![\p{L}])/gu;
+
+// "120 капсул", "60 жувальних таблеток", "30 порцій", "100 мл", "454 г"
+const PACK_SIZE_PATTERNS: [PackSize['unit'], RegExp][] = [
+  ['pcs', /(?<![\p{L}\p{N}])(\d+)\s*(?:(?:гелев|жувал|мяк|вегетариан|рослинн|veg)\p{L}*\s+)?(капсул|таблет|софтгел|пастил|лодяник|желеи|цукерок|caps|capsules|softgels|tablets|tabs|gummies|lozenges)/u],
+  ['servings', /(?<![\p{L}\p{N}])(\d+)\s*(порци|servings)/u],
+  ['ml', /(?<![\p{L}\p{N}])(\d+)\s*(мл|ml)(?!\p{L})/u],
+  ['g', /(?<![\p{L}\p{N}])(\d+)\s*(г|g|гр)(?!\p{L})/u],
+];
+
+/**
+ * Мінімальна вага упаковки в грамах ("1 г" в назві - це дозування, а не фасування)
+ */
+const MIN_PACK_WEIGHT_GRAMS = 30;
+
+const parseDosageValue = (raw: string): number => {
+  // "5 000" та "5,000" - розділювачі тисяч, "1,5" - десятковий дріб
+  if (/^\d{1,3}(?:[ ,]\d{3})+$/.test(raw)) {
+    return parseFloat(raw.replace(/[ ,]/g, ''));
+  }
+  return parseFloat(raw.replace(',', '.'));
+};
+
+/**
+ * Форми випуску, згадані в тексті
+ */
+export const detectProductForms = (text: string): ProductForm[] => {
+  const normalized = normalizeText(text);
+  return (Object.keys(FORM_PATTERNS) as ProductForm[]).filter((form) => FORM_PATTERNS[form].test(normalized));
+};
+
+/**
+ * Найточніші форми: "жувальні таблетки" - саме жувальні, "гелеві капсули" - саме гелеві
+ */
+export const mostSpecificForms = (forms: ProductForm[]): ProductForm[] => {
+  return forms.filter((form) =>
+    !Object.entries(COMPATIBLE_FORMS).some(
+      ([general, specific]) => form === general && specific!.some((item) => forms.includes(item))
+    )
+  );
+};
+
+/**
+ * Чи відповідає товар з формами productForms бажаній формі
+ */
+export const isFormCompatible = (wanted: ProductForm, productForms: ProductForm[]): boolean => {
+  const accepted = [wanted, ...(COMPATIBLE_FORMS[wanted] || [])];
+  return productForms.some((form) => accepted.includes(form));
+};
+
+/**
+ * Аудиторії, згадані в тексті (в порядку пріоритету)
+ */
+export const detectAudiences = (text: string): Audience[] => {
+  const normalized = normalizeText(text);
+  return AUDIENCE_PATTERNS.filter(([, pattern]) => pattern.test(normalized)).map(([audience]) => audience);
+};
+
+/**
+ * Усі дозування, згадані в тексті, з позицією в тексті
+ */
+export const parseDosageMatches = (text: string): (Dosage & { index: number })[] => {
+  const dosages: (Dosage & { index: number })[] = [];
+  for (const match of text.toLowerCase().matchAll(DOSAGE_PATTERN)) {
+    const value = parseDosageValue(match[1]);
+    if (value > 0) {
+      dosages.push({ value, unit: DOSAGE_UNITS[match[2]], index: match.index || 0 });
+    }
+  }
+  return dosages;
+};
+
+const DOSAGE_UNIT_LABELS: Record<DosageUnit, string> = {
+  iu: 'МО',
+  mg: 'мг',
+  mcg: 'мкг',
+  g: 'г',
+};
+
+/**
+ * Дозування для відображення: { value: 5000, unit: 'iu' } -> "5000 МО"
+ */
+export const formatDosage = (dosage: Dosage): string => `${dosage.value} ${DOSAGE_UNIT_LABELS[dosage.unit]}`;
+
+/**
+ * Усі дозування, згадані в тексті
+ */
+export const parseDosages = (text: string): Dosage[] => {
+  return parseDosageMatches(text).map(({ value, unit }) => ({ value, unit }));
+};
+
+/**
+ * Кількість в упаковці з назви товару
+ */
+export const parsePackSize = (text: string): PackSize | null => {
+  const normalized = normalizeText(text);
+
+  for (const [unit, pattern] of PACK_SIZE_PATTERNS) {
+    const match = normalized.match(pattern);
+    if (!match) continue;
+
+    const value = parseInt(match[1], 10);
+    if (unit === 'g' && value < MIN_PACK_WEIGHT_GRAMS) continue;
+    if (value > 0) {
+      return { value, unit };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Текст без фасування: "витамин d3 5000 мо, 120 гелевих капсул" -> "витамин d3 5000 мо, "
+ * (для порівняння назв варіантів одного товару різного розміру)
+ */
+export const removePackSize = (normalizedText: string): string => {
+  return PACK_SIZE_PATTERNS.reduce((text, [unit, pattern]) => {
+    return text.replace(new RegExp(pattern.source, 'gu'), (match, value) =>
+      unit === 'g' && parseInt(value, 10) < MIN_PACK_WEIGHT_GRAMS ? match : ' '
+    );
+  }, normalizedText);
+};
+
+/**
+ * Відомі інгредієнти, виключені в тексті: "без желатину і цукру" -> ['gelatin', 'sugar']
+ */
+export const detectExcludedIngredients = (text: string): string[] => {
+  const normalized = normalizeText(text);
+  const excluded = new Set<string>();
+
+  for (const match of normalized.matchAll(EXCLUSION_PATTERN)) {
+    [match[1], match[2], match[3]].filter(Boolean).forEach((word) => {
+      Object.entries(INGREDIENT_PATTERNS).forEach(([ingredient, pattern]) => {
+        if (pattern.test(word)) {
+          excluded.add(ingredient);
+        }
+      });
+    });
+  }
+
+  return Array.from(excluded);
+};
+
+/**
+ * Чи містить товар інгредієнт (заперечені згадки на кшталт "без желатину" не враховуються)
+ */
+export const containsIngredient = (text: string, ingredient: string, forms: ProductForm[] = []): boolean => {
+  const pattern = INGREDIENT_PATTERNS[ingredient];
+  if (!pattern) {
+    return false;
+  }
+
+  const normalized = normalizeText(text);
+  if (pattern.test(normalized.replace(NEGATED_MENTION_PATTERN, ' '))) {
+    return true;
+  }
+
+  const impliedBy = INGREDIENTS_IMPLIED_BY_FORM[ingredient] || [];
+  const explicitlyFree = pattern.test(normalized) || PLANT_BASED_PATTERN.test(normalized);
+  return !explicitlyFree && forms.some((form) => impliedBy.includes(form));
+};
+
+/**
+ * Список інгредієнтів, які підтримує виключення
+ */
+export const KNOWN_INGREDIENTS = Object.keys(INGREDIENT_PATTERNS);
+
+const VITAMIN = '(?:витамин|vitamin)\\s*';
+
+interface IngredientDefinition extends ActiveIngredient {
+  pattern: RegExp;
+}
+
+const ingredient = (id: string, name: string, source: string): IngredientDefinition => ({
+  id,
+  name,
+  pattern: new RegExp(`${WORD_START}(?:${source})`, 'gu'),
+});
+
+/**
+ * Словник активних інгредієнтів (шаблони для тексту після normalizeText)
+ */
+const INGREDIENTS: IngredientDefinition[] = [
+  ingredient('vitamin_d3', 'Вітамін D3', `(?:${VITAMIN})?[dд]3(?![\\p{L}\\p{N}])|холекальциферол|cholecalciferol`),
+  ingredient('vitamin_d', 'Вітамін D', `${VITAMIN}[dд](?![\\p{L}\\p{N}])`),
+  ingredient('vitamin_k2', 'Вітамін K2', `(?:${VITAMIN})?[kк]2(?![\\p{L}\\p{N}])|менахинон|menaquinone|m[kк]-?7(?!\\p{N})|мк-?7(?!\\p{N})`),
+  ingredient('vitamin_c', 'Вітамін C', `${VITAMIN}[cс](?![\\p{L}\\p{N}])|аскорбин|ascorb`),
+  ingredient('vitamin_b12', 'Вітамін B12', `(?:${VITAMIN})?[bб]12(?![\\p{L}\\p{N}])|кобаламин|cobalamin|метилкобаламин|methylcobalamin`),
+  ingredient('vitamin_b_complex', 'Вітаміни групи B', `[bб][- ]?(?:комплекс|complex)|витамини групи [bб]`),
+  ingredient('vitamin_a', 'Вітамін A', `${VITAMIN}[aа](?![\\p{L}\\p{N}])|ретинол|retinol`),
+  ingredient('vitamin_e', 'Вітамін E', `${VITAMIN}[eе](?![\\p{L}\\p{N}])|токоферол|tocopher`),
+  ingredient('folate', 'Фолієва кислота', `фолиев|фолат|метилфолат|folate|folic|[bб]9(?![\\p{L}\\p{N}])`),
+  ingredient('biotin', 'Біотин', `биотин|biotin`),
+  ingredient('omega_3', 'Омега-3', `омега[- ]?3|omega[- ]?3|рибячии\\s+жир|fish\\s+oil|epa(?!\\p{L})|dha(?!\\p{L})`),
+  ingredient('magnesium', 'Магній', `магни|magnesium`),
+  ingredient('zinc', 'Цинк', `цинк|zinc`),
+  ingredient('iron', 'Залізо', `зализ|железо|iron(?!\\p{L})`),
+  ingredient('calcium', 'Кальцій', `калци|calcium`),
+  ingredient('selenium', 'Селен', `селен(?!\\p{L})|selenium`),
+  ingredient('iodine', 'Йод', `иод(?!\\p{L})|iodine`),
+  ingredient('potassium', 'Калій', `калии|калия|potassium`),
+  ingredient('collagen', 'Колаген', `колаген|коллаген|collagen`),
+  ingredient('coq10', 'Коензим Q10', `коензим|q10|coq10|убихинол|ubiquinol`),
+  ingredient('probiotic', 'Пробіотики', `пробиотик|probiotic|лактобакт|бифидобакт`),
+  ingredient('melatonin', 'Мелатонін', `мелатонин|melatonin`),
+  ingredient('glucosamine', 'Глюкозамін', `глюкозамин|glucosamine`),
+  ingredient('chondroitin', 'Хондроїтин', `хондроитин|chondroitin`),
+  ingredient('curcumin', 'Куркумін', `куркум|curcum|turmeric`),
+  ingredient('ashwagandha', 'Ашваганда', `ашваганд|ashwagandha`),
+  ingredient('l_carnitine', 'L-карнітин', `(?:l-|л-)?карнитин|carnitine`),
+  ingredient('creatine', 'Креатин', `креатин|creatine`),
+  ingredient('protein', 'Протеїн', `протеин|protein`),
+  ingredient('hyaluronic_acid', 'Гіалуронова кислота', `гиалурон|hyaluron`),
+  ingredient('lutein', 'Лютеїн', `лютеин|lutein`),
+  ingredient('multivitamin', 'Мультивітаміни', `мультивитамин|multi-?vitamin`),
+];
+
+const INGREDIENT_BY_ID = new Map(INGREDIENTS.map((item) => [item.id, item]));
+
+/**
+ * Назви інгредієнтів словника ("Вітамін D3", "Колаген") - для словника запитів
+ */
+export const INGREDIENT_NAMES = INGREDIENTS.map((item) => item.name);
+
+// "по 2 капсули", "2 таблетки на день", "serving size: 2 softgels"
+const SERVING_SIZE_PATTERNS = [
+  /(?:по|приимати|приним\p{L}*)\s+(\d{1,2})\s*(?:капсул|таблет|софтгел|желеи|пастил)/u,
+  /(?<![\p{L}\p{N}])(\d{1,2})\s*(?:капсул|таблет|софтгел|желеи|пастил)\p{L}*\s+(?:на\s+(?:день|добу|порцию)|в\s+день|щодня)/u,
+  /serving\s+size[:\s]+(\d{1,2})/u,
+];
+
+/**
+ * Згадки інгредієнтів у тексті з позиціями
+ */
+const findIngredientMentions = (normalized: string): { id: string; index: number }[] => {
+  const mentions: { id: string; index: number }[] = [];
+
+  INGREDIENTS.forEach((definition) => {
+    for (const match of normalized.matchAll(definition.pattern)) {
+      mentions.push({ id: definition.id, index: match.index || 0 });
+    }
+  });
+
+  // "Вітамін D3" - це D3, а не загальний вітамін D
+  const ids = new Set(mentions.map((mention) => mention.id));
+  return mentions
+    .filter((mention) => !(mention.id === 'vitamin_d' && ids.has('vitamin_d3')))
+    .sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Активні інгредієнти, згадані в тексті (в порядку першої згадки)
+ */
+export const detectIngredients = (text: string): ActiveIngredient[] => {
+  const seen = new Set<string>();
+  return findIngredientMentions(normalizeText(text))
+    .filter((mention) => !seen.has(mention.id) && seen.add(mention.id))
+    .map((mention) => ({ id: mention.id, name: INGREDIENT_BY_ID.get(mention.id)!.name }));
+};
+
+/**
+ * Дозування з назви, зіставлені з найближчим попереднім інгредієнтом:
+ * "Кальцій 600 мг + D3 400 МО" -> calcium 600 mg, vitamin_d3 400 iu
+ */
+const extractStrengths = (normalizedTitle: string): Strength[] => {
+  const mentions = findIngredientMentions(normalizedTitle);
+
+  return parseDosageMatches(normalizedTitle)
+    .filter((dosage) => dosage.unit !== 'g')
+    .map((dosage) => {
+      const preceding = mentions.filter((mention) => mention.index < dosage.index).pop();
+      const owner = preceding || (mentions.length === 1 ? mentions[0] : undefined);
+      return { value: dosage.value, unit: dosage.unit, ingredient: owner ? owner.id : null };
+    });
+};
+
+/**
+ * Кількість порцій: з фасування в порціях або з кількості одиниць та розміру порції
+ */
+const countServings = (count: ProductAttributes['count'], servingSize: number | null): number | null => {
+  if (count?.unit === 'servings') {
+    return count.value;
+  }
+  if (count?.unit === 'pcs') {
+    return Math.floor(count.value / (servingSize || 1));
+  }
+  return null;
+};
+
+const parseServingSize = (normalizedText: string): number | null => {
+  for (const pattern of SERVING_SIZE_PATTERNS) {
+    const match = normalizedText.match(pattern);
+    const value = match ? parseInt(match[1], 10) : 0;
+    if (value > 0) {
+      return value;
+    }
+  }
+  return null;
+};
+
+/**
+ * Витягування атрибутів з назви та опису товару
+ */
+export const extractProductAttributes = (product: Pick<ProductMetadata, 'title' | 'description'>): ProductAttributes => {
+  const title = product.title || '';
+  const description = product.description || '';
+  const normalizedTitle = normalizeText(title);
+
+  // Інгредієнти та форма - з назви, а якщо в назві їх немає - з опису
+  const titleIngredients = detectIngredients(title);
+  const ingredients = titleIngredients.length > 0 ? titleIngredients : detectIngredients(description).slice(0, 3);
+
+  const titleForms = detectProductForms(title);
+  const forms = mostSpecificForms(titleForms.length > 0 ? titleForms : detectProductForms(description));
+
+  const count = parsePackSize(title);
+  const servingSize = parseServingSize(normalizeText(description)) ?? parseServingSize(normalizedTitle);
+
+  return {
+    ingredients,
+    strengths: extractStrengths(normalizedTitle),
+    form: forms[0] || null,
+    forms,
+    count,
+    servingSize,
+    servings: countServings(count, servingSize),
+  };
+};
+
+/**
+ * Плоскі поля метаданих для збереження атрибутів у векторному сховищі
+ * (Pinecone не приймає вкладені об'єкти та null)
+ */
+export const toAttributeMetadata = (attributes: ProductAttributes): Partial<ProductMetadata> => ({
+  attr_ingredients: attributes.ingredients.map((item) => item.id),
+  attr_strengths: attributes.strengths.map((item) => `${item.ingredient || ''}:${item.value}:${item.unit}`),
+  attr_forms: attributes.forms,
+  ...(attributes.count ? { attr_count: attributes.count.value, attr_count_unit: attributes.count.unit } : {}),
+  ...(attributes.servingSize ? { attr_serving_size: attributes.servingSize } : {}),
+});
+
+/**
+ * Відновлення атрибутів із збережених attr_* полів
+ */
+const fromAttributeMetadata = (metadata: ProductMetadata): ProductAttributes => {
+  const forms = (metadata.attr_forms || []) as ProductForm[];
+  const count = metadata.attr_count
+    ? { value: metadata.attr_count, unit: (metadata.attr_count_unit || 'pcs') as NonNullable<ProductAttributes['count']>['unit'] }
+    : null;
+  const servingSize = metadata.attr_serving_size || null;
+
+  return {
+    ingredients: (metadata.attr_ingredients || [])
+      .map((id) => INGREDIENT_BY_ID.get(id))
+      .filter((item): item is IngredientDefinition => !!item)
+      .map(({ id, name }) => ({ id, name })),
+    strengths: (metadata.attr_strengths || []).map((encoded) => {
+      const [ingredientId, value, unit] = encoded.split(':');
+      return { ingredient: ingredientId || null, value: parseFloat(value), unit: unit as Strength['unit'] };
+    }),
+    form: forms[0] || null,
+    forms,
+    count,
+    servingSize,
+    servings: countServings(count, servingSize),
+  };
+};
+
+/**
+ * Атрибути товару: збережені при інжесті або розпізнані на льоту
+ */
+export const getProductAttributes = (metadata: ProductMetadata): ProductAttributes => {
+  if (Array.isArray(metadata.attr_ingredients)) {
+    return fromAttributeMetadata(metadata);
+  }
+  return extractProductAttributes(metadata);
+};
+
+/**
+ * Додавання атрибутів до метаданих товару (для інжесту)
+ */
+export const withProductAttributes = (product: ProductMetadata): ProductMetadata => ({
+  ...product,
+  ...toAttributeMetadata(extractProductAttributes(product)),
+});
@@ -1,3 +1,7 @@
+import { describeValueMetrics } from './valueMetrics';
+import { describeDietaryTags } from './dietaryTags';
+import { ProductVariant } from '../types/product';
+
 /**
  * Системні промпти для чат-бота українською мовою
  */
@@ -380,6 +384,7 @@ export const SEARCH_INSTRUCTION_PROMPT = `Проаналізуй запит ко
    - "article_search" - якщо це артикул у форматі XXX-XXXXX (наприклад SOL-01011, NOW-12345)
    - "find_similar" - якщо просять аналоги/схоже/замість (але ТІЛЬКИ якщо раніше вже обговорювали конкретний товар)
    - "recommendation" - звичайний запит на підбір товарів
+   - "value" - якщо питають, що вигідніше / найкраща ціна за капсулу чи порцію
 
 2. ЩО ШУКАТИ:
    - Для артикулу: точний код
@@ -397,10 +402,28 @@ export const SEARCH_INSTRUCTION_PROMPT = `Проаналізуй запит ко
 
 Поверни JSON:
 {
-  "searchType": "article_search" | "find_similar" | "recommendation",
+  "searchType": "article_search" | "find_similar" | "recommendation" | "value",
   "searchQuery": "що шукати",
   "context": "короткий опис контексту з історії розмови",
-  "needsMultipleComponents": boolean (чи потрібно кілька товарів для відповіді)
+  "needsMultipleComponents": boolean (чи потрібно кілька товарів для відповіді),
+  "components": ["вітамін D3", "вітамін C", "цинк"] (компоненти для складних запитів, інакше порожній масив)
+}`;
+
+/**
+ * Промпт для LLM re-ranker: оцінка відповідності кожного товару запиту
+ */
+export const RERANK_PROMPT = `Ти - система оцінки релевантності товарів магазину вітамінів та БАДів.
+
+Для кожного товару оціни, наскільки він відповідає запиту користувача:
+- 1.0 - саме те, що шукають (потрібний інгредієнт, форма, призначення)
+- 0.5 - частково підходить (схожий інгредієнт, комплекс з потрібним компонентом)
+- 0.0 - не підходить
+
+Бренд, ціну та наявність НЕ враховуй - тільки відповідність запиту.
+
+Поверни ТІЛЬКИ JSON:
+{
+  "scores": [{ "id": "id товару зі списку", "score": 0.0 }]
 }`;
 
 /**
@@ -409,7 +432,9 @@ export const SEARCH_INSTRUCTION_PROMPT = `Проаналізуй запит ко
 export function createUserPrompt(
   userMessage: string,
   searchResults: any[],
-  conversationHistory: any[]
+  conversationHistory: any[],
+  maxProducts: number = 3,
+  notes: string[] = []
 ): string {
   let prompt = `ІСТОРІЯ РОЗМОВИ:\n`;
 
@@ -437,6 +462,26 @@ export function createUserPrompt(
       prompt += `- Фото: ${product.image_link}\n`;
       prompt += `- Посилання: ${product.link}\n`;
       prompt += `- В наявності: ${product.availability === 'in_stock' ? 'так' : 'ні'}\n`;
+      const value = describeValueMetrics(product, result.value);
+      if (value) {
+        prompt += `- Вигідність: ${value}\n`;
+      }
+      const dietary = describeDietaryTags(product);
+      if (dietary) {
+        prompt += `- Дієтичні ознаки: ${dietary}\n`;
+      }
+      if (result.component) {
+        prompt += `- Компонент: ${result.component}\n`;
+      }
+      if (result.variants && result.variants.length > 1) {
+        const variants = result.variants
+          .map((variant: ProductVariant) => [variant.size, variant.flavor, variant.price].filter(Boolean).join(', '))
+          .join('; ');
+        prompt += `- Фасування/смаки: ${variants}\n`;
+      }
+      if (result.diff) {
+        prompt += `- Відмінність від оригіналу: ${result.diff}\n`;
+      }
       prompt += `\n`;
     });
   } else {
@@ -444,6 +489,13 @@ export function createUserPrompt(
     prompt += `Вибач користувачеві і попроси уточнити запит.\n`;
   }
 
+  if (notes.length > 0) {
+    prompt += `\nВАЖЛИВО ВРАХУВАТИ:\n`;
+    notes.forEach(note => {
+      prompt += `- ${note}\n`;
+    });
+  }
+
   prompt += `\nТВОЄ ЗАВДАННЯ:
 ПОВЕРНИ ТІЛЬКИ JSON (БЕЗ ЖОДНОГО ДОДАТКОВОГО ТЕКСТУ!) у форматі:
 {
@@ -468,8 +520,8 @@ export function createUserPrompt(
 - НЕ додавай жодного тексту окрім JSON
 - Використовуй ТІЛЬКИ товари зі списку вище
 - НЕ вигадуй товари
-- ⚠️ МАКСИМУМ 3 ТОВАРИ В МАСИВІ products (не більше!)
-- Вибери 3 найкращі варіанти з списку вище
+- ⚠️ МАКСИМУМ ${maxProducts} ТОВАРИ В МАСИВІ products (не більше!)
+- Вибери ${maxProducts} найкращі варіанти з списку вище
 - Якщо товарів немає - поверни порожній масив products: []
 - Обов'язково додай "reason" для кожного товару - поясни ЧОМУ він підходить\n`;
 
@@ -487,6 +539,8 @@ export function getTemperatureForTask(searchType: string): number {
       return 0.5; // Баланс для підбору аналогів
     case 'recommendation':
       return 0.5; // Баланс для рекомендацій
+    case 'value':
+      return 0.3; // Точність для порівняння цін
     default:
       return 0.7; // Для загального спілкування
   }
@@ -0,0 +1,179 @@
+import { MetadataFilter } from '../types/vectorStore';
+import { ProductMetadata, SearchFilters } from '../types/product';
+import { matchesMetadataFilter } from './metadataFilter';
+import { hasDietaryTags } from './dietaryTags';
+import { detectBrandMentions, matchCatalogBrands } from './brandRegistry';
+
+/**
+ * Перетворення SearchFilters на фільтр метаданих сховища (Pinecone-сумісний).
+ * Дієтичні мітки в метаданих не зберігаються (залежать від ручних виправлень) - їх перевіряє matchesSearchFilters
+ */
+export const buildMetadataFilter = (filters: SearchFilters | undefined): MetadataFilter | undefined => {
+  if (!filters) {
+    return undefined;
+  }
+
+  const conditions: MetadataFilter[] = [];
+
+  if (filters.brands && filters.brands.length > 0) {
+    conditions.push({ brand: { $in: filters.brands } });
+  }
+
+  if (filters.priceMin !== undefined || filters.priceMax !== undefined) {
+    conditions.push({
+      price: {
+        ...(filters.priceMin !== undefined ? { $gte: filters.priceMin } : {}),
+        ...(filters.priceMax !== undefined ? { $lte: filters.priceMax } : {}),
+      },
+    });
+  }
+
+  if (filters.categoryPath && filters.categoryPath.length > 0) {
+    // Товар належить категорії, якщо його categories містять увесь шлях від кореня
+    // (однакові назви підкатегорій у різних гілках не змішуються)
+    const [root, ...rest] = filters.categoryPath;
+    conditions.push({ $or: [{ category_main: { $eq: root } }, { categories: { $eq: root } }] });
+    rest.forEach((name) => conditions.push({ categories: { $eq: name } }));
+  } else if (filters.category) {
+    // Категорію не знайдено в дереві - порівнюємо назву
+    conditions.push({
+      $or: [
+        { category_main: { $eq: filters.category } },
+        { categories: { $in: [filters.category] } },
+      ],
+    });
+  }
+
+  if (filters.inStockOnly) {
+    conditions.push({ availability: { $eq: 'in_stock' } });
+  }
+
+  if (conditions.length === 0) {
+    return undefined;
+  }
+
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+};
+
+/**
+ * Перевірка товару на відповідність фільтрам (для in-memory індексів)
+ */
+export const matchesSearchFilters = (product: ProductMetadata, filters: SearchFilters | undefined): boolean => {
+  return (
+    matchesMetadataFilter(product as unknown as Record<string, any>, buildMetadataFilter(filters)) &&
+    hasDietaryTags(product, filters?.dietary)
+  );
+};
+
+/**
+ * Чи задано хоча б один фільтр
+ */
+export const hasActiveFilters = (filters: SearchFilters | undefined): boolean => {
+  return buildMetadataFilter(filters) !== undefined || (filters?.dietary?.length || 0) > 0;
+};
+
+/**
+ * Об'єднання фільтрів: значення з primary мають пріоритет
+ */
+export const mergeSearchFilters = (
+  primary: SearchFilters | undefined,
+  secondary: SearchFilters | undefined
+): SearchFilters => {
+  return {
+    brands: primary?.brands && primary.brands.length > 0 ? primary.brands : secondary?.brands,
+    priceMin: primary?.priceMin ?? secondary?.priceMin,
+    priceMax: primary?.priceMax ?? secondary?.priceMax,
+    category: primary?.category || secondary?.category,
+    inStockOnly: primary?.inStockOnly ?? secondary?.inStockOnly,
+    dietary: primary?.dietary && primary.dietary.length > 0 ? primary.dietary : secondary?.dietary,
+  };
+};
+
+const CURRENCY = '(?:грн\\.?|гривень|гривні|гривен|гривна|uah|₴)';
+const AMOUNT = '(\\d[\\d\\s]{0,6}\\d|\\d)';
+
+// Число не є ціною, якщо далі одиниця дозування або фасування: "не більше 2000 МО", "менше 25 мг", "максимум 60 капсул"
+const NOT_DOSAGE = '(?!\\s*\\d)(?!\\s*(?:мо|ме|iu|мкг|мг|mcg|mg|µg|г|гр|g|мл|ml|%)(?![\\p{L}]))' +
+  '(?!\\s*(?:капс|таб|шт|драже|пастил|порц|caps|tab|softgel|serv))';
+
+const PRICE_RANGE_PATTERN = new RegExp(`(?:від|от)\\s*${AMOUNT}\\s*${CURRENCY}?\\s*(?:до|-)\\s*${AMOUNT}\\s*${CURRENCY}`, 'iu');
+// Слова, які стосуються лише ціни, працюють і без валюти ("дешевше 400"); загальні порівняння - тільки з валютою
+const PRICE_MAX_PATTERNS = [
+  new RegExp(`(?<!не\\s)(?:дешевше|дешевле|не дорожче|не дороже)(?:\\s*(?:ніж|чем|за))?\\s*${AMOUNT}${NOT_DOSAGE}\\s*${CURRENCY}?`, 'iu'),
+  new RegExp(`(?:менше|меньше|максимум|макс\\.?|не більше|не больше|до|в межах|в пределах)(?:\\s*(?:ніж|чем|за))?\\s*${AMOUNT}\\s*${CURRENCY}`, 'iu'),
+];
+const PRICE_MIN_PATTERNS = [
+  new RegExp(`(?<!не\\s)(?:дорожче|дороже|не дешевше|не дешевле)(?:\\s*(?:ніж|чем|за))?\\s*${AMOUNT}${NOT_DOSAGE}\\s*${CURRENCY}?`, 'iu'),
+  new RegExp(`(?:від|от|більше|больше|мінімум|минимум)(?:\\s*(?:ніж|чем|за))?\\s*${AMOUNT}\\s*${CURRENCY}`, 'iu'),
+];
+const IN_STOCK_PATTERN = /(?:є\s+)?в\s+наявності|в\s+наличии|in\s+stock|щоб\s+був|що\s+є\s+на\s+складі/iu;
+
+const parseAmount = (value: string): number => parseInt(value.replace(/\s/g, ''), 10);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Витягування фільтрів з тексту користувача: "до 500 грн", "від 200 до 800 грн", "тільки Solgar", "в наявності".
+ * Повертає також текст без розпізнаних фраз (для пошукового запиту)
+ */
+export const extractFiltersFromText = (
+  text: string,
+  knownBrands: string[] = []
+): { filters: SearchFilters; remainingText: string } => {
+  const filters: SearchFilters = {};
+  let remaining = text;
+
+  const consume = (match: RegExpMatchArray | null): RegExpMatchArray | null => {
+    if (match) {
+      remaining = remaining.replace(match[0], ' ');
+    }
+    return match;
+  };
+
+  const range = consume(remaining.match(PRICE_RANGE_PATTERN));
+  if (range) {
+    filters.priceMin = parseAmount(range[1]);
+    filters.priceMax = parseAmount(range[2]);
+  } else {
+    for (const pattern of PRICE_MAX_PATTERNS) {
+      const match = consume(remaining.match(pattern));
+      if (match) {
+        filters.priceMax = parseAmount(match[1]);
+        break;
+      }
+    }
+    for (const pattern of PRICE_MIN_PATTERNS) {
+      const match = consume(remaining.match(pattern));
+      if (match) {
+        filters.priceMin = parseAmount(match[1]);
+        break;
+      }
+    }
+  }
+
+  if (consume(remaining.match(IN_STOCK_PATTERN))) {
+    filters.inStockOnly = true;
+  }
+
+  // Бренди, назви яких явно згадано в тексті (назва бренду залишається в запиті).
+  // Варіанти з реєстру ("нау фудс", "солгар") зводяться до назв з каталогу
+  const lowerText = text.toLowerCase();
+  const literalBrands = knownBrands.filter((brand) => {
+    if (brand.length < 3) return false;
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(brand.toLowerCase())}(?![\\p{L}\\p{N}])`, 'u');
+    return pattern.test(lowerText);
+  });
+  const mentionedBrands = matchCatalogBrands(
+    detectBrandMentions(text).map((entry) => entry.name),
+    knownBrands
+  ).filter((brand) => knownBrands.includes(brand));
+  const brands = Array.from(new Set([...literalBrands, ...mentionedBrands]));
+  if (brands.length > 0) {
+    filters.brands = brands;
+  }
+
+  return {
+    filters,
+    remainingText: remaining.replace(/\s+/g, ' ').trim(),
+  };
+};
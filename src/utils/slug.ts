@@ -0,0 +1,25 @@
+/**
+ * Slug для URL з кириличних назв (транслітерація за офіційною українською системою + російські літери)
+ */
+
+const TRANSLITERATION: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'h', ґ: 'g', д: 'd', е: 'e', є: 'ie', ж: 'zh', з: 'z',
+  и: 'y', і: 'i', ї: 'i', й: 'i', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p',
+  р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch',
+  ь: '', ю: 'iu', я: 'ia',
+  ы: 'y', э: 'e', ё: 'e', ъ: '',
+};
+
+/**
+ * "Вітаміни та мінерали" -> "vitaminy-ta-mineraly"
+ */
+export const slugify = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/['’ʼ`]/g, '')
+    .replace(/[а-яіїєґёыэъ]/g, (char) => TRANSLITERATION[char] ?? char)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
@@ -0,0 +1,105 @@
+/**
+ * Нормалізація тексту для ключового пошуку (українська, російська, латиниця)
+ */
+
+/**
+ * Зведення українських та російських літер до спільного написання,
+ * щоб "вітамін" і "витамин" давали однаковий токен
+ */
+const LETTER_FOLDING: Record<string, string> = {
+  і: 'и',
+  ї: 'и',
+  ы: 'и',
+  й: 'и',
+  є: 'е',
+  э: 'е',
+  ё: 'е',
+  ґ: 'г',
+  ъ: '',
+  ь: '',
+};
+
+/**
+ * Одиниці виміру та їх канонічна форма
+ */
+const UNIT_SYNONYMS: Record<string, string> = {
+  мо: 'iu',
+  ме: 'iu',
+  ио: 'iu',
+  iu: 'iu',
+  мг: 'mg',
+  mg: 'mg',
+  мкг: 'mcg',
+  mcg: 'mcg',
+  µg: 'mcg',
+  г: 'g',
+  гр: 'g',
+  мл: 'ml',
+};
+
+/**
+ * Закінчення, які відкидаються при стемінгу (від довших до коротших)
+ */
+const ENDINGS = [
+  'ових', 'ами', 'ями', 'ого', 'ому', 'ему', 'ими', 'ова', 'ови',
+  'ах', 'ях', 'ов', 'ев', 'ив', 'ии', 'ие', 'ия', 'ая', 'ое', 'ои', 'их', 'им', 'ою', 'ею', 'ую', 'юю',
+  'а', 'я', 'и', 'у', 'ю', 'е', 'о',
+];
+
+const MIN_STEM_LENGTH = 4;
+
+/**
+ * Кириличні позначення вітамінів: "д3" -> "d3", "с" -> "c"
+ */
+const VITAMIN_LETTERS: Record<string, string> = { а: 'a', б: 'b', с: 'c', д: 'd', е: 'e', к: 'k' };
+const LATIN_VITAMIN_LETTERS = new Set(['a', 'b', 'c', 'd', 'e', 'k']);
+
+const normalizeVitaminToken = (token: string): string => {
+  // "а" та "е" без цифр - звичайні слова, тому латинізуємо їх тільки з номером
+  if (/^[бсдк]\d{0,2}$/.test(token) || /^[ае]\d{1,2}$/.test(token)) {
+    return VITAMIN_LETTERS[token[0]] + token.slice(1);
+  }
+  return token;
+};
+
+/**
+ * Базова нормалізація: нижній регістр, апострофи, зведення літер
+ */
+export const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/['’ʼ`]/g, '')
+    .replace(/[іїыйєэёґъь]/g, (char) => LETTER_FOLDING[char] ?? char);
+};
+
+/**
+ * Спрощений стемінг: відкидаємо типові закінчення кириличних слів
+ */
+const stem = (token: string): string => {
+  if (!/^[а-я]+$/.test(token) || token.length <= MIN_STEM_LENGTH) {
+    return token;
+  }
+
+  for (const ending of ENDINGS) {
+    if (token.endsWith(ending) && token.length - ending.length >= MIN_STEM_LENGTH - 1) {
+      return token.slice(0, -ending.length);
+    }
+  }
+
+  return token;
+};
+
+/**
+ * Токенізація для ключового пошуку: "Вітамін D3 5000МО" -> ["витамин", "d3", "5000", "iu"]
+ */
+export const tokenize = (text: string): string[] => {
+  const normalized = normalizeText(text)
+    // "5000мо" -> "5000 мо", але "d3", "b12" залишаємо цілими
+    .replace(/(\d)([a-zа-яµ]+)/g, '$1 $2');
+
+  const rawTokens = normalized.match(/[\p{L}\p{N}µ]+/gu) || [];
+
+  return rawTokens
+    .map((token) => UNIT_SYNONYMS[token] || stem(normalizeVitaminToken(token)))
+    .filter((token) => token.length > 1 || /\d/.test(token) || LATIN_VITAMIN_LETTERS.has(token));
+};
@@ -1,6 +1,10 @@
-import { generateChatResponse } from '../config/openai';
+import { timingSafeEqual } from 'crypto';
+import { generateChatResponse, getLlmProviderName } from '../config/llm';
+import { getVectorStoreBackend } from '../config/vectorStore';
 import { RELEVANCE_VALIDATION_PROMPT, IRRELEVANT_REQUEST_MESSAGE } from './prompts';
-import { RelevanceValidation } from '../types/product';
+import { ChatRequest, RelevanceValidation, SearchFilters } from '../types/product';
+import { DIETARY_TAGS } from './dietaryTags';
+import { canonicalBrandName, getBrandsByTier } from './brandRegistry';
 
 /**
  * Валідація релевантності запиту користувача
@@ -48,109 +52,112 @@ export const validateRelevance = async (userMessage: string): Promise<RelevanceV
 };
 
 /**
- * Перевірка, чи містить список товарів бренди Biotus або My Nutri Week
+ * Перевірка, чи містить список товарів обов'язкові (власні) бренди
  */
-export const hasRequiredBrand = (products: any[]): boolean => {
-  const requiredBrands = ['biotus', 'my nutri week'];
+export const hasRequiredBrand = (products: any[], requiredBrands: string[] = getBrandsByTier('own')): boolean => {
+  return products.some((product) => requiredBrands.includes(canonicalBrandName(product.metadata?.brand || '')));
+};
 
-  return products.some((product) => {
-    const brand = product.metadata?.brand?.toLowerCase() || '';
-    return requiredBrands.some((requiredBrand) => brand.includes(requiredBrand));
-  });
+/**
+ * Чи є товар в наявності
+ */
+export const isProductAvailable = (metadata: any): boolean => {
+  return metadata?.availability === 'in_stock';
 };
 
 /**
  * Фільтрація товарів за доступністю (vitahub-xml format)
  */
-export const filterAvailableProducts = (products: any[]): any[] => {
+export const filterAvailableProducts = (products: any[], includeUnavailable: boolean = false): any[] => {
   return products.filter((product) => {
     const metadata = product.metadata;
-    // В новом формате просто проверяем наличие метаданных
-    // Можно добавить проверку availability: 'in_stock' если нужно
-    return metadata && metadata.title && metadata.brand;
+    if (!metadata || !metadata.title || !metadata.brand) {
+      return false;
+    }
+    return includeUnavailable || isProductAvailable(metadata);
   });
 };
 
 /**
- * Список відомих брендів (пріоритет після Biotus/My Nutri Week)
+ * Валідація конфігурації середовища
  */
-const KNOWN_PREMIUM_BRANDS = [
-  'now foods',
-  'solgar',
-  'nature\'s way',
-  'doctor\'s best',
-  'life extension',
-  'jarrow formulas',
-  'thorne',
-  'pure encapsulations',
-  'nordic naturals',
-  'garden of life',
-  'california gold nutrition',
-  'natrol',
-  'bluebonnet',
-  'nature\'s plus',
-  'solaray',
-  'source naturals',
-  'healthy origins',
-];
+export const validateEnvironment = (): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
 
-/**
- * Визначення пріоритету бренду
- */
-const getBrandPriority = (brand: string): number => {
-  const lowerBrand = brand.toLowerCase();
+  let usesPinecone = true;
+  try {
+    usesPinecone = getVectorStoreBackend() === 'pinecone';
+  } catch (error: any) {
+    errors.push(error.message);
+  }
 
-  // Пріоритет 1: Biotus та My Nutri Week (найвищий)
-  if (lowerBrand.includes('biotus') || lowerBrand.includes('my nutri week')) {
-    return 1;
+  if (usesPinecone && !process.env.PINECONE_API_KEY) {
+    errors.push('PINECONE_API_KEY не встановлено');
   }
 
-  // Пріоритет 2: Відомі преміум бренди
-  if (KNOWN_PREMIUM_BRANDS.some(b => lowerBrand.includes(b))) {
-    return 2;
+  let usesOpenAI = true;
+  try {
+    usesOpenAI = getLlmProviderName() === 'openai';
+  } catch (error: any) {
+    errors.push(error.message);
   }
 
-  // Пріоритет 3: Інші бренди
-  return 3;
+  if (usesOpenAI && !process.env.OPENAI_API_KEY) {
+    errors.push('OPENAI_API_KEY не встановлено');
+  }
+
+  if (usesPinecone && !process.env.PINECONE_INDEX_NAME) {
+    errors.push('PINECONE_INDEX_NAME не встановлено');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
 };
 
 /**
- * Сортування товарів за релевантністю та брендом
+ * Валідація фільтрів пошуку з запиту (ChatRequest.filters)
  */
-export const sortProductsByRelevance = (products: any[]): any[] => {
-  return products.sort((a, b) => {
-    const brandA = a.metadata?.brand || '';
-    const brandB = b.metadata?.brand || '';
+export const validateSearchFilters = (filters: unknown): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
 
-    const priorityA = getBrandPriority(brandA);
-    const priorityB = getBrandPriority(brandB);
+  if (filters === undefined || filters === null) {
+    return { valid: true, errors };
+  }
 
-    // Спочатку сортуємо за пріоритетом бренду
-    if (priorityA !== priorityB) {
-      return priorityA - priorityB;
-    }
+  if (typeof filters !== 'object' || Array.isArray(filters)) {
+    return { valid: false, errors: ['Поле "filters" повинно бути об\'єктом'] };
+  }
 
-    // Потім за score (якщо пріоритет однаковий)
-    return (b.score || 0) - (a.score || 0);
-  });
-};
+  const { brands, priceMin, priceMax, category, inStockOnly, dietary } = filters as SearchFilters;
 
-/**
- * Валідація конфігурації середовища
- */
-export const validateEnvironment = (): { valid: boolean; errors: string[] } => {
-  const errors: string[] = [];
+  if (brands !== undefined && (!Array.isArray(brands) || brands.some((brand) => typeof brand !== 'string'))) {
+    errors.push('filters.brands повинно бути масивом рядків');
+  }
 
-  if (!process.env.PINECONE_API_KEY) {
-    errors.push('PINECONE_API_KEY не встановлено');
+  if (priceMin !== undefined && (typeof priceMin !== 'number' || priceMin < 0)) {
+    errors.push('filters.priceMin повинно бути невід\'ємним числом');
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    errors.push('OPENAI_API_KEY не встановлено');
+  if (priceMax !== undefined && (typeof priceMax !== 'number' || priceMax < 0)) {
+    errors.push('filters.priceMax повинно бути невід\'ємним числом');
   }
 
-  if (!process.env.PINECONE_INDEX_NAME) {
-    errors.push('PINECONE_INDEX_NAME не встановлено');
+  if (typeof priceMin === 'number' && typeof priceMax === 'number' && priceMin > priceMax) {
+    errors.push('filters.priceMin не може бути більшим за filters.priceMax');
+  }
+
+  if (category !== undefined && typeof category !== 'string') {
+    errors.push('filters.category повинно бути рядком');
+  }
+
+  if (inStockOnly !== undefined && typeof inStockOnly !== 'boolean') {
+    errors.push('filters.inStockOnly повинно бути boolean');
+  }
+
+  if (dietary !== undefined && (!Array.isArray(dietary) || dietary.some((tag) => !DIETARY_TAGS.includes(tag)))) {
+    errors.push(`filters.dietary повинно бути масивом з: ${DIETARY_TAGS.join(', ')}`);
   }
 
   return {
@@ -159,6 +166,31 @@ export const validateEnvironment = (): { valid: boolean; errors: string[] } => {
   };
 };
 
+/**
+ * Валідація тіла запиту до чату: текст помилки або null
+ */
+export const validateChatRequest = (chatRequest: ChatRequest): string | null => {
+  if (!chatRequest || !chatRequest.message || typeof chatRequest.message !== 'string') {
+    return 'Поле "message" є обов\'язковим і повинно бути рядком';
+  }
+
+  if (chatRequest.message.trim().length === 0) {
+    return 'Повідомлення не може бути порожнім';
+  }
+
+  if (chatRequest.message.length > 500) {
+    return 'Повідомлення занадто довге (максимум 500 символів)';
+  }
+
+  if (chatRequest.productId !== undefined && typeof chatRequest.productId !== 'string') {
+    return 'Поле "productId" повинно бути рядком';
+  }
+
+  const filtersValidation = validateSearchFilters(chatRequest.filters);
+
+  return filtersValidation.valid ? null : filtersValidation.errors.join('; ');
+};
+
 /**
  * Санітизація користувацького вводу
  */
@@ -185,6 +217,15 @@ export const isValidSessionId = (sessionId: string): boolean => {
   return uuidRegex.test(sessionId);
 };
 
+/**
+ * Перевірка заголовка Authorization "Bearer <ключ>" (порівняння за сталий час)
+ */
+export const isValidBearerToken = (authorization: string | undefined, key: string): boolean => {
+  const expected = Buffer.from(`Bearer ${key}`);
+  const actual = Buffer.from(authorization || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
 /**
  * Форматування ціни
  */
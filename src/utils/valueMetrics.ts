@@ -0,0 +1,164 @@
+import { ProductAttributes, ProductMetadata, SearchMatch, ValueMetrics } from '../types/product';
+import { formatDosage, getProductAttributes } from './productAttributes';
+
+/**
+ * Показники вигідності товару: ціна за одиницю фасування, за порцію та за 1000 МО/мг/мкг
+ * активного інгредієнта. Розраховуються з розпізнаних атрибутів (фасування, розмір порції, дозування)
+ */
+
+/**
+ * Кількість одиниць дозування, за яку рахується ціна дози
+ */
+const DOSE_BASE = 1000;
+
+/**
+ * Підписи одиниць фасування за формою: [скорочено, "за ..."]
+ */
+const PIECE_LABELS: Partial<Record<NonNullable<ProductAttributes['form']>, [string, string]>> = {
+  capsule: ['капс.', 'капсулу'],
+  softgel: ['капс.', 'капсулу'],
+  tablet: ['табл.', 'таблетку'],
+  chewable: ['табл.', 'таблетку'],
+  lozenge: ['льодяник.', 'льодяник'],
+};
+
+const PACK_UNIT_LABELS: Record<string, [string, string]> = {
+  pcs: ['шт.', 'штуку'],
+  servings: ['порц.', 'порцію'],
+  ml: ['мл', 'мл'],
+  g: ['г', 'г'],
+};
+
+/**
+ * Підписи одиниці фасування товару: ["капс.", "капсулу"]
+ */
+export const getPackUnitLabels = (attributes: ProductAttributes): [string, string] => {
+  const unit = attributes.count?.unit || 'pcs';
+  return (unit === 'pcs' && attributes.form && PIECE_LABELS[attributes.form]) || PACK_UNIT_LABELS[unit];
+};
+
+const roundPrice = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Розрахунок показників вигідності товару
+ */
+export const computeValueMetrics = (product: ProductMetadata): ValueMetrics => {
+  const attributes = getProductAttributes(product);
+  const price = product.price || 0;
+  const { count, servings } = attributes;
+
+  const pricePerUnit = price > 0 && count ? roundPrice(price / count.value) : null;
+  const pricePerServing = price > 0 && servings ? roundPrice(price / servings) : null;
+
+  // Дозування з назви вказане на порцію (або на одиницю, якщо розмір порції невідомий)
+  const mainIngredient = attributes.ingredients[0]?.id;
+  const strength =
+    attributes.strengths.find((item) => item.ingredient === mainIngredient && item.unit !== 'g') ||
+    attributes.strengths.find((item) => item.unit !== 'g');
+
+  const pricePerDose =
+    price > 0 && servings && strength
+      ? {
+          value: roundPrice(price / ((strength.value * servings) / DOSE_BASE)),
+          per: DOSE_BASE,
+          unit: strength.unit,
+          ingredient: strength.ingredient,
+        }
+      : null;
+
+  return {
+    pricePerUnit,
+    unit: count ? count.unit : null,
+    pricePerServing,
+    pricePerDose,
+  };
+};
+
+/**
+ * Додавання показників вигідності до результатів пошуку
+ */
+export const withValueMetrics = (matches: SearchMatch[]): SearchMatch[] => {
+  return matches.map((match) => (match.value ? match : { ...match, value: computeValueMetrics(match.metadata) }));
+};
+
+const formatAmount = (value: number): string => value.toFixed(2).replace('.', ',');
+
+/**
+ * Ціна за одиницю для картки товару: "4,04 грн/капс."
+ */
+export const formatUnitPrice = (product: ProductMetadata, metrics: ValueMetrics = computeValueMetrics(product)): string | null => {
+  if (metrics.pricePerUnit === null) {
+    return null;
+  }
+  const [label] = getPackUnitLabels(getProductAttributes(product));
+  return `${formatAmount(metrics.pricePerUnit)} грн/${label}`;
+};
+
+/**
+ * Усі показники вигідності одним рядком (для промпта)
+ */
+export const describeValueMetrics = (product: ProductMetadata, metrics: ValueMetrics = computeValueMetrics(product)): string | null => {
+  const parts: string[] = [];
+
+  const unitPrice = formatUnitPrice(product, metrics);
+  if (unitPrice) parts.push(unitPrice);
+  if (metrics.pricePerServing !== null) parts.push(`${formatAmount(metrics.pricePerServing)} грн/порцію`);
+  if (metrics.pricePerDose) {
+    const { value, per, unit } = metrics.pricePerDose;
+    parts.push(`${formatAmount(value)} грн за ${formatDosage({ value: per, unit })}`);
+  }
+
+  return parts.length > 0 ? parts.join('; ') : null;
+};
+
+type ValueBasis = (metrics: ValueMetrics) => number | null;
+
+/**
+ * Спільна база порівняння для набору товарів: ціна дози того самого інгредієнта,
+ * далі ціна порції, далі ціна одиниці - перша, яка є хоча б у половини товарів
+ */
+const chooseValueBasis = (metrics: ValueMetrics[]): ValueBasis | null => {
+  const doseKeys = new Map<string, number>();
+  metrics.forEach((item) => {
+    if (item.pricePerDose) {
+      const key = `${item.pricePerDose.ingredient}:${item.pricePerDose.unit}`;
+      doseKeys.set(key, (doseKeys.get(key) || 0) + 1);
+    }
+  });
+  const [doseKey, doseCount] = Array.from(doseKeys.entries()).sort((a, b) => b[1] - a[1])[0] || ['', 0];
+
+  const candidates: { basis: ValueBasis; covered: number }[] = [
+    {
+      basis: (item) =>
+        item.pricePerDose && `${item.pricePerDose.ingredient}:${item.pricePerDose.unit}` === doseKey ? item.pricePerDose.value : null,
+      covered: doseCount,
+    },
+    { basis: (item) => item.pricePerServing, covered: metrics.filter((item) => item.pricePerServing !== null).length },
+    { basis: (item) => item.pricePerUnit, covered: metrics.filter((item) => item.pricePerUnit !== null).length },
+  ];
+
+  return candidates.find((candidate) => candidate.covered > 0 && candidate.covered * 2 >= metrics.length)?.basis || null;
+};
+
+/**
+ * Сортування за вигідністю (найдешевша доза/порція першою).
+ * Товари, які неможливо порівняти, залишаються в кінці у вихідному порядку
+ */
+export const sortByBestValue = (matches: SearchMatch[]): SearchMatch[] => {
+  const withMetrics = withValueMetrics(matches);
+  const basis = chooseValueBasis(withMetrics.map((match) => match.value!));
+
+  if (!basis) {
+    return withMetrics;
+  }
+
+  return withMetrics
+    .map((match, index) => ({ match, index, key: basis(match.value!) }))
+    .sort((a, b) => {
+      if (a.key === null || b.key === null) {
+        return (a.key === null ? 1 : 0) - (b.key === null ? 1 : 0) || a.index - b.index;
+      }
+      return a.key - b.key || a.index - b.index;
+    })
+    .map(({ match }) => match);
+};
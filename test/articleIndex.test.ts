@@ -0,0 +1,12 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setupTestEnvironment } from './helpers';
+import { lookupArticle } from '../src/services/articleIndex';
+
+setupTestEnvironment();
+
+test('lookupArticle: товар знаходиться і за артикулом, і за штрихкодом', async () => {
+  assert.equal((await lookupArticle('now 00372'))?.id, '201');
+  assert.equal((await lookupArticle('0733739003720'))?.id, '201');
+  assert.equal(await lookupArticle('0000000000000'), null);
+});
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractArticles } from '../src/utils/articleParser';
+
+const codes = (text: string, prefixes: string[] = []) => extractArticles(text, new Set(prefixes)).map((article) => article.code);
+
+test('extractArticles: артикули з дефісом, без розділювача та з міткою', () => {
+  assert.deepEqual(codes('є SOL-01701?'), ['SOL-01701']);
+  assert.deepEqual(codes('sol01701'), ['SOL-01701']);
+  assert.deepEqual(codes('артикул: SOL 01701'), ['SOL-01701']);
+  assert.deepEqual(codes('штрихкод 4006381333931 і SOL-01701'), ['4006381333931', 'SOL-01701']);
+});
+
+test('extractArticles: форма з пробілом - тільки для префіксів каталогу', () => {
+  assert.deepEqual(codes('SOL 01701', ['SOL']), ['SOL-01701']);
+  assert.deepEqual(codes('SOL 01701'), []);
+  assert.deepEqual(codes('ZMA 1000', ['SOL', 'NOW']), []);
+});
+
+test('extractArticles: число з одиницею дозування - не артикул', () => {
+  assert.deepEqual(codes('NOW 5000 IU D3', ['NOW']), []);
+  assert.deepEqual(codes('NOW 1000 мг омега', ['NOW']), []);
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCatalogFeed } from '../src/services/catalogFeed';
+
+const ymlFeed = (offers: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<yml_catalog><shop>
+  <currencies><currency id="UAH" rate="1"/></currencies>
+  <categories><category id="1">Вітаміни</category></categories>
+  <offers>${offers}</offers>
+</shop></yml_catalog>`;
+
+const offer = (id: string, price: string, codes: string) =>
+  `<offer id="${id}" available="true"><name>Вітамін D3 ${id}</name><vendor>Now Foods</vendor>` +
+  `<price>${price}</price><categoryId>1</categoryId>${codes}</offer>`;
+
+test('parseCatalogFeed: ціни з роздільниками розрядів', () => {
+  const prices = parseCatalogFeed(ymlFeed([
+    offer('1', '485.00', ''),
+    offer('2', '1,234.00', ''),
+    offer('3', '1 234,00', ''),
+    offer('4', '1.234,50', ''),
+    offer('5', '1,234', ''),
+    offer('6', '99,9', ''),
+  ].join(''))).map((product) => product.price);
+
+  assert.deepEqual(prices, [485, 1234, 1234, 1234.5, 1234, 99.9]);
+});
+
+test('parseCatalogFeed: артикул і штрихкод зберігаються окремо', () => {
+  const [withBoth, barcodeOnly] = parseCatalogFeed(ymlFeed(
+    offer('1', '485', '<vendorCode>NOW-00372</vendorCode><barcode>0733739003720</barcode>') +
+    offer('2', '485', '<barcode>0733739003737</barcode>')
+  ));
+
+  assert.equal(withBoth.gtin, 'NOW-00372');
+  assert.equal(withBoth.barcode, '0733739003720');
+  assert.equal(barcodeOnly.gtin, '0733739003737');
+  assert.equal(barcodeOnly.barcode, '0733739003737');
+
+  const [merchant] = parseCatalogFeed(`<?xml version="1.0"?>
+<rss xmlns:g="http://base.google.com/ns/1.0"><channel><item>
+  <g:id>7</g:id><title>Омега-3</title><g:price>1 234,00 UAH</g:price>
+  <g:mpn>SOL-02053</g:mpn><g:gtin>0033984020539</g:gtin>
+</item></channel></rss>`);
+
+  assert.equal(merchant.price, 1234);
+  assert.equal(merchant.gtin, 'SOL-02053');
+  assert.equal(merchant.barcode, '0033984020539');
+});
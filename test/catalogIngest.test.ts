@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { setupTestEnvironment } from './helpers';
+import { ingestCatalog, IngestOptions } from '../src/services/catalogIngest';
+
+setupTestEnvironment();
+
+const directory = mkdtempSync(path.join(tmpdir(), 'vitahub-ingest-'));
+const offers = ['1', '2', '3', '4'].map((id) =>
+  `<offer id="${id}" available="true"><name>Вітамін D3 ${id}</name><vendor>Now Foods</vendor>` +
+  `<price>485</price><categoryId>1</categoryId></offer>`
+);
+const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<yml_catalog><shop>
+  <currencies><currency id="UAH" rate="1"/></currencies>
+  <categories><category id="1">Вітаміни</category></categories>
+  <offers>${offers.join('')}</offers>
+</shop></yml_catalog>`;
+writeFileSync(path.join(directory, 'feed.xml'), xml, 'utf-8');
+
+const options: IngestOptions = {
+  feed: path.join(directory, 'feed.xml'),
+  dryRun: false,
+  resume: true,
+  batchSize: 1,
+  checkpointPath: path.join(directory, 'checkpoint.json'),
+};
+
+/**
+ * Чекпоінт перерваного інжесту: перший пакет завантажено
+ */
+const writeCheckpoint = (limit: number | null) =>
+  writeFileSync(options.checkpointPath, JSON.stringify({
+    feedHash: crypto.createHash('sha256').update(xml).digest('hex'),
+    indexName: process.env.LOCAL_VECTOR_SNAPSHOT,
+    limit,
+    nextOffset: 1,
+    totalProducts: limit ?? offers.length,
+    updatedAt: new Date().toISOString(),
+  }), 'utf-8');
+
+test('ingestCatalog: --resume відхиляє чекпоінт з іншим --limit', async () => {
+  writeCheckpoint(2);
+  await assert.rejects(ingestCatalog({ ...options, limit: 3 }), /іншим --limit \(2\)/);
+  await assert.rejects(ingestCatalog(options), /іншим --limit \(2\)/);
+
+  writeCheckpoint(null);
+  await assert.rejects(ingestCatalog({ ...options, limit: 2 }), /іншим --limit \(без обмеження\)/);
+});
+
+test('ingestCatalog: --resume з тим самим --limit продовжує з чекпоінту', async () => {
+  writeCheckpoint(3);
+  const report = await ingestCatalog({ ...options, limit: 3 });
+
+  assert.equal(report.totalProducts, 3);
+  assert.equal(report.skippedByResume, 1);
+  assert.equal(report.upserted, 2);
+});
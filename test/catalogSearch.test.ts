@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadFixtureProducts, setupTestEnvironment } from './helpers';
+import { isValidCatalogCursor, searchCatalog } from '../src/services/catalogSearch';
+import { RERANK_CONFIG } from '../src/services/reranker';
+import { ProductMetadata } from '../src/types/product';
+
+// Фікстури та 110 різних товарів інших брендів: разом більше за MAX_SEARCH_RESULTS (100)
+const generated = Array.from({ length: 110 }, (_, index): ProductMetadata => ({
+  ...loadFixtureProducts()[0],
+  id: `9${String(index).padStart(3, '0')}`,
+  brand: `Бренд ${index}`,
+  categories: ['Інше'],
+  category_main: 'Інше',
+  category_path: 'Інше',
+  gtin: `GEN-${String(index).padStart(5, '0')}`,
+  barcode: '',
+  title: `Добавка ${index}`,
+  search_text: `Добавка ${index}. Бренд ${index}. Інше.`,
+  price: 100,
+  price_formatted: '100 грн',
+}));
+
+// Товар категорії "Вітаміни" з довгим описом: за запитом "Добавка" нижче за всі 110 згенерованих
+const vitaminSupplement: ProductMetadata = {
+  ...loadFixtureProducts()[0],
+  id: '9500',
+  brand: 'Бренд вітамінів',
+  gtin: 'GEN-VIT',
+  barcode: '',
+  title: 'Добавка з вітаміном D3',
+  search_text: 'Добавка з вітаміном D3. Бренд вітамінів. Вітаміни > Вітамін D. ' +
+    'Холекальциферол для підтримки кісток, зубів, м\'язів та імунної системи у дорослих.',
+};
+
+const provider = setupTestEnvironment([...loadFixtureProducts(), ...generated, vitaminSupplement]);
+
+test('searchCatalog: перелік обмежений 100 результатами, сторінки курсора без повторів і пропусків', async () => {
+  const params = { query: '', filters: {}, pageSize: 30 };
+  const seen: string[] = [];
+  let cursor: string | undefined;
+  let total = 0;
+
+  do {
+    const page = await searchCatalog({ ...params, cursor });
+    assert.ok(page.results.length <= 30);
+    seen.push(...page.results.map((match) => match.id));
+    total = page.total;
+    cursor = page.nextCursor || undefined;
+  } while (cursor);
+
+  assert.equal(total, 100);
+  assert.equal(seen.length, 100);
+  assert.equal(new Set(seen).size, 100);
+});
+
+test('searchCatalog: курсор прив\'язаний до параметрів запиту', async () => {
+  const params = { query: '', filters: { brands: ['Now Foods'] }, pageSize: 1 };
+  const { nextCursor } = await searchCatalog(params);
+  assert.ok(nextCursor);
+
+  assert.equal(isValidCatalogCursor({ ...params, cursor: nextCursor }), true);
+  assert.equal(isValidCatalogCursor({ ...params, filters: { brands: ['Solgar'] }, cursor: nextCursor }), false);
+  assert.equal(isValidCatalogCursor({ ...params, sort: 'best_value', cursor: nextCursor }), false);
+  assert.equal(isValidCatalogCursor({ ...params, cursor: 'не-курсор' }), false);
+
+  const second = await searchCatalog({ ...params, cursor: nextCursor });
+  assert.equal(second.results.length, 1);
+  await assert.rejects(searchCatalog({ ...params, query: 'цинк', cursor: nextCursor }), /Невалідний курсор/);
+});
+
+test('searchCatalog: фасети брендів, категорій та цін за всім набором результатів', async () => {
+  const result = await searchCatalog({ query: '', filters: { brands: ['now foods', 'солгар'] }, pageSize: 2 });
+
+  // 201 і 203 - фасування одного товару, в результатах одна позиція
+  assert.equal(result.total, 5);
+  assert.equal(result.results.length, 2);
+  assert.deepEqual(result.facets.brands, [
+    { value: 'Now Foods', count: 3 },
+    { value: 'Solgar', count: 2 },
+  ]);
+  assert.deepEqual(result.facets.categories, [
+    { value: 'Вітаміни', count: 3 },
+    { value: 'Мінерали', count: 2 },
+  ]);
+  assert.deepEqual(
+    result.facets.priceBuckets.map((bucket) => bucket.count),
+    [0, 4, 1, 0]
+  );
+});
+
+test('searchCatalog: пошук за запитом не викликає LLM re-ranker', async () => {
+  RERANK_CONFIG.scorer = 'llm';
+  const callsBefore = provider.calls.length;
+
+  const first = await searchCatalog({ query: 'вітамін D3', filters: {}, pageSize: 1 });
+  assert.ok(first.nextCursor);
+  const second = await searchCatalog({ query: 'вітамін D3', filters: {}, pageSize: 1, cursor: first.nextCursor });
+
+  assert.equal(provider.calls.length, callsBefore);
+  assert.equal(first.results[0].rerank?.scorer, 'local');
+  assert.notEqual(second.results[0].id, first.results[0].id);
+  RERANK_CONFIG.scorer = 'local';
+});
+
+test('searchCatalog: категорія обмежує пошук до ранжування, а не глобальний top 100', async () => {
+  const result = await searchCatalog({ query: 'Добавка', filters: {}, categorySlug: 'vitaminy', pageSize: 10 });
+
+  assert.deepEqual(result.results.map((match) => match.id), ['9500']);
+  assert.deepEqual(result.facets.categories, [{ value: 'Вітаміни', count: 1 }]);
+});
@@ -0,0 +1,83 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { getJson, loadFixtureProducts, setupTestEnvironment } from './helpers';
+import { app } from '../src/index';
+import { CategoryNode } from '../src/services/categoryIndex';
+import { ProductMetadata } from '../src/types/product';
+
+const fixture = (id: string) => loadFixtureProducts().find((product) => product.id === id)!;
+const inCategory = (product: ProductMetadata, categoryPath: string): ProductMetadata => ({
+  ...product,
+  id: `${product.id}-kids`,
+  gtin: `${product.gtin}-K`,
+  title: `${product.title}, для дітей`,
+  category_path: categoryPath,
+  category_main: categoryPath.split(' > ')[0],
+  categories: categoryPath.split(' > '),
+});
+
+// Дві підкатегорії "Для дітей" з різними батьківськими категоріями
+setupTestEnvironment([
+  ...loadFixtureProducts(),
+  inCategory(fixture('204'), 'Вітаміни > Для дітей'),
+  inCategory(fixture('208'), 'Мінерали > Для дітей'),
+]);
+
+const server = app.listen(0);
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const find = (nodes: CategoryNode[], name: string): CategoryNode => nodes.find((node) => node.name === name)!;
+
+test('GET /categories: дерево з кількістю товарів та slug', async () => {
+  const { status, body } = await getJson(server, '/categories');
+  assert.equal(status, 200);
+
+  const vitamins = find(body.data, 'Вітаміни');
+  assert.equal(vitamins.slug, 'vitaminy');
+  assert.equal(vitamins.productCount, 6);
+  // 204 і його дитяча копія не в наявності
+  assert.equal(vitamins.inStockCount, 4);
+  assert.deepEqual(find(vitamins.children, 'Вітамін D'), {
+    name: 'Вітамін D',
+    slug: 'vitamin-d',
+    path: ['Вітаміни', 'Вітамін D'],
+    productCount: 4,
+    inStockCount: 3,
+    children: [],
+  });
+});
+
+test('GET /categories: однакові назви в різних гілках отримують різні slug', async () => {
+  const { body } = await getJson(server, '/categories');
+
+  assert.equal(find(find(body.data, 'Вітаміни').children, 'Для дітей').slug, 'dlia-ditei');
+  assert.equal(find(find(body.data, 'Мінерали').children, 'Для дітей').slug, 'mineraly-dlia-ditei');
+});
+
+test('GET /categories/:slug/products: товари категорії з підкатегоріями', async () => {
+  const minerals = await getJson(server, '/categories/mineraly/products');
+  assert.equal(minerals.status, 200);
+  assert.equal(minerals.body.data.category.slug, 'mineraly');
+  assert.deepEqual(
+    minerals.body.data.results.map((match: { id: string }) => match.id).sort(),
+    ['205', '206', '208', '208-kids']
+  );
+
+  const kids = await getJson(server, '/categories/mineraly-dlia-ditei/products');
+  assert.deepEqual(kids.body.data.results.map((match: { id: string }) => match.id), ['208-kids']);
+
+  assert.equal((await getJson(server, '/categories/nemaie/products')).status, 404);
+});
+
+test('GET /products/search: category приймає slug і назву категорії', async () => {
+  const ids = async (requestPath: string) =>
+    (await getJson(server, requestPath)).body.data.results.map((match: { id: string }) => match.id).sort();
+
+  assert.deepEqual(await ids('/products/search?category=mineraly-dlia-ditei'), ['208-kids']);
+  assert.deepEqual(await ids('/products/search?category=mineraly'), ['205', '206', '208', '208-kids']);
+  assert.deepEqual(await ids(`/products/search?category=${encodeURIComponent('Мінерали')}`), ['205', '206', '208', '208-kids']);
+  assert.deepEqual(await ids(`/products/search?q=${encodeURIComponent('цинк')}&category=mineraly-dlia-ditei`), ['208-kids']);
+});
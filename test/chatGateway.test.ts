@@ -0,0 +1,123 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { setupTestEnvironment } from './helpers';
+import { attachChatGateway, GATEWAY_CONFIG, pushOperatorMessage } from '../src/services/chatGateway';
+import { createSession } from '../src/services/chatbot';
+import { isValidBearerToken } from '../src/utils/validation';
+
+setupTestEnvironment();
+
+GATEWAY_CONFIG.heartbeatMs = 50;
+const server = createServer();
+const gateway = attachChatGateway(server);
+server.listen(0);
+
+after(() => {
+  gateway.clients.forEach((socket) => socket.terminate());
+  gateway.close();
+  server.close();
+});
+
+interface TestClient {
+  socket: WebSocket;
+  messages: any[];
+  waitFor(predicate: (message: any) => boolean): Promise<any>;
+}
+
+/**
+ * З'єднання зі шлюзом, яке накопичує отримані повідомлення
+ */
+const connect = async (query = ''): Promise<TestClient> => {
+  const { port } = server.address() as AddressInfo;
+  const socket = new WebSocket(`ws://localhost:${port}${GATEWAY_CONFIG.path}${query}`);
+  const messages: any[] = [];
+  const waiters: { predicate: (message: any) => boolean; resolve: (message: any) => void }[] = [];
+
+  socket.on('message', (raw) => {
+    const message = JSON.parse(raw.toString());
+    messages.push(message);
+    waiters.filter((waiter) => waiter.predicate(message)).forEach((waiter) => {
+      waiters.splice(waiters.indexOf(waiter), 1);
+      waiter.resolve(message);
+    });
+  });
+  await new Promise((resolve) => socket.once('open', resolve));
+
+  return {
+    socket,
+    messages,
+    waitFor: (predicate) => {
+      const received = messages.find(predicate);
+      return received ? Promise.resolve(received) : new Promise((resolve) => waiters.push({ predicate, resolve }));
+    },
+  };
+};
+
+const close = (client: TestClient): Promise<void> =>
+  new Promise((resolve) => {
+    client.socket.once('close', () => resolve());
+    client.socket.close();
+  });
+
+test('push-подія розсилається всім з\'єднанням сесії', async () => {
+  const sessionId = await createSession();
+  const first = await connect(`?sessionId=${sessionId}`);
+  const second = await connect(`?sessionId=${sessionId}`);
+  await Promise.all([first, second].map((client) => client.waitFor((message) => message.event === 'subscribed')));
+
+  assert.equal(await pushOperatorMessage(sessionId, 'Добрий день!', 'Олена'), 2);
+
+  for (const client of [first, second]) {
+    const message = await client.waitFor((item) => item.event === 'operator_message');
+    assert.deepEqual(message.data, { text: 'Добрий день!', operator: 'Олена' });
+    assert.equal(message.sessionId, sessionId);
+    assert.equal(message.seq, 1);
+  }
+  await Promise.all([close(first), close(second)]);
+});
+
+test('перепідключення з lastSeq повторює пропущені події', async () => {
+  const sessionId = await createSession();
+  const client = await connect(`?sessionId=${sessionId}`);
+  await client.waitFor((message) => message.event === 'subscribed');
+  await pushOperatorMessage(sessionId, 'перше');
+  await client.waitFor((message) => message.event === 'operator_message');
+  await close(client);
+
+  // Події під час розриву з'єднання
+  assert.equal(await pushOperatorMessage(sessionId, 'друге'), 0);
+  await pushOperatorMessage(sessionId, 'третє');
+
+  const reconnected = await connect(`?sessionId=${sessionId}&lastSeq=1`);
+  const subscribed = await reconnected.waitFor((message) => message.event === 'subscribed');
+  assert.deepEqual(subscribed.data, { sessionId, lastSeq: 3, replayed: 2, complete: true });
+
+  await reconnected.waitFor((message) => message.seq === 3);
+  const replayed = reconnected.messages.filter((message) => message.event === 'operator_message');
+  assert.deepEqual(replayed.map((message) => [message.seq, message.data.text]), [[2, 'друге'], [3, 'третє']]);
+  await close(reconnected);
+});
+
+test('heartbeat видаляє буфер сесії без з\'єднань після WS_REPLAY_TTL', async () => {
+  const sessionId = await createSession();
+  await pushOperatorMessage(sessionId, 'поки вас не було');
+
+  GATEWAY_CONFIG.replayTtlMs = 0;
+  await new Promise((resolve) => setTimeout(resolve, GATEWAY_CONFIG.heartbeatMs * 3));
+
+  const client = await connect(`?sessionId=${sessionId}&lastSeq=1`);
+  const subscribed = await client.waitFor((message) => message.event === 'subscribed');
+  // Буфер вже видалено: replay неповний, клієнт має перечитати історію
+  assert.deepEqual(subscribed.data, { sessionId, lastSeq: 0, replayed: 0, complete: false });
+  await close(client);
+});
+
+test('isValidBearerToken: тільки точний ключ оператора', () => {
+  assert.equal(isValidBearerToken('Bearer secret-key', 'secret-key'), true);
+  assert.equal(isValidBearerToken('Bearer secret-kez', 'secret-key'), false);
+  assert.equal(isValidBearerToken('Bearer secret', 'secret-key'), false);
+  assert.equal(isValidBearerToken(undefined, 'secret-key'), false);
+});
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { intentResponse, loadFixtureProducts, setupTestEnvironment } from './helpers';
+import { getConversationHistory, processChatMessage } from '../src/services/chatbot';
+import { ChatStreamEvent } from '../src/types/product';
+
+const provider = setupTestEnvironment();
+
+provider.when({
+  match: /НОВИЙ ЗАПИТ КОРИСТУВАЧА: "порадьте вітамін D3"/,
+  response: intentResponse('recommendation', 'вітамін D3'),
+});
+provider.when({
+  match: /НОВИЙ ЗАПИТ КОРИСТУВАЧА: "NOW 5000 IU D3"/,
+  response: intentResponse('recommendation', 'вітамін D3 5000 МО Now Foods'),
+});
+provider.when({
+  match: /ЗНАЙДЕНІ ТОВАРИ/,
+  response: JSON.stringify({
+    message: 'Ось вітамін D3 у наявності',
+    products: [{ id: 'NOW-00372', article: 'NOW-00372', title: 'Вітамін D3 5000 МО', brand: 'Now Foods', price: '485 грн', reason: 'Висока доза' }],
+  }),
+});
+
+test('processChatMessage: намір від AI, пошук і структурована відповідь', async () => {
+  const response = await processChatMessage({ message: 'порадьте вітамін D3' });
+
+  assert.equal(response.response, 'Ось вітамін D3 у наявності');
+  assert.ok(response.productsFound > 0);
+  assert.equal(response.products?.[0].article, 'NOW-00372');
+  assert.deepEqual(
+    (await getConversationHistory(response.sessionId)).map((message) => message.role),
+    ['user', 'assistant']
+  );
+});
+
+test('processChatMessage: артикул обробляється без аналізу наміру', async () => {
+  const callsBefore = provider.calls.length;
+  const response = await processChatMessage({ message: 'артикул NOW-00372' });
+
+  assert.equal(response.productsFound, 1);
+  // Один виклик LLM - генерація відповіді
+  assert.equal(provider.calls.length - callsBefore, 1);
+});
+
+test('processChatMessage: потокові події в порядку intent -> products -> token', async () => {
+  const events: ChatStreamEvent[] = [];
+  const response = await processChatMessage({ message: 'порадьте вітамін D3' }, (event) => events.push(event));
+
+  const order = events.map((event) => event.event).filter((name, index, all) => all.indexOf(name) === index);
+  assert.deepEqual(order, ['intent', 'products', 'token']);
+
+  const streamed = events.map((event) => (event.event === 'token' ? event.data.text : '')).join('');
+  assert.equal(streamed, response.response);
+});
+
+test('processChatMessage: назва з числом не стає артикулом ("NOW 5000 IU D3")', async () => {
+  const response = await processChatMessage({ message: 'NOW 5000 IU D3' });
+
+  assert.ok(provider.calls.some((call) => call.messages.some((message) => message.content.includes('НОВИЙ ЗАПИТ КОРИСТУВАЧА: "NOW 5000 IU D3"'))));
+  assert.ok(response.productsFound > 0);
+});
+
+test('processChatMessage: невідомий артикул - звичайний пошук замість порожньої відповіді', async () => {
+  provider.enqueue(JSON.stringify({ searchType: 'article_search', searchQuery: 'NOW-99999', context: '', isRelevant: true }));
+  const response = await processChatMessage({ message: 'вітамін D3 NOW-99999' });
+
+  assert.ok(response.productsFound > 0);
+  assert.ok(provider.calls.at(-1)!.messages.some((message) => message.content.includes('NOW-99999 немає в каталозі')));
+});
+
+test('processChatMessage: артикул з пробілом у запасному аналізі розпізнається за префіксом каталогу', async () => {
+  // AI повернула не JSON - намір визначає евристика
+  provider.enqueue('не вдалося проаналізувати запит');
+  await processChatMessage({ message: 'NOW 99999' });
+
+  assert.ok(provider.calls.at(-1)!.messages.some((message) => message.content.includes('NOW-99999 немає в каталозі')));
+});
+
+test('processChatMessage: товар за артикулом не в наявності - позначка у відповіді та аналоги в наявності', async () => {
+  const response = await processChatMessage({ message: 'артикул JRW-30001' });
+
+  assert.equal(response.outOfStockRequested, true);
+  assert.deepEqual(response.outOfStockProductIds, ['204']);
+
+  // Першим - сам товар, далі аналоги в наявності
+  const prompt = provider.calls.at(-1)!.messages.map((message) => message.content).join('\n');
+  const articles = [...prompt.matchAll(/- Артикул: (\S+)/g)].map((match) => match[1]);
+  assert.equal(articles[0], 'JRW-30001');
+  assert.ok(articles.length > 1);
+  const fixtures = loadFixtureProducts();
+  articles.slice(1).forEach((article) =>
+    assert.equal(fixtures.find((product) => product.gtin === article)?.availability, 'in_stock', article)
+  );
+  assert.ok(prompt.includes('зараз НЕМАЄ В НАЯВНОСТІ'));
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadFixtureProducts } from './helpers';
+import { extractConstraintsFromText, normalizeConstraints } from '../src/utils/intentConstraints';
+import { getDietaryTags } from '../src/utils/dietaryTags';
+import { satisfiesHardConstraints } from '../src/services/constraintRanking';
+
+const fixture = (id: string) => loadFixtureProducts().find((product) => product.id === id)!;
+
+test('"без желатину" - виключення інгредієнта, а не обов\'язкова мітка', () => {
+  const constraints = extractConstraintsFromText('цинк без желатину');
+
+  assert.deepEqual(constraints.excludeIngredients, ['gelatin']);
+  assert.equal(constraints.dietary, undefined);
+  // Таблетки без позначки "без желатину" проходять, капсули з желатином - ні
+  assert.equal(satisfiesHardConstraints(fixture('208'), constraints), true);
+  assert.equal(satisfiesHardConstraints(fixture('207'), constraints), false);
+});
+
+test('мітка gelatin_free обов\'язкова тільки за явної вимоги позначки', () => {
+  assert.deepEqual(extractConstraintsFromText('сертифікований без желатину цинк').dietary, ['gelatin_free']);
+  assert.deepEqual(extractConstraintsFromText('веганський без желатину').dietary, ['vegan']);
+
+  const fromAi = { excludeIngredients: ['gelatin'], dietary: ['gelatin_free', 'vegan'] };
+  assert.deepEqual(normalizeConstraints(fromAi, 'веганський без желатину').dietary, ['vegan']);
+  assert.deepEqual(normalizeConstraints(fromAi, 'з позначкою без желатину').dietary, ['gelatin_free', 'vegan']);
+});
+
+test('заявлене на товарі "без желатину" залишається міткою товару', () => {
+  const product = { ...fixture('208'), description: 'Таблетки без желатину.' };
+  assert.ok(getDietaryTags(product).some((match) => match.tag === 'gelatin_free'));
+});
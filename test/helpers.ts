@@ -0,0 +1,67 @@
+import { once } from 'events';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { setLlmProvider } from '../src/config/llm';
+import { createFakeProvider, FakeLlmProvider, hashEmbedding } from '../src/services/llm/fakeProvider';
+import { ProductMetadata } from '../src/types/product';
+
+const EMBEDDING_DIMENSIONS = 3072;
+
+/**
+ * Товари-фікстури (test/fixtures/products.json)
+ */
+export const loadFixtureProducts = (): ProductMetadata[] =>
+  JSON.parse(readFileSync(path.join(__dirname, 'fixtures', 'products.json'), 'utf-8'));
+
+/**
+ * Оточення без мережі: фейковий LLM, локальне векторне сховище зі знімка товарів (за замовчуванням - фікстур),
+ * сесії в пам'яті.
+ * Викликати до першого звернення до сховищ (вони створюються ліниво)
+ */
+export const setupTestEnvironment = (products: ProductMetadata[] = loadFixtureProducts()): FakeLlmProvider => {
+  const snapshotPath = path.join(mkdtempSync(path.join(tmpdir(), 'vitahub-test-')), 'vectors.ndjson');
+  const records = products.map((metadata) => ({
+    id: metadata.id,
+    values: hashEmbedding(metadata.search_text, EMBEDDING_DIMENSIONS),
+    metadata,
+  }));
+  writeFileSync(snapshotPath, records.map((record) => JSON.stringify(record)).join('\n') + '\n', 'utf-8');
+
+  process.env.VECTOR_STORE = 'local';
+  process.env.LOCAL_VECTOR_SNAPSHOT = snapshotPath;
+  process.env.SESSION_STORE = 'memory';
+  process.env.LLM_PROVIDER = 'fake';
+
+  const provider = createFakeProvider({ dimensions: EMBEDDING_DIMENSIONS });
+  setLlmProvider(provider);
+  return provider;
+};
+
+/**
+ * Відповідь аналізу наміру у форматі, який очікує analyzeUserIntentWithAI
+ */
+export const intentResponse = (searchType: string, searchQuery: string): string =>
+  JSON.stringify({
+    searchType,
+    searchQuery,
+    context: '',
+    needsMultipleComponents: false,
+    components: [],
+    isRelevant: true,
+  });
+
+/**
+ * GET-запит до тестового сервера: статус і JSON-тіло відповіді
+ */
+export const getJson = async (server: Server, requestPath: string): Promise<{ status: number; body: any }> => {
+  // app.listen(0) прив'язує порт асинхронно
+  if (!server.listening) {
+    await once(server, 'listening');
+  }
+  const { port } = server.address() as AddressInfo;
+  const response = await fetch(`http://localhost:${port}${requestPath}`);
+  return { status: response.status, body: await response.json() };
+};
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadFixtureProducts, setupTestEnvironment } from './helpers';
+import { searchKeywords } from '../src/services/keywordIndex';
+import { fuseRankings } from '../src/services/vectorSearch';
+import { SearchMatch } from '../src/types/product';
+
+setupTestEnvironment();
+
+const fixture = (id: string) => loadFixtureProducts().find((product) => product.id === id)!;
+const ids = (matches: { id: string }[]) => matches.map((match) => match.id);
+
+test('searchKeywords: бренд і дозування в назві ранжуються вище за збіг в описі', async () => {
+  const byBrand = await searchKeywords('Solgar', 5);
+  assert.deepEqual(byBrand.map((match) => match.product.id).sort(), ['202', '207']);
+
+  const byDosage = await searchKeywords('D3 5000 МО', 5);
+  assert.deepEqual(byDosage.slice(0, 2).map((match) => match.product.id).sort(), ['201', '203']);
+  assert.ok(byDosage[1].score > byDosage[2].score);
+  // Нормалізація українського та російського написання
+  assert.equal((await searchKeywords('магний глицинат', 1))[0].product.id, '205');
+});
+
+test('searchKeywords: ліміт та фільтр товарів', async () => {
+  const matches = await searchKeywords('вітамін D3', 2, (product) => product.brand === 'Now Foods');
+
+  assert.equal(matches.length, 2);
+  assert.ok(matches.every((match) => match.product.brand === 'Now Foods'));
+});
+
+test('fuseRankings: збіг в обох рейтингах вище, ваги визначають порядок, вихідні оцінки зберігаються', () => {
+  const vector: SearchMatch[] = [
+    { id: '201', score: 0.9, metadata: fixture('201') },
+    { id: '202', score: 0.8, metadata: fixture('202') },
+    { id: '204', score: 0.7, metadata: fixture('204') },
+  ];
+  const keyword = [{ product: fixture('204'), score: 7.5 }, { product: fixture('205'), score: 3 }];
+
+  const fused = fuseRankings(vector, keyword, { vector: 1, keyword: 1 });
+  // 202 і 205 мають однаковий ранг - першим іде векторний
+  assert.deepEqual(ids(fused), ['204', '201', '202', '205']);
+  assert.equal(fused[0].vectorScore, 0.7);
+  assert.equal(fused[0].keywordScore, 7.5);
+  assert.equal(fused[1].keywordScore, undefined);
+
+  // Ключовий пошук з переважною вагою піднімає свій перший результат
+  assert.deepEqual(ids(fuseRankings(vector, keyword, { vector: 0.2, keyword: 1 })).slice(0, 2), ['204', '205']);
+  assert.deepEqual(ids(fuseRankings(vector, keyword, { vector: 1, keyword: 0 })), ['201', '202', '204', '205']);
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { loadFixtureProducts, setupTestEnvironment } from './helpers';
+import { applyMerchandising, reloadMerchandisingRules } from '../src/services/merchandising';
+import { findAnalogs, findInStockAlternatives } from '../src/services/analogSearch';
+import { searchProducts, searchSimilarProducts } from '../src/services/vectorSearch';
+import { processChatMessage } from '../src/services/chatbot';
+
+const provider = setupTestEnvironment();
+
+const rulesPath = path.join(mkdtempSync(path.join(tmpdir(), 'vitahub-rules-')), 'merchandising.json');
+const fixture = (id: string) => loadFixtureProducts().find((product) => product.id === id)!;
+
+const useRules = (rules: object) => {
+  writeFileSync(rulesPath, JSON.stringify(rules), 'utf-8');
+  process.env.MERCHANDISING_RULES_PATH = rulesPath;
+  reloadMerchandisingRules();
+};
+
+test('заблоковані товари не потрапляють в аналоги та схожі товари', async () => {
+  // 208 - аналог цинку 206, 203 - найближчий сусід D3 201
+  useRules({ blocked: ['208', 'NOW-00373'] });
+
+  const analogs = await findAnalogs(fixture('206'));
+  assert.ok(!analogs.some((match) => match.id === '208'));
+
+  const alternatives = await findInStockAlternatives([fixture('206')]);
+  assert.ok(!alternatives.some((match) => match.id === '208'));
+
+  const similar = await searchSimilarProducts('201', 7);
+  assert.ok(similar.length > 0);
+  assert.ok(!similar.some((match) => match.id === '203'));
+});
+
+test('гарантовані бренди оновлюються разом з правилами мерчандайзингу', async () => {
+  useRules({ featured: { brands: ['Solgar'], count: 1 } });
+  const featured = await searchProducts('вітамін D3');
+  assert.equal(featured.hasRequiredBrand, true);
+  assert.equal(featured.products[0].metadata.brand, 'Solgar');
+
+  useRules({});
+  assert.equal((await searchProducts('вітамін D3')).hasRequiredBrand, false);
+});
+
+test('featured: товар гарантованого бренду поза результатами шукається окремо з фільтрами запиту', async () => {
+  // Solgar серед результатів за "цинк" немає; до 500 грн підходить тільки 202
+  useRules({ featured: { brands: ['Solgar'], count: 1, minScore: 0 } });
+  const fetched = await searchProducts('цинк', { filter: { priceMax: 500 } });
+  assert.equal(fetched.products[0].id, '202');
+  assert.match(fetched.products[0].trace!.at(-1)!.detail, /знайдено окремо/);
+
+  // Бренди користувача обмежують і гарантовані позиції
+  assert.equal((await searchProducts('цинк', { filter: { brands: ['Now Foods'] } })).hasRequiredBrand, false);
+
+  // Без minScore правило діє тільки серед знайдених товарів
+  useRules({ featured: { brands: ['Solgar'], count: 1 } });
+  assert.equal((await searchProducts('цинк', { filter: { priceMax: 500 } })).hasRequiredBrand, false);
+  useRules({});
+});
+
+// Артикули товарів з промпту відповіді (порядок, у якому їх показано)
+const shownArticles = async (message: string, searchType: string): Promise<string[]> => {
+  provider.enqueue(JSON.stringify({ searchType, searchQuery: message, context: '', isRelevant: true }));
+  await processChatMessage({ message });
+  const prompt = provider.calls.at(-1)!.messages.map((item) => item.content).join('\n');
+  return [...prompt.matchAll(/- Артикул: (\S+)/g)].map((match) => match[1]);
+};
+
+test('закріплення зберігаються після переранжування за обмеженнями запиту та за вигідністю', async () => {
+  // "50 мг" підіймає цинк 206, правило закріплює 208 на першій позиції
+  useRules({ pins: [{ productId: '208', position: 1 }] });
+  assert.equal((await shownArticles('цинк 50 мг', 'recommendation'))[0], fixture('208').gtin);
+
+  // Найвигідніший цинк - 206, правило закріплює 208 поверх сортування за вигідністю
+  assert.equal((await shownArticles('найвигідніший цинк', 'value'))[0], fixture('208').gtin);
+  useRules({});
+});
+
+test('sort best_value: порядок за вигідністю, trace пояснює справжню релевантність', async () => {
+  useRules({ pins: [{ productId: '202', position: 1 }] });
+  const scores: Record<string, number> = { '201': 0.8, '202': 0.6, '203': 0.4, '204': 0.2 };
+  const matches = Object.entries(scores).map(([id, score]) => ({ id, score, metadata: fixture(id) }));
+  const sorted = await applyMerchandising(matches, { sort: 'best_value' });
+
+  // Найвигідніший 203, закріплений 202 - поверх сортування; score залишаються релевантністю
+  assert.deepEqual(sorted.map((match) => match.id), ['202', '203', '201', '204']);
+  assert.ok(sorted.every((match) => match.score === scores[match.id]));
+  const trace = sorted.find((match) => match.id === '203')!.trace!;
+  assert.equal(trace.find((entry) => entry.rule === 'relevance')!.delta, 0.5);
+  assert.match(trace.find((entry) => entry.rule === 'sort:best_value')!.detail, /грн за/);
+  useRules({});
+});
@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDosages } from '../src/utils/productAttributes';
+
+test('parseDosages: розділювачі тисяч і десяткові дроби', () => {
+  assert.deepEqual(parseDosages('Вітамін D3 5 000 МО'), [{ value: 5000, unit: 'iu' }]);
+  assert.deepEqual(parseDosages('D3 5,000 IU'), [{ value: 5000, unit: 'iu' }]);
+  assert.deepEqual(parseDosages('Фолієва кислота 1,5 мг'), [{ value: 1.5, unit: 'mg' }]);
+  assert.deepEqual(parseDosages('Магній 400mg'), [{ value: 400, unit: 'mg' }]);
+});
+
+test('parseDosages: число з назви інгредієнта не зливається з дозуванням', () => {
+  assert.deepEqual(parseDosages('Омега-3 500 мг'), [{ value: 500, unit: 'mg' }]);
+  assert.deepEqual(parseDosages('Вітамін B-12 500 мкг'), [{ value: 500, unit: 'mcg' }]);
+  assert.deepEqual(parseDosages('K2 MK-7 100 мкг'), [{ value: 100, unit: 'mcg' }]);
+});
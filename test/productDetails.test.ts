@@ -0,0 +1,42 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { getJson, setupTestEnvironment } from './helpers';
+import { app } from '../src/index';
+
+setupTestEnvironment();
+
+const server = app.listen(0);
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test('GET /products/:id: метадані, похідні атрибути та схожі товари', async () => {
+  const { status, body } = await getJson(server, '/products/201');
+
+  assert.equal(status, 200);
+  const { product, similar } = body.data;
+  assert.equal(product.id, '201');
+  assert.equal(product.brand, 'Now Foods');
+  assert.deepEqual(product.attributes.strengths, [{ value: 5000, unit: 'iu', ingredient: 'vitamin_d3' }]);
+  assert.equal(product.attributes.form, 'softgel');
+  assert.deepEqual(product.attributes.count, { value: 120, unit: 'pcs' });
+
+  assert.ok(similar.length > 0);
+  assert.ok(!similar.some((match: { id: string }) => match.id === '201'));
+  assert.equal(similar[0].id, '203');
+});
+
+test('GET /products/by-article/:gtin: артикул і штрихкод ведуть на той самий товар', async () => {
+  const byArticle = await getJson(server, '/products/by-article/now-00372');
+  const byBarcode = await getJson(server, '/products/by-article/0733739003720');
+
+  assert.equal(byArticle.status, 200);
+  assert.equal(byArticle.body.data.product.id, '201');
+  assert.equal(byBarcode.body.data.product.id, '201');
+});
+
+test('GET /products: невідомий товар - 404', async () => {
+  assert.equal((await getJson(server, '/products/999')).status, 404);
+  assert.equal((await getJson(server, '/products/by-article/NOW-99999')).status, 404);
+});
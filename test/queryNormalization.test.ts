@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setupTestEnvironment } from './helpers';
+import { detectQueryLanguage, normalizeQuery } from '../src/services/queryNormalization';
+
+setupTestEnvironment();
+
+test('normalizeQuery: помилка виправляється за словником інгредієнтів ("кологен" -> "колаген")', async () => {
+  const normalized = await normalizeQuery('кологен');
+
+  assert.equal(normalized.corrected, 'колаген');
+  assert.deepEqual(normalized.corrections, [{ from: 'кологен', to: 'колаген' }]);
+});
+
+test('normalizeQuery: кириличні позначення вітамінів латинізуються та розширюються синонімами', async () => {
+  const normalized = await normalizeQuery('вітамін д3');
+
+  assert.equal(normalized.corrected, 'вітамін D3');
+  assert.deepEqual(normalized.corrections, []);
+  assert.ok(normalized.synonyms.includes('холекальциферол'));
+  assert.ok(normalized.text.startsWith('вітамін D3 '));
+
+  assert.equal((await normalizeQuery('магний б6')).corrected, 'магний B6');
+});
+
+test('normalizeQuery: відомі та короткі слова не виправляються', async () => {
+  for (const query of ['магній гліцинат', 'витамины для детей', 'цинк', 'Solgar омега']) {
+    const normalized = await normalizeQuery(query);
+    assert.deepEqual(normalized.corrections, [], query);
+    assert.equal(normalized.corrected, query);
+  }
+});
+
+test('detectQueryLanguage: українська, російська, англійська та суміш', () => {
+  assert.equal(detectQueryLanguage('омега 3 для дитей'), 'mixed');
+  assert.equal(detectQueryLanguage('вітамін д3 для дітей'), 'uk');
+  assert.equal(detectQueryLanguage('витамин д3'), 'ru');
+  assert.equal(detectQueryLanguage('vitamin D3'), 'en');
+  assert.equal(detectQueryLanguage('vitamin D3 для дітей'), 'mixed');
+});
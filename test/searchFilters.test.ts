@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractFiltersFromText } from '../src/utils/searchFilters';
+import { extractConstraintsFromText } from '../src/utils/intentConstraints';
+
+test('extractFiltersFromText: ціна з валютою або ціновими словами', () => {
+  assert.deepEqual(extractFiltersFromText('вітамін D3 до 500 грн').filters, { priceMax: 500 });
+  assert.deepEqual(extractFiltersFromText('магній дешевше 400').filters, { priceMax: 400 });
+  assert.deepEqual(extractFiltersFromText('омега не більше 1 200 ₴').filters, { priceMax: 1200 });
+  assert.deepEqual(extractFiltersFromText('цинк від 200 до 800 грн').filters, { priceMin: 200, priceMax: 800 });
+  assert.deepEqual(extractFiltersFromText('колаген не дешевше 300 грн').filters, { priceMin: 300 });
+});
+
+test('extractFiltersFromText: дозування та фасування не стають ціною', () => {
+  for (const text of [
+    'вітамін D3 не більше 2000 МО',
+    'магній максимум 400 мг',
+    'цинк менше 25 мг на день',
+    'вітамін C до 1000 мг',
+    'дешевше 60 капсул не треба',
+    'B12 не більше 500 мкг',
+  ]) {
+    const { filters } = extractFiltersFromText(text);
+    assert.equal(filters.priceMax, undefined, text);
+    assert.equal(filters.priceMin, undefined, text);
+  }
+});
+
+test('extractConstraintsFromText: дозування залишається дозуванням, а не ціною', () => {
+  const constraints = extractConstraintsFromText('вітамін D3 не більше 2000 МО');
+
+  assert.equal(constraints.priceMax, undefined);
+  assert.equal(constraints.dosage?.value, 2000);
+  assert.equal(extractConstraintsFromText('цинк менше 25 мг на день').priceMax, undefined);
+  assert.equal(extractConstraintsFromText('цинк дешевше 300 грн').priceMax, 300);
+});
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setupTestEnvironment } from './helpers';
+import { setSessionStore } from '../src/config/sessionStore';
+import { createLocalRedisClient, createRedisSessionStore } from '../src/services/sessionStores/redisStore';
+import { createSession, getConversationHistory, processChatMessage, recordOperatorMessage } from '../src/services/chatbot';
+import { ConversationHistory } from '../src/types/product';
+
+setupTestEnvironment();
+
+const conversation = (sessionId: string, lastUpdatedAt: Date): ConversationHistory => ({
+  sessionId,
+  messages: [{ role: 'user', content: 'вітамін D3' }],
+  createdAt: lastUpdatedAt,
+  lastUpdatedAt,
+  shownProductIds: new Set(['201', '202']),
+  lastShownProductIds: ['202'],
+});
+
+test('redis-сховище: збереження, читання, список, видалення та застарілі сесії', async () => {
+  const client = createLocalRedisClient();
+  const scanCalls: string[] = [];
+  const scan = client.scan.bind(client);
+  client.scan = (cursor, ...args) => {
+    scanCalls.push(cursor);
+    return scan(cursor, ...args);
+  };
+  const store = createRedisSessionStore(client, { prefix: 'test:', ttlSeconds: 60, scanCount: 1 });
+
+  await store.save(conversation('fresh', new Date()));
+  await store.save(conversation('stale', new Date(Date.now() - 2 * 60 * 60 * 1000)));
+
+  const loaded = await store.get('fresh');
+  assert.ok(loaded);
+  assert.deepEqual(loaded.messages, [{ role: 'user', content: 'вітамін D3' }]);
+  assert.ok(loaded.shownProductIds instanceof Set);
+  assert.deepEqual(Array.from(loaded.shownProductIds), ['201', '202']);
+  assert.deepEqual(loaded.lastShownProductIds, ['202']);
+  assert.ok(loaded.lastUpdatedAt instanceof Date);
+  assert.equal(await store.get('missing'), null);
+
+  assert.deepEqual((await store.list()).map((item) => item.sessionId).sort(), ['fresh', 'stale']);
+  // Список читається кількома ітераціями SCAN, поки курсор не повернеться до "0"
+  assert.deepEqual(scanCalls, ['0', '1']);
+
+  // Застарілі сесії видаляє TTL ключа, expire не читає записи
+  scanCalls.length = 0;
+  assert.equal(await store.expire(60 * 60 * 1000), 0);
+  assert.deepEqual(scanCalls, []);
+  assert.equal(await store.delete('stale'), true);
+
+  assert.equal(await store.delete('fresh'), true);
+  assert.equal(await store.delete('fresh'), false);
+  assert.deepEqual(await store.list(), []);
+});
+
+test('паралельні записи однієї сесії не втрачаються', async () => {
+  setSessionStore(createRedisSessionStore(createLocalRedisClient(), { ttlSeconds: 60 }));
+  const sessionId = await createSession();
+
+  // Три запити - шість повідомлень, в межах ліміту історії
+  const texts = ['артикул NOW-00372', 'артикул SOL-03300', 'артикул DRB-00085'];
+  await Promise.all(texts.map((message) => processChatMessage({ message, sessionId })));
+
+  const history = await getConversationHistory(sessionId);
+  assert.equal(history.length, texts.length * 2);
+  assert.deepEqual(history.filter((message) => message.role === 'user').map((message) => message.content).sort(), [...texts].sort());
+  setSessionStore(null);
+});
+
+test('паралельні повідомлення оператора зберігаються в порядку надсилання', async () => {
+  setSessionStore(createRedisSessionStore(createLocalRedisClient(), { ttlSeconds: 60 }));
+  const sessionId = await createSession();
+
+  const texts = ['перше', 'друге', 'третє', 'четверте'];
+  await Promise.all(texts.map((text) => recordOperatorMessage(sessionId, text)));
+
+  const history = await getConversationHistory(sessionId);
+  assert.deepEqual(history.map((message) => message.content), texts.map((text) => `[Оператор] ${text}`));
+  setSessionStore(null);
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadFixtureProducts } from './helpers';
+import { computeValueMetrics, formatUnitPrice, sortByBestValue } from '../src/utils/valueMetrics';
+import { ProductMetadata, SearchMatch } from '../src/types/product';
+
+const fixture = (id: string) => loadFixtureProducts().find((product) => product.id === id)!;
+const product = (title: string, price: number): ProductMetadata => ({ ...fixture('201'), title, price, description: '' });
+const toMatches = (products: ProductMetadata[]): SearchMatch[] =>
+  products.map((metadata, index) => ({ id: metadata.id, score: 1 - index / 10, metadata }));
+const ids = (matches: SearchMatch[]) => matches.map((match) => match.id);
+
+test('computeValueMetrics: ціна за капсулу, порцію та 1000 МО', () => {
+  assert.deepEqual(computeValueMetrics(fixture('201')), {
+    pricePerUnit: 4.04,
+    unit: 'pcs',
+    pricePerServing: 4.04,
+    pricePerDose: { value: 0.81, per: 1000, unit: 'iu', ingredient: 'vitamin_d3' },
+  });
+  assert.equal(formatUnitPrice(fixture('201')), '4,04 грн/капс.');
+});
+
+test('computeValueMetrics: розмір порції з опису фасування', () => {
+  // 120 капсул по 2 на порцію - 60 порцій по 200 мг
+  const metrics = computeValueMetrics(product('Магній 200 мг, 120 капсул, 2 капсули на порцію', 600));
+
+  assert.equal(metrics.pricePerUnit, 5);
+  assert.equal(metrics.pricePerServing, 10);
+  assert.deepEqual(metrics.pricePerDose, { value: 50, per: 1000, unit: 'mg', ingredient: 'magnesium' });
+
+  assert.deepEqual(computeValueMetrics(product('Колаген порошок 300 г, 30 порцій', 600)), {
+    pricePerUnit: 20,
+    unit: 'servings',
+    pricePerServing: 20,
+    pricePerDose: null,
+  });
+  assert.deepEqual(computeValueMetrics(product('Вітамін C 1000 мг', 600)), {
+    pricePerUnit: null,
+    unit: null,
+    pricePerServing: null,
+    pricePerDose: null,
+  });
+});
+
+test('sortByBestValue: ціна дози одного інгредієнта', () => {
+  const sorted = sortByBestValue(toMatches(['201', '202', '203', '204'].map(fixture)));
+
+  assert.deepEqual(ids(sorted), ['203', '201', '202', '204']);
+  assert.ok(sorted.every((match) => match.value));
+});
+
+test('sortByBestValue: без спільного інгредієнта - ціна порції, непорівнянні товари в кінці', () => {
+  // Дози цинку є у двох товарах з трьох - база порівняння доза цинку, магній в кінці
+  assert.deepEqual(ids(sortByBestValue(toMatches(['205', '208', '206'].map(fixture)))), ['206', '208', '205']);
+
+  // Різні інгредієнти - порівнюється ціна порції
+  assert.deepEqual(ids(sortByBestValue(toMatches(['207', '205', '206'].map(fixture)))), ['206', '205', '207']);
+
+  // Без фасування порівнювати нічого - порядок не змінюється
+  const unknown = toMatches([product('Вітамін C 1000 мг', 300), product('Вітамін C 500 мг', 200)]).map((match, index) => ({
+    ...match,
+    id: `c${index}`,
+  }));
+  assert.deepEqual(ids(sortByBestValue(unknown)), ['c0', 'c1']);
+});
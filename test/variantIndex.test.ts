@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadFixtureProducts, setupTestEnvironment } from './helpers';
+import { getVariantGroupKey, groupVariants } from '../src/services/variantIndex';
+import { ProductMetadata, SearchMatch } from '../src/types/product';
+
+const base = loadFixtureProducts().find((product) => product.id === '201')!;
+const product = (id: string, title: string, price: number): ProductMetadata => ({
+  ...base,
+  id,
+  gtin: `NOW-9${id}`,
+  title,
+  price,
+  price_formatted: `${price} грн`,
+  search_text: `${title}. Now Foods. Вітаміни > Вітамін D.`,
+});
+
+const sizes = [
+  product('301', 'Вітамін D3 1000 МО, 60 гелевих капсул', 180),
+  product('302', 'Вітамін D3 1000 МО, 120 гелевих капсул', 320),
+  product('303', 'Вітамін D3 1000 МО, 240 гелевих капсул', 560),
+];
+const stronger = product('304', 'Вітамін D3 5000 МО, 120 гелевих капсул', 485);
+
+setupTestEnvironment([...sizes, stronger]);
+
+const toMatch = (metadata: ProductMetadata, score: number): SearchMatch => ({ id: metadata.id, score, metadata });
+
+test('getVariantGroupKey: фасування 60/120/240 - одна група, інше дозування - окрема', () => {
+  const keys = new Set(sizes.map(getVariantGroupKey));
+
+  assert.equal(keys.size, 1);
+  assert.ok(!keys.has(getVariantGroupKey(stronger)));
+});
+
+test('groupVariants: один товар на групу з усіма фасуваннями, різні дозування не згортаються', async () => {
+  const grouped = await groupVariants([toMatch(sizes[1], 0.9), toMatch(stronger, 0.8), toMatch(sizes[0], 0.7)]);
+
+  // Найрелевантніший товар групи залишається на своєму місці
+  assert.deepEqual(grouped.map((match) => match.id), ['302', '304']);
+  // До групи входять і фасування, яких немає в результатах (з індексу каталогу), від меншого до більшого
+  assert.deepEqual(grouped[0].variants!.map((variant) => [variant.id, variant.size, variant.price]), [
+    ['301', '60 капс.', '180 грн'],
+    ['302', '120 капс.', '320 грн'],
+    ['303', '240 капс.', '560 грн'],
+  ]);
+  assert.equal(grouped[1].variants, undefined);
+});
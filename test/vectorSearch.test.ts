@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadFixtureProducts, setupTestEnvironment } from './helpers';
+import { searchProducts } from '../src/services/vectorSearch';
+import { RERANK_CONFIG } from '../src/services/reranker';
+
+setupTestEnvironment();
+
+test('searchProducts: переоцінюються тільки top N, решта кандидатів не обрізається', async () => {
+  const topN = RERANK_CONFIG.topN;
+  RERANK_CONFIG.topN = 2;
+
+  try {
+    const { products } = await searchProducts('вітамін D3', { topK: 100 });
+    const inStock = loadFixtureProducts().filter((product) => product.availability === 'in_stock');
+
+    assert.ok(products.length > RERANK_CONFIG.topN, `повернуто ${products.length} товарів`);
+    // Усі товари в наявності (крім згорнутих варіантів) доступні для пагінації каталогу
+    const returnedIds = new Set(products.flatMap((match) => [match.id, ...(match.variants || []).map((variant) => variant.id)]));
+    inStock.forEach((product) => assert.ok(returnedIds.has(product.id), `немає товару ${product.id}`));
+
+    const firstUnscored = products.findIndex((match) => !match.rerank);
+    assert.ok(firstUnscored >= 1, 'переоцінені кандидати йдуть першими');
+    assert.ok(products.slice(firstUnscored).every((match) => !match.rerank));
+  } finally {
+    RERANK_CONFIG.topN = topN;
+  }
+});